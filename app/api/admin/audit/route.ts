@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server'
+import { withSession } from '@/lib/auth'
+import { searchAuditLog } from '@/lib/audit'
+
+export const dynamic = 'force-dynamic'
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Parse a from/to parameter; a date-only `to` covers that whole day (UTC)
+ */
+function parseDate(value: string | null, options: { endOfDay?: boolean } = {}) {
+  if (!value) {
+    return undefined
+  }
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) {
+    return null
+  }
+  if (options.endOfDay && DATE_ONLY_PATTERN.test(value)) {
+    date.setUTCHours(23, 59, 59, 999)
+  }
+  return date.toISOString()
+}
+
+/**
+ * Search the audit log (admins only)
+ * Query parameters: from, to (ISO dates, `to` inclusive), userId, table, hasError (true/false), limit, offset
+ */
+export const GET = withSession(async (req, _routeContext, session) => {
+  if (session.role !== 'admin') {
+    return NextResponse.json(
+      { error: 'Forbidden: the audit log is only available to admins' },
+      { status: 403 }
+    )
+  }
+
+  try {
+    const params = req.nextUrl.searchParams
+    const from = parseDate(params.get('from'))
+    const to = parseDate(params.get('to'), { endOfDay: true })
+
+    if (from === null || to === null) {
+      return NextResponse.json(
+        { error: 'from and to must be valid dates, e.g. 2024-05-01 or 2024-05-01T12:00:00Z' },
+        { status: 400 }
+      )
+    }
+
+    const hasErrorParam = params.get('hasError')
+    if (hasErrorParam !== null && hasErrorParam !== 'true' && hasErrorParam !== 'false') {
+      return NextResponse.json(
+        { error: 'hasError must be true or false' },
+        { status: 400 }
+      )
+    }
+
+    const { data, totalCount, error } = await searchAuditLog({
+      from,
+      to,
+      userId: params.get('userId') || undefined,
+      table: params.get('table') || undefined,
+      hasError: hasErrorParam === null ? undefined : hasErrorParam === 'true',
+      limit: params.get('limit') ? parseInt(params.get('limit')!, 10) : undefined,
+      offset: params.get('offset') ? parseInt(params.get('offset')!, 10) : undefined,
+    })
+
+    if (error) {
+      return NextResponse.json({ error }, { status: 500 })
+    }
+
+    return NextResponse.json({ records: data, totalCount })
+  } catch (error) {
+    console.error('Audit API error:', error)
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'An error occurred',
+      },
+      { status: 500 }
+    )
+  }
+})
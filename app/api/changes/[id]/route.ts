@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { getChangeSet, toChangeSetView } from '@/lib/change-sets'
+import { withSession } from '@/lib/auth'
+
+export const dynamic = 'force-dynamic'
+
+interface RouteContext {
+  params: { id: string }
+}
+
+/**
+ * Current state of a change set (own change sets; admins see all)
+ */
+export const GET = withSession<RouteContext>(async (_req, { params }, session) => {
+  try {
+    const { data, error } = await getChangeSet(params.id)
+
+    if (error) {
+      return NextResponse.json({ error }, { status: 500 })
+    }
+    if (!data || (data.userId !== session.user.id && session.role !== 'admin')) {
+      return NextResponse.json({ error: 'Change set not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ changeSet: toChangeSetView(data) })
+  } catch (error) {
+    console.error('Change set API error:', error)
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'An error occurred',
+      },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server'
+import { undoChangeSet } from '@/lib/write-operations'
+import { toChangeSetView } from '@/lib/change-sets'
+import { buildAuditRecord, recordAudit } from '@/lib/audit'
+import { withSession } from '@/lib/auth'
+
+export const dynamic = 'force-dynamic'
+
+interface RouteContext {
+  params: { id: string }
+}
+
+/**
+ * Undo an applied change set (own change sets; admins may undo any)
+ * Answers 409 when a row was changed again after the write, without touching any row.
+ */
+export const POST = withSession<RouteContext>(async (_req, { params }, session) => {
+  try {
+    const startedAt = Date.now()
+    const outcome = await undoChangeSet(params.id)
+
+    if (outcome.data) {
+      const durationMs = Date.now() - startedAt
+      await recordAudit(buildAuditRecord({
+        userId: session.user.id,
+        userEmail: session.user.email,
+        role: session.role,
+        conversationId: null,
+        userMessage: `Undo change set ${params.id}`,
+        toolCalls: [{
+          id: `change-set-${params.id}`,
+          iteration: 0,
+          name: 'undoChanges',
+          arguments: { changeSetId: params.id, changes: outcome.data.changes },
+          durationMs,
+          resultSize: 0,
+          rawResultSize: 0,
+          rowCount: null,
+          error: outcome.error,
+          timedOut: false,
+        }],
+        error: null,
+        model: null,
+        usage: null,
+        answer: null,
+        stopReason: null,
+        durationMs,
+      }))
+    }
+
+    if (outcome.error) {
+      return NextResponse.json(
+        { error: outcome.error, ...(outcome.data ? { changeSet: toChangeSetView(outcome.data) } : {}) },
+        { status: outcome.status }
+      )
+    }
+
+    return NextResponse.json({ changeSet: toChangeSetView(outcome.data!) })
+  } catch (error) {
+    console.error('Change set API error:', error)
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'An error occurred',
+      },
+      { status: 500 }
+    )
+  }
+})
@@ -1,339 +1,364 @@
-import { NextRequest, NextResponse } from 'next/server'
-import OpenAI from 'openai'
-import { queryTable, getTableNames, getTableStructure, queryTableWithJoin } from '@/lib/supabase-query'
+import { NextResponse } from 'next/server'
+import { runAgentLoop, getPartialTrace, getAgentBudget, getRemainingMs, combineUsage, AgentLoopResult, AgentLoopOptions, AgentCancelledError, ToolInvocation } from '@/lib/agent-loop'
+import { groundAnswer, GroundingVerdict } from '@/lib/grounding'
+import { createEventStreamResponse } from '@/lib/sse'
+import { getSystemPrompt } from '@/lib/system-prompt'
+import { getConversation, appendMessages, validateMessages } from '@/lib/conversations'
+import { withSession } from '@/lib/auth'
+import { buildAuditRecord, recordAudit } from '@/lib/audit'
+import { getLlmProvider, LlmOverrides, LlmProviderName } from '@/lib/llm-provider'
+import { buildContext, ContextDecision, ContextSummary, HistoryMessage } from '@/lib/context-window'
+import { confirmChangeSet, rejectChangeSet, describeOutcome } from '@/lib/write-operations'
+import { toChangeSetView } from '@/lib/change-sets'
+import type { ChangeSetDecision } from '@/lib/confirmation-reply'
+import type { RequestContext } from '@/lib/request-context'
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-})
+interface ChatRequest {
+  messages?: HistoryMessage[]
+  // Stored conversation: history is loaded server-side and only the new user message is sent
+  conversationId?: string
+  message?: string
+  stream?: boolean
+  // The user's decision on a change set proposed in an earlier answer; applied without the LLM
+  changeSet?: {
+    id?: string
+    decision?: ChangeSetDecision
+  }
+  // Per-request LLM settings (admins only)
+  llm?: {
+    provider?: LlmProviderName
+    model?: string
+    temperature?: number
+    baseUrl?: string
+  }
+}
 
-if (!process.env.OPENAI_API_KEY) {
-  throw new Error('OPENAI_API_KEY is not set')
+/**
+ * LLM overrides of a request; a different base URL never receives the configured API key
+ */
+function getRequestLlmOverrides(llm: ChatRequest['llm']): LlmOverrides {
+  if (!llm) {
+    return {}
+  }
+  return {
+    provider: llm.provider,
+    model: typeof llm.model === 'string' ? llm.model : undefined,
+    temperature: typeof llm.temperature === 'number' ? llm.temperature : undefined,
+    ...(typeof llm.baseUrl === 'string' ? { baseUrl: llm.baseUrl, apiKey: null } : {}),
+  }
 }
 
+// Agent loop result after the numeric grounding check, with the context it was given
+type ChatResult = AgentLoopResult & { grounding: GroundingVerdict; context: ContextDecision }
+
 /**
- * System prompt that instructs the AI on how to handle database queries
+ * Shape of the JSON response (also sent as the final `done` event when streaming)
  */
-const SYSTEM_PROMPT = `You are a helpful assistant connected to a Supabase database. Your role is to answer questions based EXCLUSIVELY on database content.
+function buildChatResponse(result: ChatResult, conversationId?: string) {
+  // Change set proposed in this turn, waiting for the user's confirmation
+  const changeSet = [...result.toolResults].reverse().find((toolResult) => toolResult?.changeSet)?.changeSet
 
-ABSOLUTE CRITICAL RULES - NEVER VIOLATE THESE:
-1. NEVER hallucinate, invent, estimate, or guess data. ONLY use data returned from database queries.
-2. ALWAYS query the database for data - never use data from previous responses, but USE conversation context to understand references.
-3. If you don't have data from a database query, say "I don't have that information" - NEVER make up numbers or values.
-4. NEVER announce what you're about to do. Just execute queries directly and provide the answer.
-5. When asked about prices, costs, or any numerical data, you MUST query the database - never use previous answers or estimate.
-6. FORBIDDEN PHRASES - NEVER use these: "Ich werde", "I will", "Let me", "Moment bitte", "Einen Moment", "Ich bin bereit", "I'm ready", "I can help", "Wie kann ich dir helfen", "Was möchtest du wissen", or any similar announcement phrases.
-7. NEVER say you're about to do something - just do it silently and show the result.
+  return {
+    ...(conversationId ? { conversationId } : {}),
+    message: {
+      role: 'assistant',
+      content: result.content || 'I processed your request, but got no response.',
+    },
+    trace: result.trace,
+    // Tool calls and rows the answer is based on; empty when no database query was made
+    sources: result.sources,
+    metadata: {
+      iterations: result.iterations,
+      stopReason: result.stopReason,
+      durationMs: result.durationMs,
+      model: result.model,
+      usage: result.usage,
+      databaseBacked: result.trace.some((invocation) => !invocation.error),
+      // Whether the numbers and dates in the answer appear in the tool results
+      grounding: result.grounding,
+      // Token budget of the history and which messages were summarized
+      context: result.context,
+      ...(changeSet ? { changeSet } : {}),
+    },
+  }
+}
 
-CONTEXT UNDERSTANDING:
-- You MUST understand conversation context to resolve references like "dafür" (for those), "für alle" (for all), "die Preise" (the prices), etc.
-- When user says "Was sind die Preise dafür?" after listing materials, understand "dafür" refers to those materials.
-- When user says "Für alle Materialien", understand they want prices for ALL materials mentioned previously.
-- Use context to determine WHAT to query, but ALWAYS query the database to get the actual data.
-- Example: If user asks "Was sind die Preise dafür?" after you listed materials, query prices for those materials using queryTableWithJoin.
+const DECISION_MESSAGES: Record<ChangeSetDecision, string> = {
+  confirm: 'Ja, bestätigen',
+  reject: 'Nein, verwerfen',
+}
 
-QUERY STRATEGY:
-- When a question requires database access, IMMEDIATELY call the appropriate function - no thinking, no announcements, just execute.
-- For questions about related data (e.g., "Einkaufspreise der Materialien", "Verkaufspreise"), you MUST use queryTableWithJoin to join tables.
-- ALWAYS query the database for data - use conversation context to understand WHAT to query, but get the actual data from the database.
-- When user references previous messages (e.g., "dafür", "für alle", "die Preise"), use the context to determine what to query, then query it.
-- Common table patterns: t_materials, t_material_prices, materials, material_prices, etc.
-- Common foreign key patterns: material_id, product_id, user_id, order_id
-- If user asks "Was sind die Preise?" or "Preise dafür" after materials were mentioned, query ALL materials with their prices using queryTableWithJoin.
+/**
+ * Confirm or reject a pending change set and answer like a chat turn
+ * The decision is stored in the conversation and recorded in the audit log; the audited
+ * tool call carries the rows with their values before and after the write.
+ */
+async function handleChangeSetDecision(body: ChatRequest, session: RequestContext, wantsStream: boolean) {
+  const { conversationId } = body
+  const id = body.changeSet?.id
+  const decision = body.changeSet?.decision
+  if (typeof id !== 'string' || (decision !== 'confirm' && decision !== 'reject')) {
+    return NextResponse.json(
+      { error: 'changeSet needs an id and a decision ("confirm" or "reject")' },
+      { status: 400 }
+    )
+  }
 
-PRICE QUERIES SPECIFICALLY:
-- "Einkaufspreise" (purchase prices) = queryTableWithJoin('t_materials', 't_material_prices', 'material_id') and use the "cost_per_unit" or "Kosten pro Einheit" field
-- "Verkaufspreise" (selling prices) = queryTableWithJoin('t_materials', 't_material_prices', 'material_id') and use the "price_per_unit" or "Preis pro Einheit" field
-- NEVER assume prices based on previous queries - ALWAYS query the database for each price question
-- If the user asks "und verkauf" after asking about purchase prices, you MUST query the database again to get selling prices
+  if (conversationId) {
+    const { data: stored, error: loadError } = await getConversation(conversationId)
+    if (loadError) {
+      return NextResponse.json({ error: loadError }, { status: 500 })
+    }
+    if (!stored) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+    }
+  }
 
-AVAILABLE FUNCTIONS:
-- queryTable(tableName, filters, limit, joins?) - Query a single table or with joins
-- queryTableWithJoin(tableName, joinTable, joinColumn?, filters, limit) - Join two related tables
-- getTableStructure(tableName) - Get column names and sample data from a table
-- getTableNames() - List available tables (may return empty if auto-discovery fails)
+  const startedAt = Date.now()
+  const outcome = decision === 'confirm' ? await confirmChangeSet(id) : await rejectChangeSet(id)
+  if (!outcome.data) {
+    return NextResponse.json({ error: outcome.error }, { status: outcome.status })
+  }
 
-RESPONSE STYLE:
-- Be direct and concise - answer the question immediately with data
-- NEVER explain what you're going to do - just do it and show results
-- Present data clearly and organized
-- If an error occurs, explain what went wrong briefly, then suggest next steps
-- When the user asks a question, IMMEDIATELY execute the query and return the data - no preamble, no announcements
-- If you need to query the database, do it silently in the background and only show the final answer
-- NEVER respond with "Ich bin bereit" or "I'm ready" - if you don't have a query to execute, wait for the user's question`
+  const durationMs = Date.now() - startedAt
+  const userMessage = typeof body.message === 'string' && body.message.trim() ? body.message.trim() : DECISION_MESSAGES[decision]
+  const content = describeOutcome(decision, outcome)
+  const changeSet = toChangeSetView(outcome.data)
+  const invocation: ToolInvocation = {
+    id: `change-set-${id}`,
+    iteration: 0,
+    name: decision === 'confirm' ? 'applyChanges' : 'rejectChanges',
+    arguments: { changeSetId: id, changes: outcome.data.changes },
+    durationMs,
+    resultSize: 0,
+    rawResultSize: 0,
+    rowCount: null,
+    error: outcome.error,
+    timedOut: false,
+  }
+  const response = {
+    ...(conversationId ? { conversationId } : {}),
+    message: { role: 'assistant', content },
+    trace: [invocation],
+    sources: [],
+    metadata: {
+      durationMs,
+      databaseBacked: decision === 'confirm' && !outcome.error,
+      changeSet,
+    },
+  }
 
-interface Message {
-  role: 'system' | 'user' | 'assistant' | 'function' | 'tool'
-  content: string
-  name?: string
-  tool_calls?: any[]
-  tool_call_id?: string
-}
+  if (conversationId) {
+    const { error } = await appendMessages(conversationId, [
+      { role: 'user', content: userMessage },
+      { role: 'assistant', content, metadata: { trace: response.trace, sources: [], ...response.metadata } },
+    ])
+    if (error) {
+      console.error('Failed to store change set decision:', error)
+    }
+  }
+  await recordAudit(buildAuditRecord({
+    userId: session.user.id,
+    userEmail: session.user.email,
+    role: session.role,
+    conversationId: conversationId || null,
+    userMessage,
+    toolCalls: [invocation],
+    error: null,
+    model: null,
+    usage: null,
+    answer: content,
+    stopReason: null,
+    durationMs,
+  }))
 
-interface ChatRequest {
-  messages: Message[]
+  if (wantsStream) {
+    return createEventStreamResponse(async (send) => {
+      send({ type: 'done', ...response })
+    })
+  }
+  return NextResponse.json(response)
 }
 
-export async function POST(req: NextRequest) {
+export const POST = withSession(async (req, _routeContext, session) => {
   try {
     const body: ChatRequest = await req.json()
-    const { messages } = body
+    const { conversationId } = body
+    const wantsStream = body.stream === true || req.headers.get('accept')?.includes('text/event-stream')
 
-    if (!messages || !Array.isArray(messages)) {
-      return NextResponse.json(
-        { error: 'Messages array is required' },
-        { status: 400 }
-      )
+    if (body.llm && session.role !== 'admin') {
+      return NextResponse.json({ error: 'Only admins may override the LLM settings' }, { status: 403 })
     }
 
-    // Prepare messages for OpenAI
-    const openaiMessages: any[] = [
-      {
-        role: 'system',
-        content: SYSTEM_PROMPT,
-      },
-    ]
+    if (body.changeSet) {
+      return await handleChangeSetDecision(body, session, !!wantsStream)
+    }
+
+    const { provider: llm, error: llmError } = getLlmProvider(getRequestLlmOverrides(body.llm))
+    if (!llm) {
+      console.error('LLM provider error:', llmError)
+      return NextResponse.json({ error: llmError }, { status: 500 })
+    }
+    let messages: HistoryMessage[]
+    let previousSummary: ContextSummary | null = null
 
-    // Add user messages and assistant responses
-    for (const message of messages) {
-      const openaiMessage: any = {
-        role: message.role,
-        content: message.content,
+    if (conversationId) {
+      if (!body.message || typeof body.message !== 'string' || !body.message.trim()) {
+        return NextResponse.json(
+          { error: 'Message is required' },
+          { status: 400 }
+        )
       }
-      
-      // Preserve tool calls if present (for assistant messages)
-      if (message.tool_calls) {
-        openaiMessage.tool_calls = message.tool_calls
+
+      const { data: stored, error: loadError } = await getConversation(conversationId)
+      if (loadError) {
+        return NextResponse.json({ error: loadError }, { status: 500 })
       }
-      
-      // Preserve tool call ID if present (for tool/function messages)
-      if (message.tool_call_id) {
-        openaiMessage.tool_call_id = message.tool_call_id
+      if (!stored) {
+        return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
       }
-      
-      openaiMessages.push(openaiMessage)
-    }
 
-    // Create a completion with tools (function calling) for database queries
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o',
-      messages: openaiMessages,
-      tools: [
-        {
-          type: 'function',
-          function: {
-            name: 'queryTable',
-            description: 'Query a table in the Supabase database with optional filters. Use this for simple queries on a single table.',
-            parameters: {
-              type: 'object',
-              properties: {
-                tableName: {
-                  type: 'string',
-                  description: 'The name of the table to query',
-                },
-                filters: {
-                  type: 'object',
-                  description: 'Optional filters to apply (key-value pairs)',
-                  additionalProperties: true,
-                },
-                limit: {
-                  type: 'number',
-                  description: 'Maximum number of results to return (default: 100)',
-                  default: 100,
-                },
-                joins: {
-                  type: 'array',
-                  items: {
-                    type: 'string',
-                  },
-                  description: 'Optional array of related tables to join. Use Supabase join syntax like ["prices(*)", "categories(*)"]',
-                },
-              },
-              required: ['tableName'],
-            },
-          },
-        },
-        {
-          type: 'function',
-          function: {
-            name: 'queryTableWithJoin',
-            description: 'Query a table with a join to a related table. Use this when data is spread across multiple tables. For "Einkaufspreise der Materialien", use queryTableWithJoin with t_materials and t_material_prices. The function automatically tries multiple join patterns, so you can call it directly without checking structure first.',
-            parameters: {
-              type: 'object',
-              properties: {
-                tableName: {
-                  type: 'string',
-                  description: 'The name of the main table to query (e.g., "t_materials", "materials")',
-                },
-                joinTable: {
-                  type: 'string',
-                  description: 'The name of the related table to join (e.g., "t_material_prices", "material_prices", "prices")',
-                },
-                joinColumn: {
-                  type: 'string',
-                  description: 'Optional: The foreign key column name. For materials/prices, typically "material_id". If not provided, the function will try to auto-detect.',
-                },
-                filters: {
-                  type: 'object',
-                  description: 'Optional filters to apply to the main table (key-value pairs)',
-                  additionalProperties: true,
-                },
-                limit: {
-                  type: 'number',
-                  description: 'Maximum number of results to return (default: 100)',
-                  default: 100,
-                },
-              },
-              required: ['tableName', 'joinTable'],
-            },
-          },
-        },
-        {
-          type: 'function',
-          function: {
-            name: 'getTableNames',
-            description: 'Get a list of available table names in the database',
-            parameters: {
-              type: 'object',
-              properties: {},
-              required: [],
-            },
-          },
-        },
-        {
-          type: 'function',
-          function: {
-            name: 'getTableStructure',
-            description: 'Get the structure (column names) of a specific table. Use this to understand what fields are available before querying.',
-            parameters: {
-              type: 'object',
-              properties: {
-                tableName: {
-                  type: 'string',
-                  description: 'The name of the table to get structure for',
-                },
-              },
-              required: ['tableName'],
-            },
-          },
-        },
-      ],
-      tool_choice: 'auto',
-      temperature: 0.3, // Lower temperature to reduce hallucinations and be more factual
-    })
-
-    const responseMessage = completion.choices[0].message
+      const userMessage = { role: 'user' as const, content: body.message.trim() }
+      const { error: appendError } = await appendMessages(conversationId, [userMessage])
+      if (appendError) {
+        return NextResponse.json({ error: appendError }, { status: 500 })
+      }
 
-    // Check if the model wants to call a tool
-    if (responseMessage.tool_calls && responseMessage.tool_calls.length > 0) {
-      // Suppress announcement messages - if content is just announcing what will be done, ignore it
-      const content = responseMessage.content
-      const lowerContent = content?.toLowerCase() || ''
-      const isAnnouncement = content && (
-        lowerContent.includes('moment') ||
-        lowerContent.includes('während ich') ||
-        lowerContent.includes('i will') ||
-        lowerContent.includes('let me') ||
-        lowerContent.includes('ich werde') ||
-        lowerContent.includes('ich versuche') ||
-        lowerContent.includes('i\'ll') ||
-        lowerContent.includes('ich bin bereit') ||
-        lowerContent.includes('i\'m ready') ||
-        lowerContent.includes('i can help') ||
-        lowerContent.includes('wie kann ich dir helfen') ||
-        lowerContent.includes('was möchtest du wissen') ||
-        lowerContent.includes('was möchtest du tun') ||
-        lowerContent.includes('einen moment') ||
-        lowerContent.includes('einen augenblick') ||
-        lowerContent.includes('ich werde nun') ||
-        lowerContent.includes('ich werde jetzt') ||
-        lowerContent.includes('ich werde versuchen') ||
-        (content.length < 80 && (
-          lowerContent.includes('query') ||
-          lowerContent.includes('abfrage') ||
-          lowerContent.includes('check') ||
-          lowerContent.includes('prüfen') ||
-          lowerContent.includes('daten abrufen') ||
-          lowerContent.includes('informationen abrufen') ||
-          lowerContent.includes('daten aus der datenbank') ||
-          lowerContent.includes('informationen aus der datenbank')
-        ))
+      messages = [
+        ...stored.messages.map((message) => ({
+          role: message.role,
+          content: message.content,
+          sources: message.metadata?.sources,
+        })),
+        userMessage,
+      ]
+      // Rolling summary stored with the most recent answer that needed one
+      previousSummary = [...stored.messages].reverse()
+        .find((message) => message.role === 'assistant' && message.metadata?.context?.summary)
+        ?.metadata?.context.summary || null
+    } else if (body.messages && Array.isArray(body.messages)) {
+      // History from the client only carries the text of user and assistant turns
+      const validationError = validateMessages(body.messages)
+      if (validationError) {
+        return NextResponse.json({ error: validationError }, { status: 400 })
+      }
+      messages = body.messages.map((message) => ({ role: message.role, content: message.content }))
+    } else {
+      return NextResponse.json(
+        { error: 'Messages array or conversationId is required' },
+        { status: 400 }
       )
+    }
 
-      // Add the assistant's tool call request to the conversation (with empty content if it's just an announcement)
-      openaiMessages.push({
-        role: 'assistant',
-        content: isAnnouncement ? null : content,
-        tool_calls: responseMessage.tool_calls,
-      })
+    // Store the answer with its trace in the conversation
+    const saveReply = async (result: ChatResult) => {
+      if (!conversationId) {
+        return
+      }
+      const response = buildChatResponse(result)
+      const { error } = await appendMessages(conversationId, [
+        {
+          role: 'assistant',
+          content: response.message.content,
+          metadata: { trace: response.trace, sources: response.sources, ...response.metadata },
+        },
+      ])
+      if (error) {
+        console.error('Failed to store assistant message:', error)
+      }
+    }
 
-      // Execute all tool calls
-      for (const toolCall of responseMessage.tool_calls) {
-        const functionName = toolCall.function.name
-        const functionArgs = JSON.parse(toolCall.function.arguments || '{}')
+    // One time budget covers every completion of the request: summary, agent loop and
+    // grounding regeneration
+    const deadline = Date.now() + getAgentBudget().maxDurationMs
 
-        let functionResult: any
+    // Prepare messages for the LLM: the schema-aware system prompt and the history within
+    // the token budget, older messages replaced by a summary
+    const { prompt: systemPrompt } = await getSystemPrompt()
+    const { messages: openaiMessages, decision: context } = await buildContext(llm, {
+      systemPrompt,
+      history: messages,
+      previousSummary,
+      request: { signal: req.signal, timeoutMs: getRemainingMs(deadline) },
+    })
 
-        // Execute the function
-        if (functionName === 'queryTable') {
-          const result = await queryTable(
-            functionArgs.tableName,
-            functionArgs.filters || {},
-            functionArgs.limit || 100,
-            functionArgs.joins
-          )
-          functionResult = result
-        } else if (functionName === 'queryTableWithJoin') {
-          const result = await queryTableWithJoin(
-            functionArgs.tableName,
-            functionArgs.joinTable,
-            functionArgs.joinColumn,
-            functionArgs.filters || {},
-            functionArgs.limit || 100
-          )
-          functionResult = result
-        } else if (functionName === 'getTableNames') {
-          const result = await getTableNames()
-          functionResult = result
-        } else if (functionName === 'getTableStructure') {
-          const result = await getTableStructure(functionArgs.tableName)
-          functionResult = result
-        } else {
-          functionResult = { error: `Unknown function: ${functionName}` }
-        }
+    // Run the agent loop, check the answer against the tool results, store it and
+    // record the request in the audit log (also on failure)
+    const userMessage = [...messages].reverse().find((message) => message.role === 'user')?.content || ''
+    const runAndRecord = async (options: AgentLoopOptions = {}) => {
+      const auditEntry = {
+        userId: session.user.id,
+        userEmail: session.user.email,
+        role: session.role,
+        conversationId: conversationId || null,
+        userMessage,
+      }
 
-        // Add the function result to the conversation
-        openaiMessages.push({
-          role: 'tool',
-          tool_call_id: toolCall.id,
-          content: JSON.stringify(functionResult),
+      // Set once the loop finished, so a later failure still records its tool calls
+      let loopResult: AgentLoopResult | null = null
+      try {
+        loopResult = await runAgentLoop(llm, openaiMessages, { ...options, deadline })
+        const { content, verdict, usage: groundingUsage } = await groundAnswer(llm, {
+          answer: loopResult.content || '',
+          toolResults: loopResult.toolResults,
+          question: userMessage,
+          messages: openaiMessages,
+          model: loopResult.model,
+          request: { signal: options.signal, timeoutMs: getRemainingMs(deadline) },
         })
+        const result: ChatResult = {
+          ...loopResult,
+          usage: combineUsage(context.summary?.usage, loopResult.usage, groundingUsage),
+          content: loopResult.content === null ? null : content,
+          grounding: verdict,
+          context,
+        }
+        await saveReply(result)
+        await recordAudit(buildAuditRecord({
+          ...auditEntry,
+          toolCalls: result.trace,
+          error: null,
+          model: result.model,
+          usage: result.usage,
+          answer: result.content,
+          stopReason: result.stopReason,
+          durationMs: result.durationMs,
+        }))
+        return result
+      } catch (error) {
+        await recordAudit(buildAuditRecord({
+          ...auditEntry,
+          toolCalls: loopResult ? loopResult.trace : getPartialTrace(error),
+          error: error instanceof Error ? error.message : 'An error occurred',
+          model: options.model || llm.model,
+          usage: null,
+          answer: null,
+          stopReason: null,
+          durationMs: null,
+        }))
+        throw error
       }
+    }
 
-      // Get the final response from OpenAI after tool execution
-      const finalCompletion = await openai.chat.completions.create({
-        model: 'gpt-4o',
-        messages: openaiMessages,
-        temperature: 0.3, // Lower temperature to reduce hallucinations and be more factual
-      })
-
-      const finalMessage = finalCompletion.choices[0].message
-
-      return NextResponse.json({
-        message: {
-          role: 'assistant',
-          content: finalMessage.content || 'I processed your request, but got no response.',
-        },
-      })
+    // Streaming mode: emit token deltas and tool progress as Server-Sent Events
+    if (wantsStream) {
+      return createEventStreamResponse(async (send, signal) => {
+        const result = await runAndRecord({ onEvent: send, signal })
+        send({ type: 'done', ...buildChatResponse(result, conversationId) })
+      }, { signal: req.signal })
     }
 
-    // Return the assistant's response
-    return NextResponse.json({
-      message: {
-        role: 'assistant',
-        content: responseMessage.content,
-      },
-    })
+    // Let the model call tools until it produces a plain answer or the budget runs out;
+    // a disconnecting client aborts the running completion and queries
+    const result = await runAndRecord({ signal: req.signal })
+
+    return NextResponse.json(buildChatResponse(result, conversationId))
   } catch (error) {
+    if (error instanceof AgentCancelledError) {
+      // The client is gone; the status only shows up in logs
+      console.info('Chat request cancelled by the client')
+      return NextResponse.json({ error: error.message }, { status: 499 })
+    }
     console.error('Chat API error:', error)
     return NextResponse.json(
       {
@@ -342,5 +367,5 @@ export async function POST(req: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server'
+import { getConversation, renameConversation, deleteConversation } from '@/lib/conversations'
+import { withSession } from '@/lib/auth'
+
+export const dynamic = 'force-dynamic'
+
+interface RouteContext {
+  params: { id: string }
+}
+
+function notFound() {
+  return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+}
+
+function serverError(error: unknown) {
+  console.error('Conversation API error:', error)
+  return NextResponse.json(
+    {
+      error: error instanceof Error ? error.message : 'An error occurred',
+    },
+    { status: 500 }
+  )
+}
+
+/**
+ * Load a conversation with its messages
+ */
+export const GET = withSession<RouteContext>(async (_req, { params }) => {
+  try {
+    const { data, error } = await getConversation(params.id)
+
+    if (error) {
+      return NextResponse.json({ error }, { status: 500 })
+    }
+    if (!data) {
+      return notFound()
+    }
+
+    return NextResponse.json(data)
+  } catch (error) {
+    return serverError(error)
+  }
+})
+
+/**
+ * Rename a conversation
+ * Body: { title }
+ */
+export const PATCH = withSession<RouteContext>(async (req, { params }) => {
+  try {
+    const { title } = await req.json()
+
+    if (!title || typeof title !== 'string') {
+      return NextResponse.json({ error: 'Title is required' }, { status: 400 })
+    }
+
+    const { data, error } = await renameConversation(params.id, title)
+
+    if (error) {
+      return NextResponse.json({ error }, { status: 500 })
+    }
+    if (!data) {
+      return notFound()
+    }
+
+    return NextResponse.json({ conversation: data })
+  } catch (error) {
+    return serverError(error)
+  }
+})
+
+/**
+ * Delete a conversation and its messages
+ */
+export const DELETE = withSession<RouteContext>(async (_req, { params }) => {
+  try {
+    const { data, error } = await deleteConversation(params.id)
+
+    if (error) {
+      return NextResponse.json({ error }, { status: 500 })
+    }
+    if (!data) {
+      return notFound()
+    }
+
+    return NextResponse.json({ deleted: data.id })
+  } catch (error) {
+    return serverError(error)
+  }
+})
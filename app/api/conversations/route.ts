@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server'
+import { listConversations, createConversation, validateMessages } from '@/lib/conversations'
+import { withSession } from '@/lib/auth'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * List conversations, most recently active first
+ */
+export const GET = withSession(async () => {
+  try {
+    const { data, error } = await listConversations()
+
+    if (error) {
+      return NextResponse.json({ error }, { status: 500 })
+    }
+
+    return NextResponse.json({ conversations: data })
+  } catch (error) {
+    console.error('Conversations API error:', error)
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'An error occurred',
+      },
+      { status: 500 }
+    )
+  }
+})
+
+/**
+ * Imported timestamps are kept only when they are valid dates; otherwise the insert time is used
+ */
+function parseTimestamp(value: unknown) {
+  const time = typeof value === 'string' ? Date.parse(value) : NaN
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString()
+}
+
+/**
+ * Create a conversation
+ * Body: { title?, messages? } - messages import existing (e.g. browser-local) history.
+ */
+export const POST = withSession(async (req) => {
+  try {
+    const body = await req.json().catch(() => ({}))
+    const messages = body.messages ?? []
+
+    const validationError = validateMessages(messages)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+    if (body.title !== undefined && typeof body.title !== 'string') {
+      return NextResponse.json({ error: 'title must be a string' }, { status: 400 })
+    }
+
+    const { data, error } = await createConversation(
+      body.title,
+      messages.map((message: any) => ({
+        role: message.role,
+        content: message.content,
+        createdAt: parseTimestamp(message.timestamp),
+      }))
+    )
+
+    if (error) {
+      return NextResponse.json({ error }, { status: 500 })
+    }
+
+    return NextResponse.json({ conversation: data }, { status: 201 })
+  } catch (error) {
+    console.error('Conversations API error:', error)
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'An error occurred',
+      },
+      { status: 500 }
+    )
+  }
+})
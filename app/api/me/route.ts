@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server'
+import { withSession } from '@/lib/auth'
+import { getChatTools } from '@/lib/chat-tools'
+import { hasVoiceAccess } from '@/lib/roles'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Signed-in user with their role and capabilities (used by the UI to hide unavailable features)
+ */
+export const GET = withSession(async (_req, _routeContext, session) => {
+  return NextResponse.json({
+    user: session.user,
+    role: session.role,
+    capabilities: {
+      tools: getChatTools().map((tool) => tool.function.name),
+      voice: hasVoiceAccess(),
+    },
+  })
+})
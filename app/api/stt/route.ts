@@ -1,12 +1,27 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
+import { withSession } from '@/lib/auth'
+import { hasVoiceAccess } from '@/lib/roles'
 
-const DEEPGRAM_API_KEY = process.env.DEEPGRAM_API_KEY
+const DEFAULT_DEEPGRAM_API_URL = 'https://api.deepgram.com'
 
-if (!DEEPGRAM_API_KEY) {
-  throw new Error('DEEPGRAM_API_KEY is not set')
-}
+export const POST = withSession(async (req) => {
+  if (!hasVoiceAccess()) {
+    return NextResponse.json(
+      { error: 'Voice features are not enabled for your role' },
+      { status: 403 }
+    )
+  }
+
+  const apiKey = process.env.DEEPGRAM_API_KEY
+  if (!apiKey) {
+    console.error('STT API error: DEEPGRAM_API_KEY is not set')
+    return NextResponse.json(
+      { error: 'DEEPGRAM_API_KEY is not set' },
+      { status: 500 }
+    )
+  }
+  const apiUrl = process.env.DEEPGRAM_API_URL || DEFAULT_DEEPGRAM_API_URL
 
-export async function POST(req: NextRequest) {
   try {
     const formData = await req.formData()
     const audioFile = formData.get('audio') as File
@@ -39,10 +54,10 @@ export async function POST(req: NextRequest) {
 
     // Call Deepgram API directly
     // Deepgram supports various audio formats: webm, mp4, m4a, ogg, wav, etc.
-    const response = await fetch('https://api.deepgram.com/v1/listen?model=nova-2&language=de&smart_format=true&punctuate=true', {
+    const response = await fetch(`${apiUrl}/v1/listen?model=nova-2&language=de&smart_format=true&punctuate=true`, {
       method: 'POST',
       headers: {
-        'Authorization': `Token ${DEEPGRAM_API_KEY}`,
+        'Authorization': `Token ${apiKey}`,
         'Content-Type': contentType,
       },
       body: audioBuffer,
@@ -96,5 +111,5 @@ export async function POST(req: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
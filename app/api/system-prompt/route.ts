@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server'
+import { getSystemPrompt } from '@/lib/system-prompt'
+import { withSession } from '@/lib/auth'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Show the effective system prompt (base prompt + live schema summary + admin notes)
+ */
+export const GET = withSession(async () => {
+  try {
+    const { prompt, generatedAt, schemaError } = await getSystemPrompt()
+
+    return NextResponse.json({
+      prompt,
+      generatedAt,
+      schemaError,
+    })
+  } catch (error) {
+    console.error('System prompt API error:', error)
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'An error occurred',
+      },
+      { status: 500 }
+    )
+  }
+})
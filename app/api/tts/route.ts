@@ -1,13 +1,29 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
+import { withSession } from '@/lib/auth'
+import { hasVoiceAccess } from '@/lib/roles'
 
-const ELEVENLABS_API_KEY = process.env.ELEVENLABS_API_KEY
-const ELEVENLABS_VOICE_ID = process.env.ELEVENLABS_VOICE_ID || '21m00Tcm4TlvDq8ikWAM' // Default voice: Rachel
+const DEFAULT_ELEVENLABS_API_URL = 'https://api.elevenlabs.io'
+const DEFAULT_VOICE_ID = '21m00Tcm4TlvDq8ikWAM' // Rachel
 
-if (!ELEVENLABS_API_KEY) {
-  throw new Error('ELEVENLABS_API_KEY is not set')
-}
+export const POST = withSession(async (req) => {
+  if (!hasVoiceAccess()) {
+    return NextResponse.json(
+      { error: 'Voice features are not enabled for your role' },
+      { status: 403 }
+    )
+  }
+
+  const apiKey = process.env.ELEVENLABS_API_KEY
+  if (!apiKey) {
+    console.error('TTS API error: ELEVENLABS_API_KEY is not set')
+    return NextResponse.json(
+      { error: 'ELEVENLABS_API_KEY is not set' },
+      { status: 500 }
+    )
+  }
+  const apiUrl = process.env.ELEVENLABS_API_URL || DEFAULT_ELEVENLABS_API_URL
+  const voiceId = process.env.ELEVENLABS_VOICE_ID || DEFAULT_VOICE_ID
 
-export async function POST(req: NextRequest) {
   try {
     const { text } = await req.json()
 
@@ -19,15 +35,14 @@ export async function POST(req: NextRequest) {
     }
 
     // Call ElevenLabs TTS API
-    // ELEVENLABS_API_KEY is checked at module level, so it's safe to use here
     const headers: HeadersInit = {
       'Accept': 'audio/mpeg',
       'Content-Type': 'application/json',
-      'xi-api-key': ELEVENLABS_API_KEY!,
+      'xi-api-key': apiKey,
     }
 
     const response = await fetch(
-      `https://api.elevenlabs.io/v1/text-to-speech/${ELEVENLABS_VOICE_ID}`,
+      `${apiUrl}/v1/text-to-speech/${voiceId}`,
       {
         method: 'POST',
         headers,
@@ -70,5 +85,5 @@ export async function POST(req: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
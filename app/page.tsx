@@ -1,6 +1,10 @@
+import AuthGate from '@/components/AuthGate'
 import ChatInterface from '@/components/ChatInterface'
 
 export default function Home() {
-  return <ChatInterface />
+  return (
+    <AuthGate>
+      <ChatInterface />
+    </AuthGate>
+  )
 }
-
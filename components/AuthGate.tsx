@@ -0,0 +1,44 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { Session } from '@supabase/supabase-js'
+import { Loader2 } from 'lucide-react'
+import { supabaseBrowser } from '@/lib/supabase-browser'
+import LoginForm from './LoginForm'
+
+/**
+ * Render the app only for signed-in users, otherwise the login form
+ */
+export default function AuthGate({ children }: { children: React.ReactNode }) {
+  const [session, setSession] = useState<Session | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    supabaseBrowser.auth.getSession().then(({ data }) => {
+      setSession(data.session)
+      setIsLoading(false)
+    })
+
+    const { data: { subscription } } = supabaseBrowser.auth.onAuthStateChange((_event, newSession) => {
+      setSession(newSession)
+      setIsLoading(false)
+    })
+
+    return () => subscription.unsubscribe()
+  }, [])
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-screen bg-gray-50">
+        <Loader2 className="h-6 w-6 text-blue-600 animate-spin" />
+      </div>
+    )
+  }
+
+  if (!session) {
+    return <LoginForm />
+  }
+
+  // Remount the app when the user changes so no state leaks between accounts
+  return <div key={session.user.id}>{children}</div>
+}
@@ -0,0 +1,129 @@
+'use client'
+
+import { PencilLine, Check, X, Undo2 } from 'lucide-react'
+import type { ChangeSetView, ChangeSetStatus } from '@/lib/change-sets'
+import type { ChangeSetDecision } from '@/lib/confirmation-reply'
+
+interface ChangeSetCardProps {
+  changeSet: ChangeSetView
+  // Buttons are disabled while a request is running
+  busy: boolean
+  onDecision: (decision: ChangeSetDecision) => void
+  onUndo: () => void
+}
+
+const STATUS_LABELS: Record<ChangeSetStatus, string> = {
+  pending: 'Wartet auf Bestätigung',
+  applied: 'Übernommen',
+  rejected: 'Verworfen',
+  expired: 'Abgelaufen',
+  failed: 'Fehlgeschlagen',
+  undone: 'Rückgängig gemacht',
+}
+
+const STATUS_COLORS: Record<ChangeSetStatus, string> = {
+  pending: 'text-amber-700',
+  applied: 'text-green-700',
+  rejected: 'text-gray-500',
+  expired: 'text-gray-500',
+  failed: 'text-red-700',
+  undone: 'text-gray-500',
+}
+
+function formatValue(value: any) {
+  if (value === null || value === undefined) {
+    return '–'
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+function formatKey(key: Record<string, any> | null) {
+  return key ? Object.entries(key).map(([column, value]) => `${column} ${formatValue(value)}`).join(', ') : 'Neue Zeile'
+}
+
+/**
+ * Proposed write under an assistant message: every row with its values before and after
+ * Pending change sets are confirmed or rejected here (or by saying "Ja, bestätigen");
+ * applied ones can be undone.
+ */
+export default function ChangeSetCard({ changeSet, busy, onDecision, onUndo }: ChangeSetCardProps) {
+  const expired = changeSet.status === 'pending' && Date.parse(changeSet.expiresAt) < Date.now()
+  const status: ChangeSetStatus = expired ? 'expired' : changeSet.status
+
+  return (
+    <div className="mt-2 rounded-lg border border-amber-200 bg-amber-50 p-2 text-xs text-gray-700">
+      <p className="flex items-center gap-1.5 font-medium text-gray-800">
+        <PencilLine className="h-3.5 w-3.5 flex-shrink-0" />
+        {changeSet.summary}
+        <span className={`font-normal ${STATUS_COLORS[status]}`}>· {STATUS_LABELS[status]}</span>
+      </p>
+
+      <div className="mt-2 space-y-2">
+        {changeSet.changes.map((change, changeIndex) => (
+          <div key={changeIndex}>
+            <p className="text-gray-500">
+              {change.table} · {change.action === 'insert' ? 'neue Zeile' : `${change.rows.length} Zeile${change.rows.length === 1 ? '' : 'n'} ändern`}
+            </p>
+            <div className="mt-1 overflow-x-auto">
+              <table className="min-w-full border-collapse text-[11px]">
+                <tbody>
+                  {change.rows.flatMap((row, rowIndex) =>
+                    Object.entries(row.after).map(([column, after]) => (
+                      <tr key={`${rowIndex}-${column}`}>
+                        <td className="border-b border-amber-100 px-2 py-1 whitespace-nowrap text-gray-500">{formatKey(row.key)}</td>
+                        <td className="border-b border-amber-100 px-2 py-1 whitespace-nowrap font-medium">{column}</td>
+                        <td className="border-b border-amber-100 px-2 py-1 whitespace-nowrap text-red-700 line-through">
+                          {row.before ? formatValue(row.before[column]) : ''}
+                        </td>
+                        <td className="border-b border-amber-100 px-2 py-1 whitespace-nowrap text-green-700">{formatValue(after)}</td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {changeSet.error && (
+        <p className="mt-2 text-red-700 break-words">{changeSet.error}</p>
+      )}
+
+      {status === 'pending' && (
+        <div className="mt-2 flex flex-wrap items-center gap-2">
+          <button
+            onClick={() => onDecision('confirm')}
+            disabled={busy}
+            className="flex items-center gap-1 rounded-lg bg-green-600 px-3 py-1.5 text-white active:bg-green-700 disabled:opacity-50 touch-manipulation"
+          >
+            <Check className="h-3.5 w-3.5" />
+            Bestätigen
+          </button>
+          <button
+            onClick={() => onDecision('reject')}
+            disabled={busy}
+            className="flex items-center gap-1 rounded-lg border border-gray-300 bg-white px-3 py-1.5 text-gray-700 active:bg-gray-100 disabled:opacity-50 touch-manipulation"
+          >
+            <X className="h-3.5 w-3.5" />
+            Verwerfen
+          </button>
+          <span className="text-gray-500">oder „Ja, bestätigen“ sagen</span>
+        </div>
+      )}
+
+      {status === 'applied' && (
+        <div className="mt-2">
+          <button
+            onClick={onUndo}
+            disabled={busy}
+            className="flex items-center gap-1 rounded-lg border border-gray-300 bg-white px-3 py-1.5 text-gray-700 active:bg-gray-100 disabled:opacity-50 touch-manipulation"
+          >
+            <Undo2 className="h-3.5 w-3.5" />
+            Rückgängig
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,12 +1,61 @@
 'use client'
 
 import { useState, useRef, useEffect } from 'react'
-import { Mic, MicOff, Volume2, Send, Loader2, Copy, Check, Trash2, X } from 'lucide-react'
+import { Mic, MicOff, Volume2, Send, Loader2, Copy, Check, Trash2, X, Menu, LogOut } from 'lucide-react'
+import { readEventStream } from '@/lib/sse'
+import { supabaseBrowser, authFetch } from '@/lib/supabase-browser'
+import ConversationSidebar, { ConversationSummary } from './ConversationSidebar'
+import MessageSources from './MessageSources'
+import ChangeSetCard from './ChangeSetCard'
+import type { AnswerSource } from '@/lib/sources'
+import type { ChangeSetView } from '@/lib/change-sets'
+import { parseConfirmationReply, ChangeSetDecision } from '@/lib/confirmation-reply'
+
+// Browser-local history from before conversations were stored on the server
+const LEGACY_HISTORY_KEY = 'chat-history'
+// Set once the import was tried, so a history the server refuses is not sent again on every load
+const LEGACY_MIGRATED_KEY = 'chat-history-migrated'
 
 interface Message {
   role: 'user' | 'assistant'
   content: string
   timestamp?: Date
+  // Provenance of assistant answers (undefined for local error messages)
+  sources?: AnswerSource[]
+  databaseBacked?: boolean
+  // Write proposed by this answer, with its current status
+  changeSet?: ChangeSetView
+}
+
+const DECISION_MESSAGES: Record<ChangeSetDecision, string> = {
+  confirm: 'Ja, bestätigen',
+  reject: 'Nein, verwerfen',
+}
+
+/**
+ * Show each change set once, on the answer that proposed it, with its latest status
+ * Later answers (confirmation, undo) only update that card.
+ */
+function mergeChangeSets(messages: Message[]) {
+  const latest = new Map<string, ChangeSetView>()
+  messages.forEach((message) => {
+    if (message.changeSet) {
+      latest.set(message.changeSet.id, message.changeSet)
+    }
+  })
+
+  const shown = new Set<string>()
+  return messages.map((message) => {
+    if (!message.changeSet) {
+      return message
+    }
+    const { id } = message.changeSet
+    if (shown.has(id)) {
+      return { ...message, changeSet: undefined }
+    }
+    shown.add(id)
+    return { ...message, changeSet: latest.get(id) }
+  })
 }
 
 export default function ChatInterface() {
@@ -20,6 +69,13 @@ export default function ChatInterface() {
   const [isProcessingVoice, setIsProcessingVoice] = useState(false)
   const [audioLevel, setAudioLevel] = useState(0)
   const [silenceStartTime, setSilenceStartTime] = useState<number | null>(null)
+  const [streamingContent, setStreamingContent] = useState<string | null>(null)
+  const [toolStatus, setToolStatus] = useState<string | null>(null)
+  const [conversations, setConversations] = useState<ConversationSummary[]>([])
+  const [conversationId, setConversationId] = useState<string | null>(null)
+  const [sidebarOpen, setSidebarOpen] = useState(false)
+  // Voice input/output depends on the user's role
+  const [voiceEnabled, setVoiceEnabled] = useState(false)
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
   const mediaRecorderRef = useRef<MediaRecorder | null>(null)
@@ -30,33 +86,188 @@ export default function ChatInterface() {
   const animationFrameRef = useRef<number | null>(null)
   const streamRef = useRef<MediaStream | null>(null)
   const silenceStartTimeRef = useRef<number | null>(null)
+  // Voice mode callbacks outlive renders, so they read the active conversation from a ref
+  const conversationIdRef = useRef<string | null>(null)
+  // Change set waiting for "Ja, bestätigen", for the same reason
+  const pendingChangeSetRef = useRef<ChangeSetView | null>(null)
 
-  // Load chat history from localStorage on mount
   useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const savedMessages = localStorage.getItem('chat-history')
-      if (savedMessages) {
-        try {
-          const parsed = JSON.parse(savedMessages)
-          // Convert timestamp strings back to Date objects
-          const messagesWithDates = parsed.map((msg: Message) => ({
-            ...msg,
-            timestamp: msg.timestamp ? new Date(msg.timestamp) : new Date(),
-          }))
-          setMessages(messagesWithDates)
-        } catch (e) {
-          console.error('Failed to load chat history:', e)
-        }
+    pendingChangeSetRef.current = [...messages].reverse()
+      .find((message) => message.changeSet?.status === 'pending')?.changeSet || null
+  }, [messages])
+
+  const activateConversation = (id: string | null) => {
+    conversationIdRef.current = id
+    setConversationId(id)
+  }
+
+  const refreshConversations = async () => {
+    try {
+      const response = await authFetch('/api/conversations')
+      if (!response.ok) {
+        throw new Error('Failed to load conversations')
       }
+      const { conversations: list } = await response.json()
+      setConversations(list)
+      return list as ConversationSummary[]
+    } catch (e) {
+      console.error('Failed to load conversations:', e)
+      return []
     }
-  }, [])
+  }
+
+  const loadConversation = async (id: string) => {
+    try {
+      const response = await authFetch(`/api/conversations/${id}`)
+      if (!response.ok) {
+        throw new Error('Failed to load conversation')
+      }
+      const data = await response.json()
+      activateConversation(id)
+      setMessages(mergeChangeSets(
+        data.messages.map((msg: { role: Message['role']; content: string; metadata: Record<string, any> | null; created_at: string }) => ({
+          role: msg.role,
+          content: msg.content,
+          timestamp: new Date(msg.created_at),
+          sources: msg.metadata?.sources,
+          databaseBacked: msg.metadata?.databaseBacked,
+          changeSet: msg.metadata?.changeSet,
+        }))
+      ))
+      setSidebarOpen(false)
+    } catch (e) {
+      console.error('Failed to load conversation:', e)
+    }
+  }
 
-  // Save chat history to localStorage whenever messages change
+  /**
+   * Move history kept in localStorage by earlier versions into a stored conversation
+   * The import is tried once; the local copy is only removed once the server has accepted it.
+   */
+  const migrateLocalHistory = async () => {
+    const savedMessages = localStorage.getItem(LEGACY_HISTORY_KEY)
+    if (!savedMessages || localStorage.getItem(LEGACY_MIGRATED_KEY)) {
+      return
+    }
+
+    try {
+      const parsed = JSON.parse(savedMessages)
+      if (!Array.isArray(parsed) || parsed.length === 0) {
+        localStorage.removeItem(LEGACY_HISTORY_KEY)
+        return
+      }
+
+      const response = await authFetch('/api/conversations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          messages: parsed.map((msg: { role: Message['role']; content: string; timestamp?: unknown }) => ({
+            role: msg.role,
+            content: msg.content,
+            // Serialized dates are ISO strings; anything else falls back to the import time
+            timestamp: typeof msg.timestamp === 'string' && !Number.isNaN(Date.parse(msg.timestamp)) ? msg.timestamp : undefined,
+          })),
+        }),
+      })
+      if (!response.ok) {
+        throw new Error('Failed to import chat history')
+      }
+      localStorage.removeItem(LEGACY_HISTORY_KEY)
+    } catch (e) {
+      console.error('Failed to migrate chat history:', e)
+    } finally {
+      localStorage.setItem(LEGACY_MIGRATED_KEY, new Date().toISOString())
+    }
+  }
+
+  const loadCapabilities = async () => {
+    try {
+      const response = await authFetch('/api/me')
+      if (!response.ok) {
+        throw new Error('Failed to load capabilities')
+      }
+      const { capabilities } = await response.json()
+      setVoiceEnabled(!!capabilities.voice)
+    } catch (e) {
+      console.error('Failed to load capabilities:', e)
+    }
+  }
+
+  // Load capabilities, import local history, then open the most recent conversation
   useEffect(() => {
-    if (typeof window !== 'undefined' && messages.length > 0) {
-      localStorage.setItem('chat-history', JSON.stringify(messages))
+    const initialize = async () => {
+      await loadCapabilities()
+      await migrateLocalHistory()
+      const list = await refreshConversations()
+      if (list.length > 0) {
+        await loadConversation(list[0].id)
+      }
     }
-  }, [messages])
+    initialize()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  /**
+   * Id of the active conversation, creating one on the first message
+   */
+  const ensureConversation = async () => {
+    if (conversationIdRef.current) {
+      return conversationIdRef.current
+    }
+    const response = await authFetch('/api/conversations', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({}),
+    })
+    if (!response.ok) {
+      throw new Error('Failed to create conversation')
+    }
+    const { conversation } = await response.json()
+    activateConversation(conversation.id)
+    setConversations((prev) => [conversation, ...prev])
+    return conversation.id as string
+  }
+
+  const startNewConversation = () => {
+    activateConversation(null)
+    setMessages([])
+    setSidebarOpen(false)
+  }
+
+  const renameConversation = async (id: string, title: string) => {
+    try {
+      const response = await authFetch(`/api/conversations/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title }),
+      })
+      if (!response.ok) {
+        throw new Error('Failed to rename conversation')
+      }
+      await refreshConversations()
+    } catch (e) {
+      console.error('Failed to rename conversation:', e)
+    }
+  }
+
+  const deleteConversation = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this conversation?')) {
+      return
+    }
+    try {
+      const response = await authFetch(`/api/conversations/${id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        throw new Error('Failed to delete conversation')
+      }
+      if (id === conversationIdRef.current) {
+        activateConversation(null)
+        setMessages([])
+      }
+      await refreshConversations()
+    } catch (e) {
+      console.error('Failed to delete conversation:', e)
+    }
+  }
 
   // Scroll to bottom when messages change
   useEffect(() => {
@@ -319,7 +530,7 @@ export default function ChatInterface() {
           const formData = new FormData()
           formData.append('audio', audioBlob, `recording.${fileExtension}`)
 
-          const response = await fetch('/api/stt', {
+          const response = await authFetch('/api/stt', {
             method: 'POST',
             body: formData,
           })
@@ -438,7 +649,7 @@ export default function ChatInterface() {
       setIsPlayingAudio(true)
       
       // Call TTS API - start immediately without waiting
-      const response = await fetch('/api/tts', {
+      const response = await authFetch('/api/tts', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -718,15 +929,6 @@ export default function ChatInterface() {
     }
   }
 
-  const clearChat = () => {
-    if (confirm('Are you sure you want to clear the chat history?')) {
-      setMessages([])
-      if (typeof window !== 'undefined') {
-        localStorage.removeItem('chat-history')
-      }
-    }
-  }
-
   const formatTimestamp = (date: Date) => {
     const now = new Date()
     const diff = now.getTime() - date.getTime()
@@ -746,45 +948,109 @@ export default function ChatInterface() {
     })
   }
 
-  const sendMessage = async () => {
-    if (!input.trim() || isLoading) return
+  /**
+   * Send a message of a stored conversation to /api/chat in streaming mode
+   * The server loads the history and stores both messages. Renders the answer as it
+   * arrives and shows tool progress; resolves with the final content and its sources.
+   * With `changeSet`, the message is the user's decision on a proposed write.
+   */
+  const requestAssistantReply = async (content: string, changeSet?: { id: string; decision: ChangeSetDecision }) => {
+    const activeConversationId = await ensureConversation()
+    const response = await authFetch('/api/chat', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'text/event-stream',
+      },
+      body: JSON.stringify({
+        stream: true,
+        conversationId: activeConversationId,
+        message: content,
+        ...(changeSet ? { changeSet } : {}),
+      }),
+    })
+
+    if (!response.ok) {
+      throw new Error('Failed to get response')
+    }
+
+    let finalContent: string | null = null
+    let sources: AnswerSource[] = []
+    let databaseBacked = false
+    let changeSetView: ChangeSetView | undefined
+    let streamError: string | null = null
+
+    try {
+      await readEventStream(response, (event) => {
+        if (event.type === 'delta') {
+          setToolStatus(null)
+          setStreamingContent((prev) => (prev || '') + event.content)
+        } else if (event.type === 'discard') {
+          setStreamingContent(null)
+        } else if (event.type === 'tool_started') {
+          setToolStatus(`Running ${event.label}...`)
+        } else if (event.type === 'tool_finished') {
+          setToolStatus(
+            event.error
+              ? `${event.name} failed: ${event.error}`
+              : `${event.name} finished${event.rowCount !== null ? `: ${event.rowCount} rows` : ''}`
+          )
+        } else if (event.type === 'done') {
+          finalContent = event.message.content
+          sources = event.sources || []
+          databaseBacked = !!event.metadata?.databaseBacked
+          changeSetView = event.metadata?.changeSet
+        } else if (event.type === 'error') {
+          streamError = event.error
+        }
+      })
+    } finally {
+      setStreamingContent(null)
+      setToolStatus(null)
+    }
 
+    if (streamError || finalContent === null) {
+      throw new Error(streamError || 'Stream ended without a response')
+    }
+
+    refreshConversations()
+    return { content: finalContent as string, sources, databaseBacked, changeSet: changeSetView }
+  }
+
+  /**
+   * Send a user message and append the answer (spoken in voice-only mode)
+   * While a change set is pending, "Ja, bestätigen" or "Nein" is sent as the decision on it.
+   */
+  const sendUserMessage = async (content: string, options: { speak?: boolean } = {}) => {
     const userMessage: Message = {
       role: 'user',
-      content: input.trim(),
+      content,
       timestamp: new Date(),
     }
+    const pending = pendingChangeSetRef.current
+    const decision = pending ? parseConfirmationReply(content) : null
 
     setMessages((prev) => [...prev, userMessage])
-    setInput('')
     setIsLoading(true)
 
     try {
-      const response = await fetch('/api/chat', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          messages: [...messages, userMessage].map((m) => ({
-            role: m.role,
-            content: m.content,
-          })),
-        }),
-      })
-
-      if (!response.ok) {
-        throw new Error('Failed to get response')
-      }
-
-      const data = await response.json()
+      const reply = await requestAssistantReply(content, pending && decision ? { id: pending.id, decision } : undefined)
       const assistantMessage: Message = {
         role: 'assistant',
-        content: data.message.content,
+        ...reply,
         timestamp: new Date(),
       }
 
-      setMessages((prev) => [...prev, assistantMessage])
+      setMessages((prev) => mergeChangeSets([...prev, assistantMessage]))
+
+      if (options.speak) {
+        // Automatically play the response as audio (don't await - start immediately)
+        speakText(assistantMessage.content).catch((error) => {
+          console.error('TTS error in voice-only mode:', error)
+        })
+        // Wait for audio to finish, then restart recording
+        // This is handled in the audio.onended callback
+      }
     } catch (error) {
       console.error('Error sending message:', error)
       const errorMessage: Message = {
@@ -798,6 +1064,45 @@ export default function ChatInterface() {
     }
   }
 
+  const sendMessage = async () => {
+    if (!input.trim() || isLoading) return
+
+    const content = input.trim()
+    setInput('')
+    await sendUserMessage(content)
+  }
+
+  const decideChangeSet = (decision: ChangeSetDecision) => {
+    if (isLoading) return
+    sendUserMessage(DECISION_MESSAGES[decision], { speak: voiceOnlyMode })
+  }
+
+  const undoChangeSet = async (id: string) => {
+    setIsLoading(true)
+    try {
+      const response = await authFetch(`/api/changes/${id}/undo`, { method: 'POST' })
+      const data = await response.json()
+      if (data.changeSet) {
+        const updated: ChangeSetView = data.changeSet
+        setMessages((prev) => prev.map((message) => (
+          message.changeSet?.id === updated.id ? { ...message, changeSet: updated } : message
+        )))
+      }
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to undo change set')
+      }
+    } catch (error) {
+      console.error('Error undoing change set:', error)
+      setMessages((prev) => [...prev, {
+        role: 'assistant',
+        content: `Rückgängig machen fehlgeschlagen: ${error instanceof Error ? error.message : 'Unbekannter Fehler'}`,
+        timestamp: new Date(),
+      }])
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault()
@@ -814,60 +1119,7 @@ export default function ChatInterface() {
   }, [input])
 
   const handleVoiceOnlyMessage = async (transcript: string) => {
-    const userMessage: Message = {
-      role: 'user',
-      content: transcript,
-      timestamp: new Date(),
-    }
-
-    setMessages((prev) => [...prev, userMessage])
-    setIsLoading(true)
-
-    try {
-      const response = await fetch('/api/chat', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          messages: [...messages, userMessage].map((m) => ({
-            role: m.role,
-            content: m.content,
-          })),
-        }),
-      })
-
-      if (!response.ok) {
-        throw new Error('Failed to get response')
-      }
-
-      const data = await response.json()
-      const assistantMessage: Message = {
-        role: 'assistant',
-        content: data.message.content,
-        timestamp: new Date(),
-      }
-
-      setMessages((prev) => [...prev, assistantMessage])
-      
-      // Automatically play the response as audio (don't await - start immediately)
-      speakText(assistantMessage.content).catch((error) => {
-        console.error('TTS error in voice-only mode:', error)
-      })
-      
-      // Wait for audio to finish, then restart recording
-      // This is handled in the audio.onended callback
-    } catch (error) {
-      console.error('Error sending message:', error)
-      const errorMessage: Message = {
-        role: 'assistant',
-        content: 'Sorry, I encountered an error. Please try again.',
-        timestamp: new Date(),
-      }
-      setMessages((prev) => [...prev, errorMessage])
-    } finally {
-      setIsLoading(false)
-    }
+    await sendUserMessage(transcript, { speak: true })
   }
 
   const enterVoiceOnlyMode = async () => {
@@ -905,11 +1157,33 @@ export default function ChatInterface() {
 
   return (
     <div className="flex flex-col h-screen bg-white safe-area-inset">
+      {!voiceOnlyMode && (
+        <ConversationSidebar
+          conversations={conversations}
+          activeId={conversationId}
+          isOpen={sidebarOpen}
+          onClose={() => setSidebarOpen(false)}
+          onSelect={loadConversation}
+          onNew={startNewConversation}
+          onRename={renameConversation}
+          onDelete={deleteConversation}
+        />
+      )}
       {/* Header - Mobile optimized */}
       <div className={`${voiceOnlyMode ? 'bg-blue-600' : 'bg-white'} border-b ${voiceOnlyMode ? 'border-blue-700' : 'border-gray-100'} px-3 py-3 sm:px-4 sm:py-3 sticky top-0 z-10 safe-area-inset-top transition-colors`}>
         <div className="max-w-3xl mx-auto">
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-2.5 min-w-0 flex-1">
+              {!voiceOnlyMode && (
+                <button
+                  onClick={() => setSidebarOpen(true)}
+                  className="p-2.5 -ml-1 rounded-lg text-gray-500 active:bg-gray-100 transition-colors touch-manipulation flex-shrink-0"
+                  title="Show conversations"
+                  aria-label="Show conversations"
+                >
+                  <Menu className="h-5 w-5" />
+                </button>
+              )}
               <div className={`w-10 h-10 sm:w-10 sm:h-10 rounded-lg ${voiceOnlyMode ? 'bg-white' : 'bg-gradient-to-br from-blue-500 to-blue-600'} flex items-center justify-center shadow-sm flex-shrink-0`}>
                 <span className={`font-bold text-sm sm:text-base ${voiceOnlyMode ? 'text-blue-600' : 'text-white'}`}>LiS</span>
               </div>
@@ -933,16 +1207,26 @@ export default function ChatInterface() {
                   <X className="h-5 w-5 sm:h-5 sm:w-5" />
                 </button>
               )}
-              {!voiceOnlyMode && messages.length > 0 && (
+              {!voiceOnlyMode && conversationId && (
                 <button
-                  onClick={clearChat}
+                  onClick={() => deleteConversation(conversationId)}
                   className="p-2.5 sm:p-2 rounded-lg text-gray-500 active:text-red-600 active:bg-red-50 transition-colors touch-manipulation flex-shrink-0"
-                  title="Clear chat history"
-                  aria-label="Clear chat history"
+                  title="Delete conversation"
+                  aria-label="Delete conversation"
                 >
                   <Trash2 className="h-5 w-5 sm:h-5 sm:w-5" />
                 </button>
               )}
+              {!voiceOnlyMode && (
+                <button
+                  onClick={() => supabaseBrowser.auth.signOut()}
+                  className="p-2.5 sm:p-2 rounded-lg text-gray-500 active:bg-gray-100 transition-colors touch-manipulation flex-shrink-0"
+                  title="Sign out"
+                  aria-label="Sign out"
+                >
+                  <LogOut className="h-5 w-5 sm:h-5 sm:w-5" />
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -1000,6 +1284,17 @@ export default function ChatInterface() {
                     )}
                   </button>
                 </div>
+                {message.role === 'assistant' && message.databaseBacked !== undefined && (
+                  <MessageSources sources={message.sources || []} databaseBacked={message.databaseBacked} />
+                )}
+                {message.changeSet && (
+                  <ChangeSetCard
+                    changeSet={message.changeSet}
+                    busy={isLoading}
+                    onDecision={decideChangeSet}
+                    onUndo={() => undoChangeSet(message.changeSet!.id)}
+                  />
+                )}
                 {message.timestamp && (
                   <p
                     className={`text-[11px] sm:text-xs mt-2 sm:mt-1.5 ${
@@ -1015,12 +1310,22 @@ export default function ChatInterface() {
             </div>
           ))}
 
-          {isLoading && (
+          {isLoading && streamingContent !== null && (
+            <div className="flex justify-start animate-in fade-in slide-in-from-bottom-2 duration-200">
+              <div className="max-w-[90%] sm:max-w-[75%] bg-white text-gray-900 rounded-2xl sm:rounded-xl rounded-bl-sm px-4 py-3 sm:px-4 sm:py-2.5 border border-gray-200 shadow-sm">
+                <p className="whitespace-pre-wrap text-[15px] sm:text-[15px] leading-relaxed break-words">
+                  {streamingContent}
+                </p>
+              </div>
+            </div>
+          )}
+
+          {isLoading && streamingContent === null && (
             <div className="flex justify-start animate-in fade-in slide-in-from-bottom-2 duration-200">
               <div className="bg-white rounded-2xl sm:rounded-xl rounded-bl-sm px-4 py-3 sm:px-4 sm:py-2.5 border border-gray-200 shadow-sm">
                 <div className="flex items-center gap-2.5">
                   <Loader2 className="animate-spin h-4 w-4 sm:h-4 sm:w-4 text-blue-600" />
-                  <span className="text-sm sm:text-sm text-gray-600">Thinking...</span>
+                  <span className="text-sm sm:text-sm text-gray-600">{toolStatus || 'Thinking...'}</span>
                 </div>
               </div>
             </div>
@@ -1092,7 +1397,7 @@ export default function ChatInterface() {
                       {isProcessingVoice ? 'Processing...' : 'Thinking...'}
                     </p>
                     <p className="text-blue-100 text-sm sm:text-base">
-                      {isProcessingVoice ? 'Transcribing your speech' : 'Getting response'}
+                      {isProcessingVoice ? 'Transcribing your speech' : toolStatus || 'Getting response'}
                     </p>
                   </div>
                 </>
@@ -1163,25 +1468,27 @@ export default function ChatInterface() {
               </div>
 
               <div className="flex items-center gap-2 sm:gap-1.5 flex-shrink-0">
-                <button
-                  onClick={isRecording ? stopRecording : enterVoiceOnlyMode}
-                  disabled={isLoading}
-                  className={`p-3 sm:p-2.5 rounded-xl sm:rounded-lg transition-all duration-150 touch-manipulation active:scale-95 ${
-                    isRecording
-                      ? 'bg-red-500 text-white animate-pulse'
-                      : 'bg-gray-100 text-gray-700 active:bg-gray-200'
-                  } disabled:opacity-50 disabled:cursor-not-allowed min-w-[44px] min-h-[44px] sm:min-w-0 sm:min-h-0 flex items-center justify-center`}
-                  title={isRecording ? 'Stop recording' : 'Enter voice-only mode'}
-                  aria-label={isRecording ? 'Stop recording' : 'Enter voice-only mode'}
-                >
-                  {isRecording ? (
-                    <MicOff className="h-5 w-5 sm:h-5 sm:w-5" />
-                  ) : (
-                    <Mic className="h-5 w-5 sm:h-5 sm:w-5" />
-                  )}
-                </button>
+                {voiceEnabled && (
+                  <button
+                    onClick={isRecording ? stopRecording : enterVoiceOnlyMode}
+                    disabled={isLoading}
+                    className={`p-3 sm:p-2.5 rounded-xl sm:rounded-lg transition-all duration-150 touch-manipulation active:scale-95 ${
+                      isRecording
+                        ? 'bg-red-500 text-white animate-pulse'
+                        : 'bg-gray-100 text-gray-700 active:bg-gray-200'
+                    } disabled:opacity-50 disabled:cursor-not-allowed min-w-[44px] min-h-[44px] sm:min-w-0 sm:min-h-0 flex items-center justify-center`}
+                    title={isRecording ? 'Stop recording' : 'Enter voice-only mode'}
+                    aria-label={isRecording ? 'Stop recording' : 'Enter voice-only mode'}
+                  >
+                    {isRecording ? (
+                      <MicOff className="h-5 w-5 sm:h-5 sm:w-5" />
+                    ) : (
+                      <Mic className="h-5 w-5 sm:h-5 sm:w-5" />
+                    )}
+                  </button>
+                )}
 
-                {messages.length > 0 && (
+                {voiceEnabled && messages.length > 0 && (
                   <button
                     onClick={isPlayingAudio ? stopSpeaking : playLastResponse}
                     disabled={isLoading}
@@ -0,0 +1,140 @@
+'use client'
+
+import { useState } from 'react'
+import { MessageSquare, Plus, Pencil, Trash2, Check, X } from 'lucide-react'
+
+export interface ConversationSummary {
+  id: string
+  title: string
+  updated_at: string
+}
+
+interface ConversationSidebarProps {
+  conversations: ConversationSummary[]
+  activeId: string | null
+  isOpen: boolean
+  onClose: () => void
+  onSelect: (id: string) => void
+  onNew: () => void
+  onRename: (id: string, title: string) => void
+  onDelete: (id: string) => void
+}
+
+/**
+ * Slide-in list of stored conversations
+ */
+export default function ConversationSidebar({
+  conversations,
+  activeId,
+  isOpen,
+  onClose,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+}: ConversationSidebarProps) {
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editTitle, setEditTitle] = useState('')
+
+  const startEditing = (conversation: ConversationSummary) => {
+    setEditingId(conversation.id)
+    setEditTitle(conversation.title)
+  }
+
+  const submitRename = () => {
+    if (editingId && editTitle.trim()) {
+      onRename(editingId, editTitle.trim())
+    }
+    setEditingId(null)
+  }
+
+  return (
+    <>
+      {isOpen && (
+        <div className="fixed inset-0 bg-black/30 z-20" onClick={onClose} aria-hidden="true" />
+      )}
+      <aside
+        className={`fixed inset-y-0 left-0 z-30 w-72 max-w-[85vw] bg-white border-r border-gray-100 shadow-lg flex flex-col transform transition-transform ${
+          isOpen ? 'translate-x-0' : '-translate-x-full'
+        }`}
+      >
+        <div className="flex items-center justify-between px-3 py-3 border-b border-gray-100">
+          <button
+            onClick={onNew}
+            className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-blue-600 active:bg-blue-50 hover:bg-blue-50 transition-colors touch-manipulation"
+          >
+            <Plus className="h-4 w-4" />
+            New conversation
+          </button>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg text-gray-500 active:bg-gray-100 touch-manipulation"
+            title="Close conversations"
+            aria-label="Close conversations"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <nav className="flex-1 overflow-y-auto px-2 py-2 space-y-1">
+          {conversations.length === 0 && (
+            <p className="px-3 py-4 text-sm text-gray-500">No conversations yet</p>
+          )}
+
+          {conversations.map((conversation) => (
+            <div
+              key={conversation.id}
+              className={`group flex items-center gap-2 rounded-lg px-3 py-2 text-sm ${
+                conversation.id === activeId ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {editingId === conversation.id ? (
+                <>
+                  <input
+                    value={editTitle}
+                    onChange={(e) => setEditTitle(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') submitRename()
+                      if (e.key === 'Escape') setEditingId(null)
+                    }}
+                    className="flex-1 min-w-0 rounded border border-gray-200 px-2 py-1 text-sm text-gray-900"
+                    autoFocus
+                  />
+                  <button onClick={submitRename} className="p-1 text-gray-500" title="Save title" aria-label="Save title">
+                    <Check className="h-4 w-4" />
+                  </button>
+                </>
+              ) : (
+                <>
+                  <button
+                    onClick={() => onSelect(conversation.id)}
+                    className="flex items-center gap-2 flex-1 min-w-0 text-left touch-manipulation"
+                  >
+                    <MessageSquare className="h-4 w-4 flex-shrink-0" />
+                    <span className="truncate">{conversation.title}</span>
+                  </button>
+                  <button
+                    onClick={() => startEditing(conversation)}
+                    className="p-1 text-gray-400 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity"
+                    title="Rename conversation"
+                    aria-label="Rename conversation"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => onDelete(conversation.id)}
+                    className="p-1 text-gray-400 active:text-red-600 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity"
+                    title="Delete conversation"
+                    aria-label="Delete conversation"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </>
+              )}
+            </div>
+          ))}
+        </nav>
+      </aside>
+    </>
+  )
+}
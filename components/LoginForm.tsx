@@ -0,0 +1,87 @@
+'use client'
+
+import { useState } from 'react'
+import { Loader2, Mail } from 'lucide-react'
+import { supabaseBrowser } from '@/lib/supabase-browser'
+
+/**
+ * Email sign-in via Supabase Auth magic link
+ */
+export default function LoginForm() {
+  const [email, setEmail] = useState('')
+  const [isSending, setIsSending] = useState(false)
+  const [sent, setSent] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const sendMagicLink = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!email.trim() || isSending) return
+
+    setIsSending(true)
+    setError(null)
+
+    const { error: signInError } = await supabaseBrowser.auth.signInWithOtp({
+      email: email.trim(),
+      options: {
+        emailRedirectTo: window.location.origin,
+      },
+    })
+
+    setIsSending(false)
+    if (signInError) {
+      setError(signInError.message)
+    } else {
+      setSent(true)
+    }
+  }
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gray-50 px-4">
+      <div className="w-full max-w-sm bg-white rounded-xl border border-gray-200 shadow-sm p-6">
+        <div className="flex items-center gap-2.5 mb-6">
+          <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-blue-500 to-blue-600 flex items-center justify-center shadow-sm">
+            <span className="font-bold text-sm text-white">LiS</span>
+          </div>
+          <div>
+            <h1 className="text-lg font-semibold text-gray-900">LiS Chatbot</h1>
+            <p className="text-xs text-gray-500">Sign in to continue</p>
+          </div>
+        </div>
+
+        {sent ? (
+          <div className="flex items-start gap-3 text-sm text-gray-700">
+            <Mail className="h-5 w-5 text-blue-600 flex-shrink-0" />
+            <p>
+              We sent a sign-in link to <span className="font-medium">{email}</span>. Open it on this device to continue.
+            </p>
+          </div>
+        ) : (
+          <form onSubmit={sendMagicLink} className="space-y-3">
+            <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+              Email
+            </label>
+            <input
+              id="email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="name@example.com"
+              autoComplete="email"
+              required
+              className="w-full rounded-lg border border-gray-200 px-3 py-2.5 text-[15px] focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <button
+              type="submit"
+              disabled={isSending}
+              className="w-full flex items-center justify-center gap-2 rounded-lg bg-blue-600 px-4 py-2.5 text-sm font-medium text-white active:bg-blue-700 disabled:opacity-60 touch-manipulation"
+            >
+              {isSending && <Loader2 className="h-4 w-4 animate-spin" />}
+              Send magic link
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,118 @@
+'use client'
+
+import { Database, AlertTriangle } from 'lucide-react'
+import type { AnswerSource } from '@/lib/sources'
+
+interface MessageSourcesProps {
+  sources: AnswerSource[]
+  databaseBacked: boolean
+}
+
+function formatCell(value: any) {
+  if (value === null || value === undefined) {
+    return '–'
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+function describeSource(source: AnswerSource) {
+  if (source.tool === 'runSql') {
+    return source.tables.join(', ') || 'SQL'
+  }
+  if (source.tool === 'queryTableWithJoin') {
+    return source.tables.join(' ⋈ ')
+  }
+  return source.table || source.tables.join(', ')
+}
+
+/**
+ * Provenance under an assistant message: tables, filters, row ids and raw rows
+ * Answers without a database query are marked as such.
+ */
+export default function MessageSources({ sources, databaseBacked }: MessageSourcesProps) {
+  if (!databaseBacked) {
+    return (
+      <p className="flex items-center gap-1.5 mt-2 text-[11px] sm:text-xs text-amber-700">
+        <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0" />
+        Nicht aus der Datenbank – diese Antwort basiert auf keiner Abfrage
+      </p>
+    )
+  }
+
+  if (sources.length === 0) {
+    return null
+  }
+
+  return (
+    <details className="mt-2 text-xs text-gray-600">
+      <summary className="flex items-center gap-1.5 cursor-pointer select-none text-gray-500">
+        <Database className="h-3.5 w-3.5" />
+        Quellen ({sources.length})
+      </summary>
+
+      <div className="mt-2 space-y-3">
+        {sources.map((source) => {
+          const columns = Array.from(new Set(source.rows.flatMap((row) => Object.keys(row))))
+
+          return (
+            <div key={source.toolCallId} className="rounded-lg border border-gray-200 bg-gray-50 p-2">
+              <p className="font-medium text-gray-800">
+                {describeSource(source)}
+                <span className="font-normal text-gray-500">
+                  {' '}· {source.tool} · {source.totalCount ?? source.rowCount} Zeilen
+                </span>
+              </p>
+              {source.filters && (
+                <p className="mt-1 font-mono break-all">Filter: {JSON.stringify(source.filters)}</p>
+              )}
+              {source.sql && (
+                <p className="mt-1 font-mono break-all">SQL: {source.sql}</p>
+              )}
+              {source.aggregates && (
+                <p className="mt-1 font-mono break-all">
+                  Aggregation: {JSON.stringify(source.aggregates)}
+                  {source.groupBy && source.groupBy.length > 0 && ` gruppiert nach ${source.groupBy.join(', ')}`}
+                </p>
+              )}
+              {source.rowIds.length > 0 && (
+                <p className="mt-1 break-all">
+                  {source.primaryKey.join(', ')}: {source.rowIds.map(formatCell).join(', ')}
+                </p>
+              )}
+
+              {source.rows.length > 0 && (
+                <div className="mt-2 overflow-x-auto">
+                  <table className="min-w-full border-collapse text-[11px]">
+                    <thead>
+                      <tr>
+                        {columns.map((column) => (
+                          <th key={column} className="border-b border-gray-200 px-2 py-1 text-left font-medium text-gray-700 whitespace-nowrap">
+                            {column}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {source.rows.map((row, rowIndex) => (
+                        <tr key={rowIndex}>
+                          {columns.map((column) => (
+                            <td key={column} className="border-b border-gray-100 px-2 py-1 whitespace-nowrap">
+                              {formatCell(row[column])}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {source.truncated && (
+                    <p className="mt-1 text-gray-500">Nur die ersten {source.rows.length} von {source.rowCount} Zeilen</p>
+                  )}
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </details>
+  )
+}
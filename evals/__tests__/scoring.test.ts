@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest'
+import { averageScores, containsSubset, extractNumbers, scoreTurn, ActualToolCall } from '../scoring'
+
+const call = (name: string, args: Record<string, any> = {}): ActualToolCall => ({ name, arguments: args, error: null })
+
+describe('containsSubset', () => {
+  it('matches nested objects and arrays in any order', () => {
+    const actual = { tableName: 't_materials', groupBy: ['unit', 'category'], filters: { category: 'rohre', id: '3' } }
+
+    expect(containsSubset(actual, { groupBy: ['category'], filters: { category: 'Rohre' } })).toBe(true)
+    expect(containsSubset(actual, { filters: { id: 3 } })).toBe(true)
+    expect(containsSubset(actual, { tableName: 't_material_prices' })).toBe(false)
+    expect(containsSubset(actual, { groupBy: ['supplier'] })).toBe(false)
+  })
+})
+
+describe('extractNumbers', () => {
+  it('reads German and English number formats', () => {
+    expect(extractNumbers('Preis: 12,50 € (Einkauf 9.80 €)')).toEqual(expect.arrayContaining([12.5, 9.8]))
+    expect(extractNumbers('Bestand 1.250 Stück')).toEqual(expect.arrayContaining([1250]))
+  })
+})
+
+describe('scoreTurn', () => {
+  it('scores a correct answer with 1 on every metric', () => {
+    const { scores, failures } = scoreTurn(
+      {
+        tools: [{ name: 'aggregateTable', arguments: { tableName: 't_materials', groupBy: ['category'] } }],
+        values: [2],
+        phrases: ['Rohre'],
+      },
+      'In der Kategorie Rohre gibt es 2 Materialien.',
+      [call('aggregateTable', { tableName: 't_materials', groupBy: ['category'], aggregates: [{ function: 'count' }] })],
+      ['Einen Moment']
+    )
+
+    expect(scores).toEqual({ toolSelection: 1, argumentCorrectness: 1, numericAccuracy: 1, forbiddenPhrases: 1 })
+    expect(failures).toEqual([])
+  })
+
+  it('accepts any of several alternative tools', () => {
+    const { scores } = scoreTurn({ tools: [{ name: ['queryTable', 'runSql'] }] }, '', [call('runSql')])
+    expect(scores.toolSelection).toBe(1)
+  })
+
+  it('penalizes missing and unexpected tools', () => {
+    const { scores, failures } = scoreTurn({ tools: [{ name: 'queryTableWithJoin' }] }, '', [call('queryTable'), call('runSql')])
+
+    expect(scores.toolSelection).toBe(0)
+    expect(failures).toEqual(['missing tool queryTableWithJoin', 'unexpected tool queryTable', 'unexpected tool runSql'])
+  })
+
+  it('reports wrong arguments, missing values and forbidden content', () => {
+    const { scores, failures } = scoreTurn(
+      {
+        tools: [{ name: 'queryTable', arguments: { filters: { category: 'Rohre' } } }],
+        values: ['44,90', '12,50'],
+        forbiddenValues: ['31,20'],
+      },
+      'Einen Moment… Stahlblech kostet 31,20 € im Einkauf und 44.90 € im Verkauf.',
+      [call('queryTable', { tableName: 't_materials', filters: { category: 'Bleche' } })],
+      ['Einen Moment']
+    )
+
+    expect(scores).toEqual({ toolSelection: 1, argumentCorrectness: 0, numericAccuracy: 0.5, forbiddenPhrases: 0 })
+    expect(failures).toEqual([
+      'arguments of queryTable do not contain {"filters":{"category":"Rohre"}}',
+      'missing value 12,50',
+      'forbidden phrase "Einen Moment"',
+      'forbidden value 31,20',
+    ])
+  })
+
+  it('leaves metrics without expectations empty', () => {
+    const { scores } = scoreTurn({ forbiddenValues: ['9,80'] }, 'Dazu habe ich keine Berechtigung.', [])
+    expect(scores).toEqual({ toolSelection: null, argumentCorrectness: null, numericAccuracy: null, forbiddenPhrases: 1 })
+  })
+})
+
+describe('averageScores', () => {
+  it('averages each metric over the turns it applies to', () => {
+    const averages = averageScores([
+      { toolSelection: 1, argumentCorrectness: null, numericAccuracy: 0.5, forbiddenPhrases: 1 },
+      { toolSelection: 0.5, argumentCorrectness: null, numericAccuracy: null, forbiddenPhrases: 0 },
+    ])
+
+    expect(averages).toEqual({ toolSelection: 0.75, argumentCorrectness: null, numericAccuracy: 0.5, forbiddenPhrases: 0.5, overall: 0.583 })
+  })
+})
@@ -0,0 +1,234 @@
+import { createHash } from 'crypto'
+import { mkdirSync, readFileSync, writeFileSync } from 'fs'
+import path from 'path'
+import { loadEnvConfig } from '@next/env'
+import { startFakeSupabase, SupabaseSeed } from '../tests/harness/fake-supabase'
+import { apiRequest, readFixture, TOKENS } from '../tests/harness'
+import { averageScores, scoreTurn, METRICS, ActualToolCall, TurnExpectation, TurnScores } from './scoring'
+
+/**
+ * Eval runner: replays German business questions through the chat pipeline
+ *
+ * Usage: npm run eval -- [--cases evals/cases.json] [--label baseline] [--case <id>]...
+ *                        [--out evals/reports] [--compare evals/reports/baseline.json]
+ *
+ * The LLM comes from the environment (.env.local, LLM_* variables), the database is the
+ * in-memory Supabase stand-in seeded from tests/fixtures/supabase-seed.json. Each case
+ * runs as one conversation; follow-up turns see the previous answers. The report is
+ * written as JSON (for diffs between prompt versions) and Markdown.
+ */
+
+interface EvalTurn {
+  user: string
+  expect: TurnExpectation
+}
+
+interface EvalCase {
+  id: string
+  description?: string
+  role?: keyof typeof TOKENS
+  turns: EvalTurn[]
+}
+
+interface EvalSuite {
+  description?: string
+  forbidden?: string[]
+  cases: EvalCase[]
+}
+
+interface TurnResult {
+  user: string
+  answer: string
+  tools: ActualToolCall[]
+  grounding: string | null
+  error: string | null
+  scores: TurnScores
+  failures: string[]
+}
+
+interface CaseResult {
+  id: string
+  description: string | null
+  role: string
+  scores: ReturnType<typeof averageScores>
+  turns: TurnResult[]
+}
+
+interface EvalReport {
+  label: string
+  cases: string
+  provider: string
+  model: string
+  promptHash: string
+  summary: ReturnType<typeof averageScores> & { cases: number; turns: number; totalTokens: number }
+  results: CaseResult[]
+}
+
+function parseArgs(argv: string[]) {
+  const args = { cases: 'evals/cases.json', label: 'current', out: 'evals/reports', only: [] as string[], compare: null as string | null }
+  for (let i = 0; i < argv.length; i++) {
+    const value = argv[i + 1]
+    switch (argv[i]) {
+      case '--cases': args.cases = value; i++; break
+      case '--label': args.label = value; i++; break
+      case '--out': args.out = value; i++; break
+      case '--case': args.only.push(value); i++; break
+      case '--compare': args.compare = value; i++; break
+    }
+  }
+  return args
+}
+
+function formatScore(value: number | null) {
+  return value === null ? '–' : value.toFixed(2)
+}
+
+function toMarkdown(report: EvalReport) {
+  const header = ['Case', ...METRICS, 'overall']
+  const lines = [
+    `# Eval report: ${report.label}`,
+    '',
+    `Model: ${report.provider}/${report.model} · Prompt: ${report.promptHash} · Cases: ${report.summary.cases} · Turns: ${report.summary.turns}`,
+    '',
+    `| ${header.join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...report.results.map((result) =>
+      `| ${result.id} | ${METRICS.map((metric) => formatScore(result.scores[metric])).join(' | ')} | ${formatScore(result.scores.overall)} |`
+    ),
+    `| **all** | ${METRICS.map((metric) => formatScore(report.summary[metric])).join(' | ')} | ${formatScore(report.summary.overall)} |`,
+    '',
+  ]
+
+  for (const result of report.results) {
+    const failures = result.turns.flatMap((turn, index) => turn.failures.map((failure) => `- Turn ${index + 1} ("${turn.user}"): ${failure}`))
+    if (failures.length > 0) {
+      lines.push(`## ${result.id}`, '', ...failures, '')
+    }
+  }
+
+  return lines.join('\n')
+}
+
+function printComparison(previous: EvalReport, current: EvalReport) {
+  const delta = (before: number | null, after: number | null) => {
+    if (before === null || after === null) return `${formatScore(before)} -> ${formatScore(after)}`
+    const difference = after - before
+    return `${formatScore(before)} -> ${formatScore(after)} (${difference >= 0 ? '+' : ''}${difference.toFixed(2)})`
+  }
+
+  console.log(`\nCompared with ${previous.label} (prompt ${previous.promptHash}):`)
+  for (const metric of [...METRICS, 'overall' as const]) {
+    console.log(`  ${metric}: ${delta(previous.summary[metric], current.summary[metric])}`)
+  }
+  for (const result of current.results) {
+    const before = previous.results.find((candidate) => candidate.id === result.id)
+    if (before && before.scores.overall !== result.scores.overall) {
+      console.log(`  ${result.id}: ${delta(before.scores.overall, result.scores.overall)}`)
+    }
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2))
+  loadEnvConfig(process.cwd())
+
+  // The seeded database replaces any configured Supabase project
+  const supabase = await startFakeSupabase(readFixture<SupabaseSeed>('supabase-seed.json'))
+  Object.assign(process.env, {
+    NEXT_PUBLIC_SUPABASE_URL: supabase.url,
+    NEXT_PUBLIC_SUPABASE_ANON_KEY: 'fake-anon-key',
+    SUPABASE_SERVICE_ROLE_KEY: 'fake-service-role-key',
+  })
+
+  const { POST } = await import('@/app/api/chat/route')
+  const { BASE_SYSTEM_PROMPT, buildToolSection } = await import('@/lib/system-prompt')
+  const { CHAT_TOOLS } = await import('@/lib/chat-tools')
+  const { getLlmConfig } = await import('@/lib/llm-provider')
+
+  const suite = JSON.parse(readFileSync(args.cases, 'utf8')) as EvalSuite
+  const cases = args.only.length > 0 ? suite.cases.filter((evalCase) => args.only.includes(evalCase.id)) : suite.cases
+  const results: CaseResult[] = []
+  let totalTokens = 0
+
+  try {
+    for (const evalCase of cases) {
+      const role = evalCase.role || 'purchaser'
+      const messages: Array<{ role: 'user' | 'assistant'; content: string }> = []
+      const turns: TurnResult[] = []
+
+      for (const turn of evalCase.turns) {
+        messages.push({ role: 'user', content: turn.user })
+        const response = await POST(apiRequest('/api/chat', { token: TOKENS[role], json: { messages } }), {})
+        const body = await response.json()
+
+        const answer: string = body.message?.content || ''
+        const tools: ActualToolCall[] = (body.trace || []).map((invocation: any) => ({
+          name: invocation.name,
+          arguments: invocation.arguments,
+          error: invocation.error,
+        }))
+        totalTokens += body.metadata?.usage?.totalTokens || 0
+
+        const { scores, failures } = scoreTurn(turn.expect, answer, tools, suite.forbidden)
+        if (!response.ok) {
+          // A failed request passes nothing, not even the forbidden phrase check
+          for (const metric of METRICS) {
+            if (scores[metric] !== null) scores[metric] = 0
+          }
+        }
+        turns.push({
+          user: turn.user,
+          answer,
+          tools,
+          grounding: body.metadata?.grounding?.status || null,
+          error: response.ok ? null : body.error || `HTTP ${response.status}`,
+          scores,
+          failures: response.ok ? failures : [`request failed: ${body.error || response.status}`, ...failures],
+        })
+        messages.push({ role: 'assistant', content: answer })
+      }
+
+      const caseScores = averageScores(turns.map((turn) => turn.scores))
+      results.push({ id: evalCase.id, description: evalCase.description || null, role, scores: caseScores, turns })
+      console.log(`${evalCase.id}: ${formatScore(caseScores.overall)}`)
+    }
+  } finally {
+    await supabase.stop()
+  }
+
+  const llmConfig = getLlmConfig()
+  const report: EvalReport = {
+    label: args.label,
+    cases: args.cases,
+    provider: llmConfig.provider,
+    model: llmConfig.model,
+    promptHash: createHash('sha256')
+      .update(BASE_SYSTEM_PROMPT)
+      .update(buildToolSection())
+      .update(JSON.stringify(CHAT_TOOLS))
+      .digest('hex')
+      .slice(0, 12),
+    summary: {
+      cases: results.length,
+      turns: results.reduce((count, result) => count + result.turns.length, 0),
+      totalTokens,
+      ...averageScores(results.flatMap((result) => result.turns.map((turn) => turn.scores))),
+    },
+    results,
+  }
+
+  mkdirSync(args.out, { recursive: true })
+  const reportPath = path.join(args.out, `${args.label}.json`)
+  writeFileSync(reportPath, `${JSON.stringify(report, null, 2)}\n`, 'utf8')
+  writeFileSync(path.join(args.out, `${args.label}.md`), toMarkdown(report), 'utf8')
+  console.log(`\nOverall ${formatScore(report.summary.overall)} · report written to ${reportPath}`)
+
+  if (args.compare) {
+    printComparison(JSON.parse(readFileSync(args.compare, 'utf8')) as EvalReport, report)
+  }
+}
+
+main().catch((error) => {
+  console.error('Eval run failed:', error)
+  process.exit(1)
+})
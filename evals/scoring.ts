@@ -0,0 +1,192 @@
+import { parseNumberToken } from '@/lib/grounding'
+
+/**
+ * Scoring of eval turns
+ *
+ * Every metric is a number between 0 and 1, or null when the turn declares no
+ * expectation for it:
+ * - toolSelection: overlap (Jaccard) between expected and called tool names
+ * - argumentCorrectness: share of expected calls whose arguments contain the expected subset
+ * - numericAccuracy: share of expected values found in the answer (any number format)
+ * - forbiddenPhrases: 1 when the answer contains no forbidden phrase or value, else 0
+ */
+
+export interface ExpectedToolCall {
+  // One name, or alternatives that are equally fine
+  name: string | string[]
+  // Subset the call's arguments must contain (strings compare case-insensitively)
+  arguments?: Record<string, any>
+}
+
+export interface TurnExpectation {
+  tools?: ExpectedToolCall[]
+  values?: Array<string | number>
+  phrases?: string[]
+  forbidden?: string[]
+  forbiddenValues?: Array<string | number>
+}
+
+export interface ActualToolCall {
+  name: string
+  arguments: Record<string, any>
+  error: string | null
+}
+
+export interface TurnScores {
+  toolSelection: number | null
+  argumentCorrectness: number | null
+  numericAccuracy: number | null
+  forbiddenPhrases: number | null
+}
+
+export const METRICS: Array<keyof TurnScores> = ['toolSelection', 'argumentCorrectness', 'numericAccuracy', 'forbiddenPhrases']
+
+const NUMBER_PATTERN = /(?<![A-Za-z_\d.,])(?:[-−]\s?)?\d+(?:[.,']\d+)*/g
+
+function round(value: number) {
+  return Math.round(value * 1000) / 1000
+}
+
+function nameMatches(expected: ExpectedToolCall, name: string) {
+  return Array.isArray(expected.name) ? expected.name.includes(name) : expected.name === name
+}
+
+/**
+ * Whether `actual` contains `expected`: objects by key, arrays element-wise in any order
+ */
+export function containsSubset(actual: any, expected: any): boolean {
+  if (expected === null || typeof expected !== 'object') {
+    if (typeof expected === 'string' && typeof actual === 'string') {
+      return actual.toLowerCase() === expected.toLowerCase()
+    }
+    if (typeof expected === 'number' && typeof actual === 'string') {
+      return Number(actual) === expected
+    }
+    return actual === expected
+  }
+  if (Array.isArray(expected)) {
+    return Array.isArray(actual) && expected.every((item) => actual.some((candidate) => containsSubset(candidate, item)))
+  }
+  return !!actual && typeof actual === 'object' && Object.entries(expected).every(([key, value]) => containsSubset(actual[key], value))
+}
+
+/**
+ * All numbers written in a text, in every plausible reading
+ */
+export function extractNumbers(text: string) {
+  return (text.match(NUMBER_PATTERN) || []).flatMap((token) => parseNumberToken(token).map((reading) => reading.value))
+}
+
+function containsValue(answer: string, value: string | number) {
+  const expected = typeof value === 'number' ? [value] : parseNumberToken(value).map((reading) => reading.value)
+  const found = extractNumbers(answer)
+  return expected.some((candidate) => found.some((number) => Math.abs(number - candidate) < 1e-9))
+}
+
+export function scoreToolSelection(expected: ExpectedToolCall[] | undefined, actual: ActualToolCall[]) {
+  if (!expected) {
+    return { score: null, failures: [] }
+  }
+
+  const called = Array.from(new Set(actual.map((call) => call.name)))
+  const matched = expected.filter((tool) => called.some((name) => nameMatches(tool, name)))
+  const unexpected = called.filter((name) => !expected.some((tool) => nameMatches(tool, name)))
+  const union = expected.length + unexpected.length
+
+  return {
+    score: union === 0 ? 1 : round(matched.length / union),
+    failures: [
+      ...expected.filter((tool) => !matched.includes(tool)).map((tool) => `missing tool ${[tool.name].flat().join(' | ')}`),
+      ...unexpected.map((name) => `unexpected tool ${name}`),
+    ],
+  }
+}
+
+export function scoreArguments(expected: ExpectedToolCall[] | undefined, actual: ActualToolCall[]) {
+  const withArguments = (expected || []).filter((tool) => tool.arguments)
+  if (withArguments.length === 0) {
+    return { score: null, failures: [] }
+  }
+
+  const failures = withArguments
+    .filter((tool) => !actual.some((call) => nameMatches(tool, call.name) && containsSubset(call.arguments, tool.arguments)))
+    .map((tool) => `arguments of ${[tool.name].flat().join(' | ')} do not contain ${JSON.stringify(tool.arguments)}`)
+
+  return { score: round((withArguments.length - failures.length) / withArguments.length), failures }
+}
+
+export function scoreValues(expectation: TurnExpectation, answer: string) {
+  const values = expectation.values || []
+  const phrases = expectation.phrases || []
+  const total = values.length + phrases.length
+  if (total === 0) {
+    return { score: null, failures: [] }
+  }
+
+  const failures = [
+    ...values.filter((value) => !containsValue(answer, value)).map((value) => `missing value ${value}`),
+    ...phrases.filter((phrase) => !answer.toLowerCase().includes(phrase.toLowerCase())).map((phrase) => `missing phrase "${phrase}"`),
+  ]
+
+  return { score: round((total - failures.length) / total), failures }
+}
+
+export function scoreForbidden(expectation: TurnExpectation, answer: string, globalForbidden: string[] = []) {
+  const phrases = [...globalForbidden, ...(expectation.forbidden || [])]
+  const values = expectation.forbiddenValues || []
+  if (phrases.length === 0 && values.length === 0) {
+    return { score: null, failures: [] }
+  }
+
+  const failures = [
+    ...phrases.filter((phrase) => answer.toLowerCase().includes(phrase.toLowerCase())).map((phrase) => `forbidden phrase "${phrase}"`),
+    ...values.filter((value) => containsValue(answer, value)).map((value) => `forbidden value ${value}`),
+  ]
+
+  return { score: failures.length === 0 ? 1 : 0, failures }
+}
+
+/**
+ * Score one turn of a case
+ */
+export function scoreTurn(expectation: TurnExpectation, answer: string, calls: ActualToolCall[], globalForbidden: string[] = []) {
+  const toolSelection = scoreToolSelection(expectation.tools, calls)
+  const argumentCorrectness = scoreArguments(expectation.tools, calls)
+  const numericAccuracy = scoreValues(expectation, answer)
+  const forbiddenPhrases = scoreForbidden(expectation, answer, globalForbidden)
+
+  const scores: TurnScores = {
+    toolSelection: toolSelection.score,
+    argumentCorrectness: argumentCorrectness.score,
+    numericAccuracy: numericAccuracy.score,
+    forbiddenPhrases: forbiddenPhrases.score,
+  }
+
+  return {
+    scores,
+    failures: [
+      ...toolSelection.failures,
+      ...argumentCorrectness.failures,
+      ...numericAccuracy.failures,
+      ...forbiddenPhrases.failures,
+    ],
+  }
+}
+
+/**
+ * Mean of each metric over several score sets, ignoring metrics that do not apply
+ * `overall` is the mean of the metric means.
+ */
+export function averageScores(scoreSets: TurnScores[]) {
+  const averages: Record<string, number | null> = {}
+  for (const metric of METRICS) {
+    const values = scoreSets.map((scores) => scores[metric]).filter((value): value is number => value !== null)
+    averages[metric] = values.length > 0 ? round(values.reduce((sum, value) => sum + value, 0) / values.length) : null
+  }
+
+  const applicable = METRICS.map((metric) => averages[metric]).filter((value): value is number => value !== null)
+  return {
+    ...(averages as unknown as TurnScores),
+    overall: applicable.length > 0 ? round(applicable.reduce((sum, value) => sum + value, 0) / applicable.length) : null,
+  }
+}
@@ -0,0 +1,31 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+
+let getTouchedTables: typeof import('../chat-tools').getTouchedTables
+
+beforeAll(async () => {
+  // The tools module creates the Supabase clients on import; nothing is requested here
+  vi.stubEnv('NEXT_PUBLIC_SUPABASE_URL', 'http://localhost:54321')
+  vi.stubEnv('NEXT_PUBLIC_SUPABASE_ANON_KEY', 'anon-key')
+  const chatTools = await import('../chat-tools')
+  getTouchedTables = chatTools.getTouchedTables
+})
+
+afterAll(() => {
+  vi.unstubAllEnvs()
+})
+
+describe('getTouchedTables', () => {
+  it('includes the tables a join passes through', () => {
+    expect(getTouchedTables({
+      name: 'queryTableWithJoin',
+      arguments: { tableName: 't_materials', joinTable: 't_supplier_contacts', via: ['t_material_prices', 't_suppliers'] },
+    }).sort()).toEqual(['t_material_prices', 't_materials', 't_supplier_contacts', 't_suppliers'])
+  })
+
+  it('reads queryTable joins and ignores the rejected alias syntax', () => {
+    expect(getTouchedTables({
+      name: 'queryTable',
+      arguments: { tableName: 't_materials', joins: ['t_material_prices!material_id(price_per_unit)', 'p:t_suppliers(*)'] },
+    })).toEqual(['t_materials', 't_material_prices'])
+  })
+})
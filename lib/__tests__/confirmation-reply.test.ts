@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest'
+import { parseConfirmationReply } from '../confirmation-reply'
+
+describe('parseConfirmationReply', () => {
+  it('recognizes typed and spoken confirmations', () => {
+    expect(parseConfirmationReply('Ja, bestätigen')).toBe('confirm')
+    expect(parseConfirmationReply('ja bitte bestätigen.')).toBe('confirm')
+    expect(parseConfirmationReply('Okay, übernehmen!')).toBe('confirm')
+  })
+
+  it('recognizes rejections, including negated confirmations', () => {
+    expect(parseConfirmationReply('Nein, verwerfen')).toBe('reject')
+    expect(parseConfirmationReply('Abbrechen')).toBe('reject')
+    expect(parseConfirmationReply('Bitte nicht übernehmen')).toBe('reject')
+  })
+
+  it('ignores a bare yes and anything that is not only a decision', () => {
+    expect(parseConfirmationReply('Ja')).toBeNull()
+    expect(parseConfirmationReply('Ja, aber setze den Preis auf 13 €')).toBeNull()
+    expect(parseConfirmationReply('Was kostet Kupferrohr?')).toBeNull()
+  })
+})
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi } from 'vitest'
+import { buildContext, countMessageTokens, listReferences, ContextConfig, HistoryMessage } from '../context-window'
+import type { LlmProvider } from '../llm-provider'
+import type { AnswerSource } from '../sources'
+
+const config: ContextConfig = { maxTokens: 400, recentMessages: 2, summaryMaxTokens: 100 }
+const systemPrompt = 'You answer questions about materials.'
+
+function fakeLlm(summary: string | Error = 'Nutzer fragte nach Rohren: Kupferrohr (id 1), PVC-Rohr (id 4).') {
+  const complete = vi.fn(async () => {
+    if (summary instanceof Error) throw summary
+    return { choices: [{ message: { content: summary } }], usage: { prompt_tokens: 50, completion_tokens: 10, total_tokens: 60 } }
+  })
+  return { llm: { name: 'openai-compatible', model: 'fake-model', temperature: 0, complete, stream: vi.fn() } as unknown as LlmProvider, complete }
+}
+
+const rohreSource = {
+  tool: 'queryTable',
+  table: 't_materials',
+  tables: ['t_materials'],
+  filters: { category: 'Rohre' },
+  rowIds: [1, 4],
+} as unknown as AnswerSource
+
+// Alternating user/assistant turns of about 50 tokens each
+function longHistory(turns: number): HistoryMessage[] {
+  const history: HistoryMessage[] = [
+    { role: 'user', content: 'Welche Materialien gibt es in der Kategorie Rohre?' },
+    { role: 'assistant', content: 'In der Kategorie Rohre gibt es Kupferrohr und PVC-Rohr.', sources: [rohreSource] },
+  ]
+  for (let i = 0; i < turns; i++) {
+    history.push({ role: 'user', content: `Frage ${i}: ${'Wie sieht es mit dem Lieferanten aus? '.repeat(5)}` })
+    history.push({ role: 'assistant', content: `Antwort ${i}: ${'Dazu liegen keine Daten vor. '.repeat(6)}` })
+  }
+  return history
+}
+
+describe('countMessageTokens', () => {
+  it('estimates content and tool calls', () => {
+    expect(countMessageTokens({ content: 'a'.repeat(40) })).toBe(14)
+    expect(countMessageTokens({ content: null, tool_calls: [{ id: 'call_1' }] })).toBeGreaterThan(4)
+  })
+})
+
+describe('listReferences', () => {
+  it('lists tables, filters and row ids of earlier answers', () => {
+    expect(listReferences([
+      { role: 'assistant', content: '', sources: [rohreSource] },
+      { role: 'assistant', content: '', sources: [{ ...rohreSource, rowIds: [4, 1] }] },
+    ])).toEqual(['t_materials (category=Rohre): ids 1, 4'])
+  })
+})
+
+describe('buildContext', () => {
+  it('keeps short histories verbatim', async () => {
+    const { llm, complete } = fakeLlm()
+    const history: HistoryMessage[] = [{ role: 'user', content: 'Was kostet Kupferrohr?' }]
+
+    const { messages, decision } = await buildContext(llm, { systemPrompt, history, config })
+
+    expect(messages).toEqual([{ role: 'system', content: systemPrompt }, { role: 'user', content: 'Was kostet Kupferrohr?' }])
+    expect(decision).toMatchObject({ truncated: false, keptMessages: 1, summarizedMessages: 0, summary: null })
+    expect(complete).not.toHaveBeenCalled()
+  })
+
+  it('replaces older messages with a summary that keeps the referenced records', async () => {
+    const { llm, complete } = fakeLlm()
+    const history = [...longHistory(6), { role: 'user' as const, content: 'Was sind die Preise dafür?' }]
+
+    const { messages, decision } = await buildContext(llm, { systemPrompt, history, config })
+
+    expect(decision.truncated).toBe(true)
+    expect(decision.contextTokens).toBeLessThanOrEqual(config.maxTokens)
+    expect(decision.keptMessages + decision.summarizedMessages).toBe(history.length)
+    expect(decision.summary).toMatchObject({ method: 'llm', coveredMessages: decision.summarizedMessages, usage: { totalTokens: 60 } })
+
+    expect(messages[0]).toEqual({ role: 'system', content: systemPrompt })
+    expect(messages[1].role).toBe('system')
+    expect(messages[1].content).toContain('Kupferrohr (id 1), PVC-Rohr (id 4)')
+    expect(messages[1].content).toContain('- t_materials (category=Rohre): ids 1, 4')
+    // Recent messages are verbatim and start with a user message
+    expect(messages[2].role).toBe('user')
+    expect(messages.at(-1)).toEqual({ role: 'user', content: 'Was sind die Preise dafür?' })
+    expect(messages.slice(2)).toEqual(history.slice(decision.summarizedMessages).map(({ role, content }) => ({ role, content })))
+
+    const prompt = (complete.mock.calls[0] as any[])[0].messages[1].content
+    expect(prompt).toContain('Welche Materialien gibt es in der Kategorie Rohre?')
+  })
+
+  it('always keeps the most recent messages', async () => {
+    const { llm } = fakeLlm()
+    const history: HistoryMessage[] = [
+      ...longHistory(2),
+      { role: 'user', content: 'x'.repeat(2000) },
+    ]
+
+    const { messages, decision } = await buildContext(llm, { systemPrompt, history, config })
+
+    expect(messages.at(-1)).toEqual(history.at(-1))
+    expect(decision.keptMessages).toBeGreaterThanOrEqual(1)
+    expect(decision.contextTokens).toBeGreaterThan(config.maxTokens)
+  })
+
+  it('reuses the stored summary while the newer messages fit', async () => {
+    const { llm, complete } = fakeLlm()
+    const history = longHistory(6)
+    const previousSummary = { text: 'Es ging um Kupferrohr (id 1) und PVC-Rohr (id 4).', coveredMessages: 10 }
+
+    const { messages, decision } = await buildContext(llm, { systemPrompt, history, previousSummary, config })
+
+    expect(complete).not.toHaveBeenCalled()
+    expect(decision.summary).toMatchObject({ method: 'reused', coveredMessages: 10, text: previousSummary.text })
+    expect(messages).toHaveLength(2 + history.length - 10)
+  })
+
+  it('extends the stored summary with the messages that no longer fit', async () => {
+    const { llm, complete } = fakeLlm('Erweiterte Zusammenfassung')
+    const history = longHistory(10)
+    const previousSummary = { text: 'Es ging um Kupferrohr (id 1) und PVC-Rohr (id 4).', coveredMessages: 4 }
+
+    const { decision } = await buildContext(llm, { systemPrompt, history, previousSummary, config })
+
+    expect(decision.summary).toMatchObject({ method: 'llm', text: 'Erweiterte Zusammenfassung' })
+    const prompt = (complete.mock.calls[0] as any[])[0].messages[1].content
+    expect(prompt).toContain(`Summary so far:\n${previousSummary.text}`)
+    expect(prompt).toContain(history[4].content)
+    expect(prompt).not.toContain(history[2].content)
+  })
+
+  it('falls back to the latest questions and the references when the summary call fails', async () => {
+    const { llm } = fakeLlm(new Error('model unavailable'))
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    const history = longHistory(6)
+    const { messages, decision } = await buildContext(llm, { systemPrompt, history, config })
+
+    expect(decision.summary).toMatchObject({ method: 'fallback', usage: null })
+    const lastSummarizedQuestion = history[decision.summarizedMessages - 2].content!.trim()
+    expect(messages[1].content).toContain(`- ${lastSummarizedQuestion}`)
+    expect(messages[1].content).toContain('t_materials (category=Rohre): ids 1, 4')
+  })
+})
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import { extractClaims, parseNumberToken, verifyAnswer, annotateAnswer } from '../grounding'
+import conversations from './fixtures/grounding-conversations.json'
+
+describe('parseNumberToken', () => {
+  it.each([
+    ['12,50', [12.5]],
+    ['1.234,56', [1234.56]],
+    ['1,234.56', [1234.56]],
+    ['17.35', [17.35]],
+    ['1.234.567', [1234567]],
+    ['-3,5', [-3.5]],
+  ])('reads %s', (token, values) => {
+    expect(parseNumberToken(token).map((reading) => reading.value)).toEqual(values)
+  })
+
+  it('returns both readings for ambiguous separators', () => {
+    expect(parseNumberToken('1.234').map((reading) => reading.value)).toEqual([1.234, 1234])
+    expect(parseNumberToken('1,234').map((reading) => reading.value)).toEqual([1.234, 1234])
+  })
+})
+
+describe('extractClaims', () => {
+  it('finds currency amounts, numbers and dates', () => {
+    const claims = extractClaims('Am 01.03.2026 kostete Material 4711 genau 12,50 €, am 2026-04-01 dann $13.')
+    expect(claims.map((claim) => [claim.text, claim.kind])).toEqual([
+      ['2026-04-01', 'date'],
+      ['01.03.2026', 'date'],
+      ['4711', 'number'],
+      ['12,50', 'currency'],
+      ['13', 'currency'],
+    ])
+  })
+
+  it('skips small plain integers such as list numbering', () => {
+    expect(extractClaims('1. Schraube\n2. Mutter\nDie Top 3 Lieferanten')).toEqual([])
+  })
+
+  it('parses German month names', () => {
+    expect(extractClaims('seit dem 15. Februar 2026')[0].date).toBe('2026-02-15')
+  })
+})
+
+describe('verifyAnswer', () => {
+  it.each(conversations.map((conversation) => [conversation.name, conversation] as const))(
+    '%s',
+    (_name, conversation) => {
+      const verdict = verifyAnswer(conversation.answer, conversation.toolResults, {
+        question: conversation.question,
+        mode: 'flag',
+      })
+      expect(verdict.status).toBe(conversation.expected.status)
+      expect(verdict.ungroundedClaims).toEqual(conversation.expected.ungrounded)
+    }
+  )
+
+  it('accepts numbers taken from the question', () => {
+    const verdict = verifyAnswer('Für Lieferant 8812 wurden keine Preise gefunden.', [{ data: [] }], {
+      question: 'Welche Preise hat Lieferant 8812?',
+      mode: 'flag',
+    })
+    expect(verdict.status).toBe('grounded')
+    expect(verdict.claims[0].matchedBy).toBe('question')
+  })
+
+  it('derives sums and differences from measures, not from ids and foreign keys', () => {
+    const results = [{ data: [{ id: 17, material_id: 4, price_per_unit: 12.5, cost_per_unit: 9.8 }] }]
+
+    expect(verifyAnswer('Die Marge beträgt 2,70 €.', results, { mode: 'flag' }).status).toBe('grounded')
+    expect(verifyAnswer('Der Preis beträgt 29,50 €.', results, { mode: 'flag' }).ungroundedClaims).toEqual(['29,50'])
+    expect(verifyAnswer('Der Preis beträgt 16,50 €.', results, { mode: 'flag' }).ungroundedClaims).toEqual(['16,50'])
+  })
+
+  it('does not accept a rounded value with more precision than the data', () => {
+    const verdict = verifyAnswer('Der Preis liegt bei 17,40 €.', [{ data: [{ price: 17.3456 }] }], { mode: 'flag' })
+    expect(verdict.ungroundedClaims).toEqual(['17,40'])
+  })
+})
+
+describe('annotateAnswer', () => {
+  it('lists the ungrounded values', () => {
+    expect(annotateAnswer('Antwort', ['9,80'])).toMatch(/^Antwort\n\n⚠️ .*9,80$/)
+  })
+})
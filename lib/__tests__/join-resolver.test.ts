@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+import { mkdtempSync, writeFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { resolveJoinPath, describeJoinPath } from '../join-resolver'
+import type { SchemaCatalog, CatalogTable } from '../schema-catalog'
+
+function table(name: string, foreignKeys: Record<string, string> = {}): CatalogTable {
+  return {
+    name,
+    description: null,
+    columns: [],
+    primaryKey: ['id'],
+    foreignKeys: Object.entries(foreignKeys).map(([column, references]) => {
+      const [referencedTable, referencedColumn] = references.split('.')
+      return { table: name, column, referencedTable, referencedColumn }
+    }),
+  }
+}
+
+function catalogOf(...tables: CatalogTable[]): SchemaCatalog {
+  return { tables: Object.fromEntries(tables.map((entry) => [entry.name, entry])), rpcs: [], loadedAt: Date.now() }
+}
+
+const materials = table('t_materials', { category_id: 't_categories.id' })
+const categories = table('t_categories')
+const suppliers = table('t_suppliers')
+const prices = table('t_material_prices', { material_id: 't_materials.id', supplier_id: 't_suppliers.id' })
+const materialSuppliers = table('t_material_suppliers', { material_id: 't_materials.id', supplier_id: 't_suppliers.id' })
+const contacts = table('t_supplier_contacts', { supplier_id: 't_suppliers.id' })
+
+const hiddenOrders = table('t_purchase_orders', { material_id: 't_materials.id', supplier_id: 't_suppliers.id' })
+
+let policyDir: string
+
+beforeAll(() => {
+  policyDir = mkdtempSync(path.join(tmpdir(), 'join-resolver-'))
+  const policyPath = path.join(policyDir, 'data-policy.json')
+  const exposed = [materials, categories, suppliers, prices, materialSuppliers, contacts]
+  writeFileSync(policyPath, JSON.stringify({ tables: Object.fromEntries(exposed.map((entry) => [entry.name, {}])), rpcs: [] }))
+  vi.stubEnv('DATA_POLICY_PATH', policyPath)
+})
+
+afterAll(() => {
+  vi.unstubAllEnvs()
+  rmSync(policyDir, { recursive: true, force: true })
+})
+
+describe('resolveJoinPath', () => {
+  it('follows a direct foreign key in either direction', () => {
+    const catalog = catalogOf(materials, categories, prices, suppliers)
+
+    expect(resolveJoinPath(catalog, 't_materials', 't_material_prices')).toEqual({
+      path: [{ from: 't_materials', table: 't_material_prices', column: 'material_id', kind: 'one-to-many' }],
+      error: null,
+    })
+    expect(resolveJoinPath(catalog, 't_materials', 't_categories').path).toEqual([
+      { from: 't_materials', table: 't_categories', column: 'category_id', kind: 'many-to-one' },
+    ])
+  })
+
+  it('joins many-to-many through a junction table', () => {
+    const { path } = resolveJoinPath(catalogOf(materials, categories, materialSuppliers, suppliers), 't_materials', 't_suppliers')
+
+    expect(path?.map((step) => step.table)).toEqual(['t_material_suppliers', 't_suppliers'])
+    expect(describeJoinPath(path!)).toBe('t_materials ← t_material_suppliers.material_id (junction), t_material_suppliers.supplier_id → t_suppliers')
+  })
+
+  it('joins across several tables', () => {
+    const { path } = resolveJoinPath(catalogOf(materials, categories, prices, suppliers, contacts), 't_materials', 't_supplier_contacts')
+
+    expect(path?.map((step) => [step.table, step.column])).toEqual([
+      ['t_material_prices', 'material_id'],
+      ['t_suppliers', 'supplier_id'],
+      ['t_supplier_contacts', 'supplier_id'],
+    ])
+  })
+
+  it('reports several paths of the same length and resolves them with via', () => {
+    const catalog = catalogOf(materials, categories, prices, materialSuppliers, suppliers)
+
+    const ambiguous = resolveJoinPath(catalog, 't_materials', 't_suppliers')
+    expect(ambiguous.path).toBeNull()
+    expect(ambiguous.error).toContain('Several relationships connect "t_materials" and "t_suppliers"')
+    expect(ambiguous.error).toContain('t_materials ← t_material_prices.material_id (junction), t_material_prices.supplier_id → t_suppliers')
+    expect(ambiguous.error).toContain('t_materials ← t_material_suppliers.material_id (junction)')
+
+    const { path } = resolveJoinPath(catalog, 't_materials', 't_suppliers', { via: ['t_material_prices'] })
+    expect(path?.map((step) => step.table)).toEqual(['t_material_prices', 't_suppliers'])
+  })
+
+  it('reports several foreign keys between two tables and resolves them with joinColumn', () => {
+    const catalog = catalogOf(
+      materials,
+      categories,
+      table('t_material_prices', { material_id: 't_materials.id', replacement_id: 't_materials.id' })
+    )
+
+    expect(resolveJoinPath(catalog, 't_materials', 't_material_prices').error).toBe(
+      'Several relationships connect "t_materials" and "t_material_prices": 1) t_materials ← t_material_prices.material_id; 2) t_materials ← t_material_prices.replacement_id. Pass joinColumn or via to choose one.'
+    )
+    expect(resolveJoinPath(catalog, 't_materials', 't_material_prices', { joinColumn: 'replacement_id' }).path).toEqual([
+      { from: 't_materials', table: 't_material_prices', column: 'replacement_id', kind: 'one-to-many' },
+    ])
+    expect(resolveJoinPath(catalog, 't_materials', 't_material_prices', { joinColumn: 'article_id' }).error).toMatch(
+      /^No relationship between "t_materials" and "t_material_prices" uses the column "article_id"/
+    )
+  })
+
+  it('reports unknown tables and unrelated tables', () => {
+    const catalog = catalogOf(materials, categories, suppliers)
+
+    expect(resolveJoinPath(catalog, 't_materials', 't_prices').error).toBe(
+      'Table "t_prices" does not exist. Available tables: t_categories, t_materials, t_suppliers'
+    )
+    expect(resolveJoinPath(catalog, 't_materials', 't_suppliers').error).toBe(
+      'No foreign key path between "t_materials" and "t_suppliers" within 3 joins. Tables related to "t_materials": t_categories'
+    )
+    expect(resolveJoinPath(catalog, 't_materials', 't_suppliers', { via: ['t_categories'] }).error).toMatch(
+      /^No foreign key relationship between "t_categories" and "t_suppliers"/
+    )
+  })
+
+  it('only joins through and lists tables exposed by the data policy', () => {
+    const catalog = catalogOf(materials, categories, suppliers, hiddenOrders)
+
+    expect(resolveJoinPath(catalog, 't_materials', 't_prices').error).toBe(
+      'Table "t_prices" does not exist. Available tables: t_categories, t_materials, t_suppliers'
+    )
+    expect(resolveJoinPath(catalog, 't_materials', 't_purchase_orders').error).toMatch(/^Access denied: table "t_purchase_orders"/)
+    expect(resolveJoinPath(catalog, 't_materials', 't_suppliers').error).toBe(
+      'No foreign key path between "t_materials" and "t_suppliers" within 3 joins. Tables related to "t_materials": t_categories'
+    )
+  })
+})
@@ -0,0 +1,39 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { getLlmConfig, getLlmProvider } from '../llm-provider'
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+function stubLocalServer() {
+  vi.stubEnv('LLM_PROVIDER', 'openai-compatible')
+  vi.stubEnv('LLM_BASE_URL', 'http://localhost:11434/v1')
+  vi.stubEnv('LLM_API_KEY', 'local-key')
+  vi.stubEnv('OPENAI_API_KEY', 'openai-key')
+}
+
+describe('getLlmConfig', () => {
+  it('uses the endpoint settings of the configured provider', () => {
+    stubLocalServer()
+
+    expect(getLlmConfig()).toMatchObject({ provider: 'openai-compatible', baseUrl: 'http://localhost:11434/v1', apiKey: 'local-key' })
+    expect(getLlmConfig('openai-compatible')).toMatchObject({ baseUrl: 'http://localhost:11434/v1', apiKey: 'local-key' })
+  })
+
+  it('does not send another provider\'s key to the configured base URL', () => {
+    stubLocalServer()
+
+    expect(getLlmConfig('openai')).toMatchObject({ provider: 'openai', baseUrl: null, apiKey: 'openai-key' })
+  })
+})
+
+describe('getLlmProvider', () => {
+  it('reports a provider override without its own endpoint', () => {
+    stubLocalServer()
+
+    expect(getLlmProvider({ provider: 'azure' })).toEqual({
+      provider: null,
+      error: 'LLM_BASE_URL (the Azure OpenAI endpoint) is not set',
+    })
+  })
+})
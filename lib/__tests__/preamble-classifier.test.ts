@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { classifyPreamble, filterPreamble, getPreambleConfig } from '../preamble-classifier'
+
+const config = getPreambleConfig()
+
+describe('classifyPreamble', () => {
+  it.each([
+    ['Einen Moment, ich prüfe die Preise.', 'de'],
+    ['Gerne! Ich schaue in der Datenbank nach.', 'de'],
+    ['Ich werde jetzt die Materialien abfragen.', 'de'],
+    ['Lass mich kurz die Einkaufspreise holen…', 'de'],
+    ['Let me look that up.', 'en'],
+    ['Sure. I’ll query the material prices now.', 'en'],
+    ['One moment while I check the database.', 'en'],
+  ])('suppresses the preamble "%s"', (content, language) => {
+    expect(classifyPreamble(content, config)).toMatchObject({ kind: 'preamble', language })
+  })
+
+  it.each([
+    ['Momentan sind keine Einkaufspreise hinterlegt.'],
+    ['Der Verkaufspreis für Kupferrohr beträgt 12,50 €. Ich prüfe noch die Einkaufspreise.'],
+    ['Ich werde die Preise abfragen. Kupfer ist aktuell teurer als Stahl.'],
+    ['- Kupferrohr\n- Stahlblech'],
+    ['There are no materials in that category.'],
+    ['I will check the prices. Copper has been the most expensive material this year.'],
+    ['Momentarily unavailable: the supplier table is being updated.'],
+    ['Kupferrohr ist leider nicht mehr lieferbar, ich suche Alternativen.'],
+    ['Kupferrohr führen wir nicht, ich schaue nach Ersatz.'],
+    ['Stahlblech ist teurer als Kupferrohr, ich hole noch die Lieferanten.'],
+    ['Copper pipe is out of stock, let me look for alternatives.'],
+  ])('keeps real content "%s"', (content) => {
+    expect(classifyPreamble(content, config).kind).toBe('content')
+  })
+
+  it('keeps long text even when it starts with a phrase', () => {
+    const content = `Let me explain. ${'The price list covers every material group. '.repeat(10)}`
+    expect(classifyPreamble(content, config)).toMatchObject({ kind: 'content', reason: expect.stringMatching(/longer than/) })
+  })
+
+  it('reports empty content', () => {
+    expect(classifyPreamble(null, config).kind).toBe('empty')
+    expect(classifyPreamble('  ', config).kind).toBe('empty')
+  })
+})
+
+describe('filterPreamble', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('drops preambles and logs the decision', () => {
+    const info = vi.spyOn(console, 'info').mockImplementation(() => {})
+    expect(filterPreamble('Einen Augenblick bitte, ich hole die Daten.')).toBeNull()
+    expect(info).toHaveBeenCalledWith('Preamble classification:', expect.objectContaining({ decision: 'suppressed', language: 'de' }))
+  })
+
+  it('keeps content and logs why', () => {
+    const info = vi.spyOn(console, 'info').mockImplementation(() => {})
+    expect(filterPreamble('Momentan gibt es 3 Lieferanten.')).toBe('Momentan gibt es 3 Lieferanten.')
+    expect(info).toHaveBeenCalledWith('Preamble classification:', expect.objectContaining({ decision: 'kept' }))
+  })
+})
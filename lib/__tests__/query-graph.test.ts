@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+import { mkdtempSync, writeFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { resolveGraph, buildGraphSelect, listGraphNodes } from '../query-graph'
+import type { SchemaCatalog, CatalogTable } from '../schema-catalog'
+
+function table(name: string, columns: string[], foreignKeys: Record<string, string> = {}): CatalogTable {
+  return {
+    name,
+    description: null,
+    columns: columns.map((column) => ({ name: column, type: 'text', nullable: true, isPrimaryKey: column === 'id', description: null })),
+    primaryKey: ['id'],
+    foreignKeys: Object.entries(foreignKeys).map(([column, references]) => {
+      const [referencedTable, referencedColumn] = references.split('.')
+      return { table: name, column, referencedTable, referencedColumn }
+    }),
+  }
+}
+
+const catalog: SchemaCatalog = {
+  tables: {
+    t_materials: table('t_materials', ['id', 'name', 'category', 'supplier_id'], { supplier_id: 't_suppliers.id' }),
+    t_material_prices: table('t_material_prices', ['id', 'material_id', 'price_per_unit', 'valid_from'], { material_id: 't_materials.id' }),
+    t_suppliers: table('t_suppliers', ['id', 'name', 'iban']),
+    t_supplier_contacts: table('t_supplier_contacts', ['id', 'supplier_id', 'email'], { supplier_id: 't_suppliers.id' }),
+  },
+  rpcs: [],
+  loadedAt: Date.now(),
+}
+
+let policyDir: string
+
+beforeAll(() => {
+  policyDir = mkdtempSync(path.join(tmpdir(), 'query-graph-'))
+  const policyPath = path.join(policyDir, 'data-policy.json')
+  writeFileSync(policyPath, JSON.stringify({
+    tables: {
+      t_materials: {},
+      t_material_prices: {},
+      t_suppliers: { deniedColumns: ['iban'] },
+    },
+    rpcs: [],
+  }))
+  vi.stubEnv('DATA_POLICY_PATH', policyPath)
+})
+
+afterAll(() => {
+  vi.unstubAllEnvs()
+  rmSync(policyDir, { recursive: true, force: true })
+})
+
+describe('resolveGraph', () => {
+  it('builds one nested select with per-table filters, ordering and limits', () => {
+    const { graph, error } = resolveGraph(catalog, {
+      table: 't_materials',
+      columns: ['id', 'name'],
+      filters: { category: 'Rohre' },
+      relations: [
+        { table: 't_suppliers', columns: ['name'] },
+        {
+          table: 't_material_prices',
+          columns: ['price_per_unit', 'valid_from'],
+          filters: { column: 'price_per_unit', op: 'gt', value: 5 },
+          orderBy: [{ column: 'valid_from', direction: 'desc' }],
+          limit: 3,
+          required: true,
+        },
+      ],
+    })
+
+    expect(error).toBeNull()
+    expect(buildGraphSelect(graph!)).toBe(
+      'id, name, t_suppliers!supplier_id(name), t_material_prices!material_id!inner(price_per_unit, valid_from)'
+    )
+    const [root, suppliers, prices] = listGraphNodes(graph!)
+    expect(root).toMatchObject({ path: '', kind: 'root', filter: { type: 'condition', column: 'category' } })
+    expect(suppliers).toMatchObject({ path: 't_suppliers', kind: 'many-to-one', required: false, limit: null })
+    expect(prices).toMatchObject({
+      path: 't_material_prices',
+      kind: 'one-to-many',
+      limit: 3,
+      filter: { type: 'condition', column: 't_material_prices.price_per_unit', operator: 'gt', value: 5 },
+    })
+  })
+
+  it('qualifies nested relations with their embed path', () => {
+    const { graph } = resolveGraph(catalog, {
+      table: 't_material_prices',
+      relations: [{ table: 't_materials', relations: [{ table: 't_suppliers', filters: { name: 'Kupfer AG' } }] }],
+    })
+
+    const supplier = listGraphNodes(graph!).at(-1)
+    expect(supplier).toMatchObject({ path: 't_materials.t_suppliers', filter: { column: 't_materials.t_suppliers.name' } })
+    expect(buildGraphSelect(graph!)).toBe('*, t_materials!material_id(*, t_suppliers!supplier_id(*))')
+  })
+
+  it('rejects unknown columns, foreign-table filters and denied columns before querying', () => {
+    expect(resolveGraph(catalog, { table: 't_materials', relations: [{ table: 't_material_prices', columns: ['price'] }] }).error).toBe(
+      't_materials > t_material_prices: unknown column price. Columns of t_material_prices: id, material_id, price_per_unit, valid_from'
+    )
+    expect(resolveGraph(catalog, { table: 't_materials', filters: { 't_material_prices.price_per_unit': 5 } }).error).toBe(
+      't_materials: filters may only use columns of t_materials; put conditions on t_material_prices into that relation'
+    )
+    expect(resolveGraph(catalog, { table: 't_materials', relations: [{ table: 't_suppliers', columns: ['iban'] }] }).error).toBe(
+      't_materials > t_suppliers: Access denied: column "t_suppliers.iban" is not available to the chatbot.'
+    )
+  })
+
+  it('only lists tables and columns the policy exposes in errors', () => {
+    expect(resolveGraph(catalog, { table: 't_materials', relations: [{ table: 't_suppliers', columns: ['bank'] }] }).error).toBe(
+      't_materials > t_suppliers: unknown column bank. Columns of t_suppliers: id, name'
+    )
+    expect(resolveGraph(catalog, { table: 't_prices' }).error).toBe(
+      't_prices: table "t_prices" does not exist. Available tables: t_material_prices, t_materials, t_suppliers'
+    )
+  })
+
+  it('requires every relation to follow one foreign key of its parent', () => {
+    expect(resolveGraph(catalog, { table: 't_material_prices', relations: [{ table: 't_suppliers' }] }).error).toBe(
+      't_material_prices > t_suppliers: "t_suppliers" is not directly related to "t_material_prices". Nest the relations along the path t_material_prices.material_id → t_materials, t_materials.supplier_id → t_suppliers'
+    )
+    expect(resolveGraph(catalog, { table: 't_materials', relations: [{ table: 't_supplier_contacts' }] }).error).toMatch(
+      /^t_materials > t_supplier_contacts: Access denied: table "t_supplier_contacts"/
+    )
+  })
+
+  it('rejects repeated relations and invalid limits', () => {
+    expect(resolveGraph(catalog, {
+      table: 't_materials',
+      relations: [{ table: 't_material_prices' }, { table: 't_material_prices' }],
+    }).error).toBe('t_materials: "t_material_prices" is listed twice; combine both into one relation')
+    expect(resolveGraph(catalog, { table: 't_materials', limit: 0 }).error).toBe('t_materials: limit must be a positive integer')
+  })
+})
@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest'
+import { flattenRows, toTable, summarizeColumn, shapeToolResult } from '../result-shaper'
+import { createResultStore, getResultPage } from '../result-store'
+import type { SchemaCatalog, CatalogTable } from '../schema-catalog'
+
+function table(name: string, columns: string[], foreignKeys: Record<string, string> = {}): CatalogTable {
+  return {
+    name,
+    description: null,
+    columns: columns.map((column) => ({ name: column, type: 'text', nullable: true, isPrimaryKey: column === 'id', description: null })),
+    primaryKey: ['id'],
+    foreignKeys: Object.entries(foreignKeys).map(([column, references]) => {
+      const [referencedTable, referencedColumn] = references.split('.')
+      return { table: name, column, referencedTable, referencedColumn }
+    }),
+  }
+}
+
+const catalog: SchemaCatalog = {
+  tables: {
+    t_materials: table('t_materials', ['id', 'name', 'description']),
+    t_suppliers: table('t_suppliers', ['id', 'name']),
+    t_material_prices: table('t_material_prices', ['id', 'material_id', 'supplier_id', 'price_per_unit', 'valid_from'], {
+      material_id: 't_materials.id',
+      supplier_id: 't_suppliers.id',
+    }),
+  },
+  rpcs: [],
+  loadedAt: Date.now(),
+}
+
+const materials = [
+  {
+    id: 1,
+    name: 'Kupferrohr',
+    description: null,
+    t_material_prices: [
+      { id: 10, material_id: 1, price_per_unit: 12.5, valid_from: '2026-01-01' },
+      { id: 14, material_id: 1, price_per_unit: 13.1, valid_from: '2026-07-01' },
+    ],
+  },
+  { id: 2, name: 'Stahlblech', description: null, t_material_prices: [{ id: 11, material_id: 2, price_per_unit: 44.9, valid_from: '2026-01-01' }] },
+  { id: 5, name: 'Dichtung', description: '', t_material_prices: [] },
+]
+
+function manyRows(count: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    id: i + 1,
+    name: `Material ${i + 1}`,
+    category: i % 3 === 0 ? 'Rohre' : 'Bleche',
+    price_per_unit: i + 0.5,
+    note: null,
+  }))
+}
+
+describe('flattenRows', () => {
+  it('turns embedded rows into table.column columns, one row per match', () => {
+    const flat = flattenRows(materials)
+
+    expect(flat).toHaveLength(4)
+    expect(flat[1]).toMatchObject({ id: 1, name: 'Kupferrohr', 't_material_prices.price_per_unit': 13.1 })
+    expect(flat[3]).toMatchObject({ id: 5, t_material_prices: null })
+  })
+
+  it('prefixes embedded single objects', () => {
+    expect(flattenRows([{ id: 3, category_id: 7, categories: { id: 7, name: 'Befestigung' } }])).toEqual([
+      { id: 3, category_id: 7, 'categories.id': 7, 'categories.name': 'Befestigung' },
+    ])
+  })
+})
+
+describe('toTable', () => {
+  it('drops empty columns and repeated join keys', () => {
+    const table = toTable(flattenRows(materials), { table: 't_materials', catalog })
+
+    expect(table.columns).toEqual([
+      'id',
+      'name',
+      't_material_prices.id',
+      't_material_prices.price_per_unit',
+      't_material_prices.valid_from',
+    ])
+    expect(table.droppedColumns).toEqual(['description', 't_material_prices', 't_material_prices.material_id'])
+    expect(table.rows[3]).toEqual([5, 'Dichtung', null, null, null])
+  })
+
+  it('keeps equal values in columns that are not keys', () => {
+    const table = toTable([{ id: 1, cost: 10, 'prices.price': 10 }])
+    expect(table.columns).toEqual(['id', 'cost', 'prices.price'])
+  })
+
+  it('keeps the embedded table\'s own id when it equals a key of the parent', () => {
+    const rows = flattenRows([{ id: 10, supplier_id: 10, t_suppliers: { id: 10, name: 'Metallbau Huber' } }])
+    const table = toTable(rows, { table: 't_material_prices', catalog })
+
+    expect(table.columns).toEqual(['id', 'supplier_id', 't_suppliers.id', 't_suppliers.name'])
+    expect(table.droppedColumns).toEqual([])
+  })
+
+  it('keeps key columns without catalog foreign keys', () => {
+    const table = toTable(flattenRows(materials))
+    expect(table.columns).toContain('t_material_prices.material_id')
+  })
+})
+
+describe('summarizeColumn', () => {
+  it('reports ranges, nulls and frequent values', () => {
+    expect(summarizeColumn([3, null, 1.5, 8])).toEqual({ type: 'number', nulls: 1, distinct: 3, min: 1.5, max: 8 })
+    expect(summarizeColumn(['Rohre', 'Bleche', 'Rohre'])).toEqual({
+      type: 'string',
+      nulls: 0,
+      distinct: 2,
+      min: 'Bleche',
+      max: 'Rohre',
+      top: [{ value: 'Rohre', count: 2 }, { value: 'Bleche', count: 1 }],
+    })
+  })
+})
+
+describe('shapeToolResult', () => {
+  it('sends small results as a table and keeps other fields', () => {
+    const store = createResultStore()
+    const shaped = shapeToolResult('queryTable', { data: manyRows(2), totalCount: 2, hasMore: false, error: null }, store)
+
+    expect(shaped).toEqual({
+      totalCount: 2,
+      hasMore: false,
+      error: null,
+      resultId: 'r1',
+      rowCount: 2,
+      columns: ['id', 'name', 'category', 'price_per_unit'],
+      droppedColumns: ['note'],
+      rows: [[1, 'Material 1', 'Rohre', 0.5], [2, 'Material 2', 'Bleche', 1.5]],
+    })
+  })
+
+  it('summarizes large results and keeps them for paging', () => {
+    const store = createResultStore()
+    const shaped = shapeToolResult('queryTable', { data: manyRows(100) }, store, { maxChars: 1000, previewRows: 10 })
+
+    expect(shaped).toMatchObject({ resultId: 'r1', rowCount: 100, summarized: true })
+    expect(shaped.rows).toHaveLength(10)
+    expect(shaped.columnStats.price_per_unit).toMatchObject({ min: 0.5, max: 99.5 })
+    expect(shaped.columnStats.category.top).toEqual([{ value: 'Bleche', count: 66 }, { value: 'Rohre', count: 34 }])
+    expect(shaped.note).toContain('getResultPage')
+
+    const page = getResultPage(store, { resultId: 'r1', offset: 95, limit: 10, columns: ['name'] })
+    expect(page).toEqual({
+      resultId: 'r1',
+      columns: ['name'],
+      rows: [['Material 96'], ['Material 97'], ['Material 98'], ['Material 99'], ['Material 100']],
+      offset: 95,
+      rowCount: 100,
+      hasMore: false,
+      nextOffset: null,
+    })
+  })
+
+  it('shows fewer preview rows when wide rows exceed the limit', () => {
+    const rows = manyRows(40).map((row) => ({ ...row, note: 'x'.repeat(200) }))
+    const shaped = shapeToolResult('queryTable', { data: rows }, createResultStore(), { maxChars: 1000, previewRows: 20 })
+
+    expect(shaped.rows.length).toBeLessThan(20)
+    expect(JSON.stringify(shaped.rows).length).toBeLessThanOrEqual(1000)
+  })
+
+  it('passes results without rows through unchanged', () => {
+    const result = { columns: ['id', 'name'], error: null }
+    expect(shapeToolResult('getTableStructure', result, createResultStore())).toBe(result)
+  })
+})
+
+describe('getResultPage', () => {
+  it('reports unknown results and columns', () => {
+    const store = createResultStore()
+    shapeToolResult('queryTable', { data: manyRows(3) }, store)
+
+    expect(getResultPage(store, { resultId: 'r7' })).toEqual({ error: 'Unknown resultId: r7. Available results: r1' })
+    expect(getResultPage(store, { resultId: 'r1', columns: ['cost'] }).error).toMatch(/^Unknown columns: cost/)
+    expect(getResultPage(undefined, { resultId: 'r1' }).error).toContain('No results are stored')
+  })
+})
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest'
+import { validateReadOnlySql, SqlValidationOptions } from '../sql-guard'
+
+const ALLOWED_TABLES = ['t_materials', 't_material_prices']
+
+const options: SqlValidationOptions = {
+  maxRows: 200,
+  checkTable: (tableName) => (ALLOWED_TABLES.includes(tableName) ? null : `table "${tableName}" is not available`),
+}
+
+function expectRejected(sql: string, reason: RegExp) {
+  const result = validateReadOnlySql(sql, options)
+  expect(result.ok).toBe(false)
+  if (!result.ok) {
+    expect(result.error).toMatch(/^SQL rejected: /)
+    expect(result.error).toMatch(reason)
+  }
+}
+
+describe('validateReadOnlySql', () => {
+  describe('rejected statements', () => {
+    it.each([
+      ['INSERT INTO t_materials (name) VALUES (\'x\')', /INSERT/],
+      ['UPDATE t_materials SET name = \'x\'', /UPDATE/],
+      ['DELETE FROM t_materials', /DELETE/],
+    ])('rejects DML: %s', (sql, reason) => {
+      expectRejected(sql, reason)
+    })
+
+    it.each([
+      ['DROP TABLE t_materials', /only SELECT and WITH/],
+      ['CREATE TABLE t_copy (id int)', /only SELECT and WITH/],
+      ['ALTER TABLE t_materials ADD COLUMN x int', /only SELECT and WITH/],
+      ['TRUNCATE t_materials', /only SELECT and WITH/],
+    ])('rejects DDL: %s', (sql, reason) => {
+      expectRejected(sql, reason)
+    })
+
+    it('rejects data-modifying statements inside WITH', () => {
+      expectRejected('WITH d AS (DELETE FROM t_materials RETURNING *) SELECT * FROM d', /DELETE/)
+    })
+
+    it('rejects multiple statements', () => {
+      expectRejected('SELECT * FROM t_materials; DELETE FROM t_materials', /exactly one statement/)
+      expectRejected('SELECT 1; SELECT 2', /exactly one statement/)
+    })
+
+    it('rejects pg_ and other system functions', () => {
+      expectRejected('SELECT pg_sleep(10)', /function "pg_sleep"/)
+      expectRejected('SELECT pg_read_file(\'/etc/passwd\')', /function "pg_read_file"/)
+      expectRejected('SELECT name FROM t_materials WHERE pg_sleep(1) IS NULL', /function "pg_sleep"/)
+      expectRejected('SELECT set_config(\'statement_timeout\', \'0\', false)', /function "set_config"/)
+      expectRejected('SELECT pg_catalog.now()', /schema-qualified function/)
+    })
+
+    it('rejects system schemas and tables', () => {
+      expectRejected('SELECT * FROM pg_catalog.pg_user', /schema "pg_catalog"/)
+      expectRejected('SELECT * FROM information_schema.tables', /schema "information_schema"/)
+      expectRejected('SELECT * FROM pg_shadow', /system table "pg_shadow"/)
+    })
+
+    it('rejects tables that are not allowlisted', () => {
+      expectRejected('SELECT * FROM t_customers', /t_customers/)
+      expectRejected(
+        'SELECT m.name FROM t_materials m WHERE m.id IN (SELECT material_id FROM t_secrets)',
+        /t_secrets/
+      )
+    })
+
+    it('does not let a WITH binding hide tables outside its scope', () => {
+      expectRejected(
+        'SELECT * FROM (WITH chat_audit_log AS (SELECT 1) SELECT * FROM chat_audit_log) a, chat_audit_log',
+        /chat_audit_log/
+      )
+      expectRejected('SELECT (WITH conversations AS (SELECT 1) SELECT 1), c.* FROM conversations c', /conversations/)
+      expectRejected(
+        'SELECT id FROM (WITH user_roles AS (SELECT 1 AS id) SELECT id FROM user_roles) r UNION SELECT * FROM user_roles',
+        /user_roles/
+      )
+      expectRejected('WITH a AS (SELECT * FROM b), b AS (SELECT 1) SELECT * FROM a', /table "b"/)
+    })
+
+    it('rejects row locking clauses', () => {
+      expectRejected('SELECT * FROM t_materials FOR UPDATE', /FOR UPDATE/)
+    })
+
+    it('rejects empty and unparseable input', () => {
+      expectRejected('   ', /empty/)
+      expectRejected('SELEC * FROM t_materials', /could not parse/)
+    })
+  })
+
+  describe('accepted statements', () => {
+    it('wraps the normalized query in a LIMIT', () => {
+      const result = validateReadOnlySql('select name from t_materials', options)
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.sql).toMatch(/^SELECT \* FROM \(SELECT .*name.* FROM .*t_materials.*\) AS run_sql_result LIMIT 200$/)
+        expect(result.tables).toEqual(['t_materials'])
+      }
+    })
+
+    it('caps queries that request more rows than allowed', () => {
+      const result = validateReadOnlySql('SELECT * FROM t_materials LIMIT 100000', { ...options, maxRows: 50 })
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.sql).toMatch(/LIMIT 50$/)
+      }
+    })
+
+    it('accepts joins, CTEs and window functions over allowlisted tables', () => {
+      const result = validateReadOnlySql(
+        `WITH ranked AS (
+           SELECT m.name, p.price_per_unit,
+                  row_number() OVER (PARTITION BY m.id ORDER BY p.price_per_unit DESC) AS rank
+           FROM t_materials m
+           JOIN t_material_prices p ON p.material_id = m.id
+         )
+         SELECT name, price_per_unit FROM ranked WHERE rank = 1`,
+        options
+      )
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.tables).toEqual(['t_material_prices', 't_materials'])
+      }
+    })
+
+    it('accepts references to earlier and recursive WITH bindings', () => {
+      expect(validateReadOnlySql(
+        'WITH cheap AS (SELECT * FROM t_material_prices WHERE price_per_unit < 5), named AS (SELECT * FROM cheap) SELECT * FROM named',
+        options
+      )).toMatchObject({ ok: true, tables: ['t_material_prices'] })
+      expect(validateReadOnlySql(
+        'WITH RECURSIVE ids(id) AS (SELECT 1 UNION ALL SELECT id + 1 FROM ids WHERE id < 5) SELECT m.name FROM ids JOIN t_materials m ON m.id = ids.id',
+        options
+      )).toMatchObject({ ok: true, tables: ['t_materials'] })
+    })
+
+    it('accepts schema-qualified public tables and aggregates', () => {
+      const result = validateReadOnlySql(
+        'SELECT count(*), avg(cost_per_unit) FROM public.t_material_prices',
+        options
+      )
+      expect(result.ok).toBe(true)
+    })
+  })
+})
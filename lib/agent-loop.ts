@@ -0,0 +1,552 @@
+import type OpenAI from 'openai'
+import { getChatTools, executeTool } from './chat-tools'
+import { buildSources, AnswerSource } from './sources'
+import { filterPreamble } from './preamble-classifier'
+import { shapeToolResult, getShaperConfig } from './result-shaper'
+import { getSchemaCatalog } from './schema-catalog'
+import { createResultStore, ResultStore } from './result-store'
+import type { LlmProvider, LlmRequestOptions } from './llm-provider'
+
+const DEFAULT_MAX_ITERATIONS = 6
+const DEFAULT_MAX_DURATION_MS = 45000
+const DEFAULT_TOOL_CONCURRENCY = 4
+const DEFAULT_TOOL_TIMEOUT_MS = 15000
+// Share of the time budget kept for the final answer after the last tool turn
+const FINAL_ANSWER_SHARE = 0.2
+
+/**
+ * One tool invocation made by the model during the agent loop
+ */
+export interface ToolInvocation {
+  id: string
+  iteration: number
+  name: string
+  arguments: Record<string, any>
+  durationMs: number
+  // Characters sent to the model, and of the full result before shaping
+  resultSize: number
+  rawResultSize: number
+  rowCount: number | null
+  error: string | null
+  timedOut: boolean
+}
+
+export type AgentStopReason = 'completed' | 'max_iterations' | 'time_budget'
+
+/**
+ * Token usage summed over all completions of a request
+ */
+export interface TokenUsage {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+}
+
+/**
+ * Progress events emitted while the loop runs (used for streaming responses)
+ * A `discard` event tells the client to drop text streamed so far, because the model
+ * turned it into a tool-call turn instead of a final answer.
+ */
+export type AgentEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'discard' }
+  | { type: 'tool_started'; id: string; name: string; arguments: Record<string, any>; label: string }
+  | { type: 'tool_finished'; id: string; name: string; durationMs: number; rowCount: number | null; error: string | null }
+
+export interface AgentLoopOptions {
+  model?: string
+  temperature?: number
+  maxIterations?: number
+  maxDurationMs?: number
+  toolConcurrency?: number
+  toolTimeoutMs?: number
+  // Time (ms since the epoch) by which the request must be answered; defaults to
+  // maxDurationMs after the loop started. Every completion is aborted when it passes.
+  deadline?: number
+  // Aborted when the client disconnects; cancels running completions and queries
+  signal?: AbortSignal
+  onEvent?: (event: AgentEvent) => void
+}
+
+export interface AgentLoopResult {
+  content: string | null
+  trace: ToolInvocation[]
+  iterations: number
+  stopReason: AgentStopReason
+  durationMs: number
+  model: string
+  usage: TokenUsage
+  // Data tool calls behind the answer, with their rows
+  sources: AnswerSource[]
+  // Raw results of the successful tool calls, in call order
+  toolResults: any[]
+}
+
+function readPositiveInt(value: string | undefined, fallback: number) {
+  const parsed = value ? parseInt(value, 10) : NaN
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+/**
+ * Thrown when the request is cancelled while the agent loop runs
+ */
+export class AgentCancelledError extends Error {
+  constructor() {
+    super('Request was cancelled')
+    this.name = 'AgentCancelledError'
+  }
+}
+
+/**
+ * Budget for the agent loop, configurable via CHAT_MAX_ITERATIONS, CHAT_MAX_DURATION_MS,
+ * CHAT_TOOL_CONCURRENCY and CHAT_TOOL_TIMEOUT_MS
+ */
+export function getAgentBudget() {
+  return {
+    maxIterations: readPositiveInt(process.env.CHAT_MAX_ITERATIONS, DEFAULT_MAX_ITERATIONS),
+    maxDurationMs: readPositiveInt(process.env.CHAT_MAX_DURATION_MS, DEFAULT_MAX_DURATION_MS),
+    toolConcurrency: readPositiveInt(process.env.CHAT_TOOL_CONCURRENCY, DEFAULT_TOOL_CONCURRENCY),
+    toolTimeoutMs: readPositiveInt(process.env.CHAT_TOOL_TIMEOUT_MS, DEFAULT_TOOL_TIMEOUT_MS),
+  }
+}
+
+/**
+ * Time left until `deadline`, in ms (0 once it has passed)
+ */
+export function getRemainingMs(deadline: number) {
+  return Math.max(deadline - Date.now(), 0)
+}
+
+/**
+ * Sum of the token usage of several completions (e.g. the agent loop and the context summary)
+ */
+export function combineUsage(...usages: (TokenUsage | null | undefined)[]): TokenUsage {
+  const total: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+  for (const usage of usages) {
+    if (usage) {
+      total.promptTokens += usage.promptTokens
+      total.completionTokens += usage.completionTokens
+      total.totalTokens += usage.totalTokens
+    }
+  }
+  return total
+}
+
+function throwIfCancelled(signal: AbortSignal | undefined) {
+  if (signal?.aborted) {
+    throw new AgentCancelledError()
+  }
+}
+
+/**
+ * Short human readable label for a tool call, e.g. "queryTableWithJoin(t_materials, t_material_prices)"
+ */
+export function formatToolLabel(name: string, args: Record<string, any>) {
+  const values = Object.values(args).filter((value) => typeof value === 'string')
+  return `${name}(${values.join(', ')})`
+}
+
+function addUsage(total: TokenUsage, usage: OpenAI.CompletionUsage | null | undefined) {
+  if (usage) {
+    total.promptTokens += usage.prompt_tokens
+    total.completionTokens += usage.completion_tokens
+    total.totalTokens += usage.total_tokens
+  }
+}
+
+/**
+ * Request a completion, streaming it when an event listener is attached
+ * Content deltas are forwarded as long as the turn has not turned into a tool-call turn.
+ * Token usage of the completion is added to `usage`.
+ */
+async function requestCompletion(
+  llm: LlmProvider,
+  params: OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming,
+  usage: TokenUsage,
+  onEvent: ((event: AgentEvent) => void) | undefined,
+  request: LlmRequestOptions
+): Promise<{ content: string | null; tool_calls?: OpenAI.Chat.Completions.ChatCompletionMessageToolCall[] }> {
+  try {
+    return await readCompletion(llm, params, usage, onEvent, request)
+  } catch (err) {
+    // The SDK rejects with its own abort error; report it as a cancelled request
+    throwIfCancelled(request.signal)
+    throw err
+  }
+}
+
+async function readCompletion(
+  llm: LlmProvider,
+  params: OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming,
+  usage: TokenUsage,
+  onEvent: ((event: AgentEvent) => void) | undefined,
+  request: LlmRequestOptions
+): Promise<{ content: string | null; tool_calls?: OpenAI.Chat.Completions.ChatCompletionMessageToolCall[] }> {
+  if (!onEvent) {
+    const completion = await llm.complete(params, request)
+    addUsage(usage, completion.usage)
+    return completion.choices[0].message
+  }
+
+  const stream = await llm.stream(params, request)
+  const toolCalls: OpenAI.Chat.Completions.ChatCompletionMessageToolCall[] = []
+  let content = ''
+  let streamedContent = false
+
+  for await (const chunk of stream) {
+    // The last chunk carries the usage and no choices
+    addUsage(usage, chunk.usage)
+    const delta = chunk.choices[0]?.delta
+    if (!delta) {
+      continue
+    }
+
+    for (const toolCallDelta of delta.tool_calls || []) {
+      if (!toolCalls[toolCallDelta.index]) {
+        toolCalls[toolCallDelta.index] = { id: '', type: 'function', function: { name: '', arguments: '' } }
+      }
+      const toolCall = toolCalls[toolCallDelta.index]
+      if (toolCallDelta.id) toolCall.id = toolCallDelta.id
+      if (toolCallDelta.function?.name) toolCall.function.name += toolCallDelta.function.name
+      if (toolCallDelta.function?.arguments) toolCall.function.arguments += toolCallDelta.function.arguments
+    }
+
+    if (delta.content) {
+      content += delta.content
+      if (toolCalls.length === 0) {
+        streamedContent = true
+        onEvent({ type: 'delta', content: delta.content })
+      }
+    }
+  }
+
+  if (toolCalls.length > 0 && streamedContent) {
+    onEvent({ type: 'discard' })
+  }
+
+  return {
+    content: content || null,
+    tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+  }
+}
+
+/**
+ * Extract the error message and row count from a tool result for the trace
+ */
+function describeResult(result: any) {
+  const error = result && typeof result.error === 'string' ? result.error : null
+  let rowCount: number | null = null
+  if (result && Array.isArray(result.data)) {
+    rowCount = result.data.length
+  } else if (result && Array.isArray(result.rows)) {
+    rowCount = result.rows.length
+  } else if (result && Array.isArray(result.tables)) {
+    rowCount = result.tables.length
+  }
+  return { error, rowCount }
+}
+
+/**
+ * Raw results of the successful tool calls, in call order
+ */
+function collectToolResults(trace: ToolInvocation[], results: Map<string, any>) {
+  return trace
+    .filter((invocation) => !invocation.error)
+    .map((invocation) => results.get(invocation.id))
+}
+
+function safeParseArguments(args: string | undefined): Record<string, any> {
+  try {
+    return JSON.parse(args || '{}')
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Resolves once `signal` is aborted
+ */
+function whenAborted(signal: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    if (signal.aborted) {
+      resolve()
+    } else {
+      signal.addEventListener('abort', () => resolve(), { once: true })
+    }
+  })
+}
+
+/**
+ * Map `items` with at most `limit` calls of `fn` running at once; results keep the input order
+ */
+async function mapConcurrent<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index])
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+  return results
+}
+
+/**
+ * Run a single tool call with its own timeout
+ * The tool's queries are aborted when the timeout expires or the request is cancelled;
+ * a timeout goes back to the model as a structured error. The aborted call is still
+ * awaited, so nothing it started keeps running after the loop moved on.
+ */
+async function runToolCall(
+  toolCall: OpenAI.Chat.Completions.ChatCompletionMessageToolCall,
+  iteration: number,
+  context: { resultStore: ResultStore; timeoutMs: number; signal?: AbortSignal }
+): Promise<{ result: any; invocation: ToolInvocation }> {
+  const startedAt = Date.now()
+  const functionName = toolCall.function.name
+  const controller = new AbortController()
+  const cancel = () => controller.abort()
+  let timedOut = false
+  const timer = setTimeout(() => {
+    timedOut = true
+    controller.abort()
+  }, context.timeoutMs)
+  context.signal?.addEventListener('abort', cancel, { once: true })
+  let functionArgs: Record<string, any> = {}
+  let functionResult: any
+  let execution: Promise<unknown> | null = null
+
+  try {
+    functionArgs = JSON.parse(toolCall.function.arguments || '{}')
+    execution = executeTool(functionName, functionArgs, { resultStore: context.resultStore, signal: controller.signal })
+    functionResult = await Promise.race([execution, whenAborted(controller.signal)])
+  } catch (err) {
+    // Malformed arguments or an unexpected tool failure go back to the model so it can retry
+    functionResult = {
+      error: err instanceof Error ? `Tool call failed: ${err.message}` : 'Tool call failed',
+    }
+  } finally {
+    clearTimeout(timer)
+    context.signal?.removeEventListener('abort', cancel)
+  }
+  if (controller.signal.aborted && execution) {
+    await execution.catch(() => null)
+  }
+
+  if (timedOut) {
+    functionResult = {
+      error: `${functionName} timed out after ${context.timeoutMs} ms. Narrow the query (filters, fewer columns, a limit) or split it into smaller calls.`,
+      errorCode: 'timeout',
+      timeoutMs: context.timeoutMs,
+    }
+  } else if (controller.signal.aborted) {
+    functionResult = { error: 'Request was cancelled', errorCode: 'cancelled' }
+  }
+
+  const { error, rowCount } = describeResult(functionResult)
+
+  return {
+    result: functionResult,
+    invocation: {
+      id: toolCall.id,
+      iteration,
+      name: functionName,
+      arguments: functionArgs,
+      durationMs: Date.now() - startedAt,
+      // Set once the result is shaped for the model
+      resultSize: 0,
+      rawResultSize: JSON.stringify(functionResult)?.length || 0,
+      rowCount,
+      error,
+      timedOut,
+    },
+  }
+}
+
+/**
+ * Tool calls that ran before the agent loop failed, as attached to the error it threw
+ */
+export function getPartialTrace(error: unknown): ToolInvocation[] {
+  const trace = error && typeof error === 'object' ? (error as { trace?: unknown }).trace : undefined
+  return Array.isArray(trace) ? trace : []
+}
+
+/**
+ * Run the model with tools until it answers without requesting further tool calls
+ * Stops when the iteration or time budget is exhausted and then asks for a final answer
+ * based on the tool results gathered so far; part of the time budget is kept for that
+ * answer, and no completion runs past the deadline. When it fails, the tool calls that already
+ * ran stay available through getPartialTrace, so the audit log still records them.
+ */
+export async function runAgentLoop(
+  llm: LlmProvider,
+  messages: any[],
+  options: AgentLoopOptions = {}
+): Promise<AgentLoopResult> {
+  const trace: ToolInvocation[] = []
+  try {
+    return await runLoop(llm, messages, options, trace)
+  } catch (err) {
+    if (err && typeof err === 'object') {
+      Object.assign(err, { trace })
+    }
+    throw err
+  }
+}
+
+async function runLoop(
+  llm: LlmProvider,
+  messages: any[],
+  options: AgentLoopOptions,
+  trace: ToolInvocation[]
+): Promise<AgentLoopResult> {
+  const budget = getAgentBudget()
+  const model = options.model || llm.model
+  const temperature = options.temperature ?? llm.temperature
+  const maxIterations = options.maxIterations || budget.maxIterations
+  const maxDurationMs = options.maxDurationMs || budget.maxDurationMs
+  const toolConcurrency = options.toolConcurrency || budget.toolConcurrency
+  const toolTimeoutMs = options.toolTimeoutMs || budget.toolTimeoutMs
+  const { onEvent, signal } = options
+  const startedAt = Date.now()
+  const deadline = options.deadline ?? startedAt + maxDurationMs
+  // Tool turns end early enough to leave time for the final answer
+  const toolTurnDeadline = deadline - Math.round(maxDurationMs * FINAL_ANSWER_SHARE)
+  const usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+  const results = new Map<string, any>()
+  const resultStore = createResultStore()
+  // Text kept from tool-call turns; used when the final turn comes back empty
+  let toolTurnContent: string | null = null
+  let stopReason: AgentStopReason = 'max_iterations'
+  let iterations = 0
+
+  while (iterations < maxIterations) {
+    throwIfCancelled(signal)
+    if (Date.now() >= toolTurnDeadline) {
+      stopReason = 'time_budget'
+      break
+    }
+
+    iterations++
+    let responseMessage: Awaited<ReturnType<typeof requestCompletion>>
+    try {
+      responseMessage = await requestCompletion(llm, {
+        model,
+        messages,
+        tools: getChatTools(),
+        tool_choice: 'auto',
+        temperature, // Lower temperature to reduce hallucinations and be more factual
+      }, usage, onEvent, { signal, timeoutMs: getRemainingMs(toolTurnDeadline) })
+    } catch (err) {
+      if (Date.now() < toolTurnDeadline) {
+        throw err
+      }
+      // The budget ran out during the completion: drop what it streamed and answer now
+      onEvent?.({ type: 'discard' })
+      stopReason = 'time_budget'
+      break
+    }
+
+    if (!responseMessage.tool_calls || responseMessage.tool_calls.length === 0) {
+      return {
+        content: responseMessage.content || toolTurnContent,
+        trace,
+        iterations,
+        stopReason: 'completed',
+        durationMs: Date.now() - startedAt,
+        model,
+        usage,
+        sources: await buildSources(trace, results),
+        toolResults: collectToolResults(trace, results),
+      }
+    }
+
+    // Add the assistant's tool call request to the conversation (without content if it's just a preamble)
+    const keptContent = filterPreamble(responseMessage.content)
+    if (keptContent) {
+      toolTurnContent = keptContent
+    }
+    messages.push({
+      role: 'assistant',
+      content: keptContent,
+      tool_calls: responseMessage.tool_calls,
+    })
+
+    // Independent tool calls of one turn run concurrently
+    const outcomes = await mapConcurrent(responseMessage.tool_calls, toolConcurrency, async (toolCall) => {
+      if (onEvent) {
+        const args = safeParseArguments(toolCall.function.arguments)
+        onEvent({
+          type: 'tool_started',
+          id: toolCall.id,
+          name: toolCall.function.name,
+          arguments: args,
+          label: formatToolLabel(toolCall.function.name, args),
+        })
+      }
+      const outcome = await runToolCall(toolCall, iterations, { resultStore, timeoutMs: toolTimeoutMs, signal })
+      onEvent?.({
+        type: 'tool_finished',
+        id: outcome.invocation.id,
+        name: outcome.invocation.name,
+        durationMs: outcome.invocation.durationMs,
+        rowCount: outcome.invocation.rowCount,
+        error: outcome.invocation.error,
+      })
+      return outcome
+    })
+    throwIfCancelled(signal)
+
+    // Shaped in call order, so result ids do not depend on which call finished first;
+    // join keys are recognised from the catalog's foreign keys
+    const { catalog } = await getSchemaCatalog()
+    for (const { result, invocation } of outcomes) {
+      const table = typeof invocation.arguments.tableName === 'string' ? invocation.arguments.tableName : null
+      const content = JSON.stringify(shapeToolResult(invocation.name, result, resultStore, getShaperConfig(), { table, catalog }))
+      invocation.resultSize = content.length
+      trace.push(invocation)
+      results.set(invocation.id, result)
+      messages.push({
+        role: 'tool',
+        tool_call_id: invocation.id,
+        content,
+      })
+    }
+  }
+
+  // Budget exhausted: ask for an answer without tools so the request still ends with a reply
+  messages.push({
+    role: 'system',
+    content: 'The tool budget for this request is exhausted. Answer now using only the tool results above. If they are not sufficient, say which information is missing.',
+  })
+
+  throwIfCancelled(signal)
+  let finalMessage: Awaited<ReturnType<typeof requestCompletion>>
+  try {
+    finalMessage = await requestCompletion(llm, {
+      model,
+      messages,
+      temperature,
+    }, usage, onEvent, { signal, timeoutMs: getRemainingMs(deadline) })
+  } catch (err) {
+    if (Date.now() < deadline) {
+      throw err
+    }
+    throw new Error(`No answer within the time budget of ${maxDurationMs} ms`)
+  }
+
+  return {
+    content: finalMessage.content || toolTurnContent,
+    trace,
+    iterations,
+    stopReason,
+    durationMs: Date.now() - startedAt,
+    model,
+    usage,
+    sources: await buildSources(trace, results),
+    toolResults: collectToolResults(trace, results),
+  }
+}
@@ -0,0 +1,196 @@
+import { appendFileSync, mkdirSync, readFileSync, existsSync } from 'fs'
+import path from 'path'
+import { supabaseAdmin } from './supabase'
+import { resolveConfigPath } from './config-file'
+import { getTouchedTables } from './chat-tools'
+import type { ToolInvocation, TokenUsage } from './agent-loop'
+
+/**
+ * Audit log of chat requests: question, tool calls, model, token usage and answer
+ *
+ * Records go to the Supabase table `chat_audit_log` when the service role is configured,
+ * otherwise to a local JSONL file (AUDIT_LOG_PATH, default logs/chat-audit.jsonl).
+ * Writing an audit record never fails the chat request.
+ */
+
+const DEFAULT_AUDIT_LOG_PATH = 'logs/chat-audit.jsonl'
+const MAX_SEARCH_LIMIT = 500
+
+export interface AuditRecord {
+  id?: number | string
+  createdAt: string
+  userId: string | null
+  userEmail: string | null
+  role: string | null
+  conversationId: string | null
+  userMessage: string
+  toolCalls: ToolInvocation[]
+  tables: string[]
+  hasError: boolean
+  error: string | null
+  model: string | null
+  usage: TokenUsage | null
+  answer: string | null
+  stopReason: string | null
+  durationMs: number | null
+}
+
+export interface AuditSearch {
+  from?: string
+  to?: string
+  userId?: string
+  table?: string
+  hasError?: boolean
+  limit?: number
+  offset?: number
+}
+
+function getAuditLogPath() {
+  return resolveConfigPath(process.env.AUDIT_LOG_PATH || DEFAULT_AUDIT_LOG_PATH)
+}
+
+/**
+ * Build an audit record; tables and error status are derived from the tool calls
+ */
+export function buildAuditRecord(entry: Omit<AuditRecord, 'createdAt' | 'tables' | 'hasError'>): AuditRecord {
+  const tables = new Set<string>()
+  entry.toolCalls.forEach((invocation) => getTouchedTables(invocation).forEach((table) => tables.add(table)))
+
+  return {
+    ...entry,
+    createdAt: new Date().toISOString(),
+    tables: Array.from(tables).sort(),
+    hasError: !!entry.error || entry.toolCalls.some((invocation) => !!invocation.error),
+  }
+}
+
+function toRow(record: AuditRecord) {
+  return {
+    created_at: record.createdAt,
+    user_id: record.userId,
+    user_email: record.userEmail,
+    role: record.role,
+    conversation_id: record.conversationId,
+    user_message: record.userMessage,
+    tool_calls: record.toolCalls,
+    tables: record.tables,
+    has_error: record.hasError,
+    error: record.error,
+    model: record.model,
+    prompt_tokens: record.usage?.promptTokens ?? null,
+    completion_tokens: record.usage?.completionTokens ?? null,
+    total_tokens: record.usage?.totalTokens ?? null,
+    answer: record.answer,
+    stop_reason: record.stopReason,
+    duration_ms: record.durationMs,
+  }
+}
+
+function fromRow(row: Record<string, any>): AuditRecord {
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    userId: row.user_id,
+    userEmail: row.user_email,
+    role: row.role,
+    conversationId: row.conversation_id,
+    userMessage: row.user_message,
+    toolCalls: row.tool_calls || [],
+    tables: row.tables || [],
+    hasError: row.has_error,
+    error: row.error,
+    model: row.model,
+    usage: row.total_tokens === null || row.total_tokens === undefined
+      ? null
+      : { promptTokens: row.prompt_tokens, completionTokens: row.completion_tokens, totalTokens: row.total_tokens },
+    answer: row.answer,
+    stopReason: row.stop_reason,
+    durationMs: row.duration_ms,
+  }
+}
+
+/**
+ * Store an audit record; failures are logged, not thrown
+ */
+export async function recordAudit(record: AuditRecord) {
+  try {
+    if (supabaseAdmin) {
+      const { error } = await supabaseAdmin.from('chat_audit_log').insert(toRow(record))
+      if (error) {
+        throw new Error(error.message)
+      }
+      return { error: null }
+    }
+
+    const logPath = getAuditLogPath()
+    mkdirSync(path.dirname(logPath), { recursive: true })
+    appendFileSync(logPath, `${JSON.stringify(record)}\n`, 'utf8')
+    return { error: null }
+  } catch (err) {
+    console.error('Audit log error:', err)
+    return { error: err instanceof Error ? err.message : 'Failed to write audit record' }
+  }
+}
+
+function matchesSearch(record: AuditRecord, search: AuditSearch) {
+  if (search.from && record.createdAt < search.from) return false
+  if (search.to && record.createdAt > search.to) return false
+  if (search.userId && record.userId !== search.userId) return false
+  if (search.table && !record.tables.includes(search.table)) return false
+  if (search.hasError !== undefined && record.hasError !== search.hasError) return false
+  return true
+}
+
+/**
+ * Search audit records, newest first
+ */
+export async function searchAuditLog(search: AuditSearch = {}) {
+  const limit = Math.min(Math.max(search.limit || 50, 1), MAX_SEARCH_LIMIT)
+  const offset = Math.max(search.offset || 0, 0)
+
+  try {
+    if (supabaseAdmin) {
+      let query = supabaseAdmin
+        .from('chat_audit_log')
+        .select('*', { count: 'exact' })
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1)
+
+      if (search.from) query = query.gte('created_at', search.from)
+      if (search.to) query = query.lte('created_at', search.to)
+      if (search.userId) query = query.eq('user_id', search.userId)
+      if (search.table) query = query.contains('tables', [search.table])
+      if (search.hasError !== undefined) query = query.eq('has_error', search.hasError)
+
+      const { data, error, count } = await query
+      if (error) {
+        throw new Error(error.message)
+      }
+
+      return { data: (data || []).map(fromRow), totalCount: count, error: null }
+    }
+
+    const logPath = getAuditLogPath()
+    if (!existsSync(logPath)) {
+      return { data: [], totalCount: 0, error: null }
+    }
+
+    const records = readFileSync(logPath, 'utf8')
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line, index) => {
+        const record = JSON.parse(line) as AuditRecord
+        return { ...record, id: record.id ?? index + 1 }
+      })
+      .filter((record) => matchesSearch(record, search))
+      .reverse()
+
+    return { data: records.slice(offset, offset + limit), totalCount: records.length, error: null }
+  } catch (err) {
+    return {
+      data: null,
+      totalCount: null,
+      error: err instanceof Error ? err.message : 'Failed to search audit log',
+    }
+  }
+}
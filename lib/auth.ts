@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase, createUserClient } from './supabase'
+import { runWithRequestContext, RequestContext, SessionUser } from './request-context'
+import { fetchUserRole } from './roles'
+
+/**
+ * Session checks for the API routes (Supabase Auth)
+ *
+ * The browser sends the user's access token as `Authorization: Bearer <jwt>`.
+ * The token is verified with Supabase Auth on every request.
+ */
+
+function getBearerToken(req: Request) {
+  const header = req.headers.get('authorization') || ''
+  const match = header.match(/^Bearer\s+(.+)$/i)
+  return match ? match[1].trim() : null
+}
+
+/**
+ * Resolve the signed-in user of a request
+ */
+export async function getSessionUser(req: Request): Promise<{ user: SessionUser | null; accessToken: string | null; error: string | null }> {
+  const accessToken = getBearerToken(req)
+  if (!accessToken) {
+    return { user: null, accessToken: null, error: 'Not signed in' }
+  }
+
+  try {
+    const { data, error } = await supabase.auth.getUser(accessToken)
+    if (error || !data.user) {
+      return { user: null, accessToken: null, error: error?.message || 'Invalid session' }
+    }
+
+    return {
+      user: { id: data.user.id, email: data.user.email ?? null },
+      accessToken,
+      error: null,
+    }
+  } catch (err) {
+    return {
+      user: null,
+      accessToken: null,
+      error: err instanceof Error ? err.message : 'Session check failed',
+    }
+  }
+}
+
+/**
+ * Wrap a route handler so it only runs for signed-in users
+ * Requests without a valid session get a 401; the handler runs inside a request
+ * context carrying the user, their role and a Supabase client acting as that user.
+ */
+export function withSession<T = any>(
+  handler: (req: NextRequest, routeContext: T, session: RequestContext) => Promise<Response>
+) {
+  return async (req: NextRequest, routeContext: T) => {
+    const { user, accessToken, error } = await getSessionUser(req)
+
+    if (!user || !accessToken) {
+      return NextResponse.json(
+        { error: `Unauthorized: ${error}` },
+        { status: 401 }
+      )
+    }
+
+    const userClient = createUserClient(accessToken)
+    const session: RequestContext = {
+      user,
+      role: await fetchUserRole(userClient, user.id),
+      accessToken,
+      supabase: userClient,
+    }
+
+    return runWithRequestContext(session, () => handler(req, routeContext, session))
+  }
+}
@@ -0,0 +1,183 @@
+import { supabaseAdmin } from './supabase'
+import type { WriteAction } from './data-policy'
+
+/**
+ * Change sets of the write tools (table `chat_change_sets`)
+ *
+ * The proposeChanges tool stores the rows a write would touch, with their values before
+ * and after, as a pending change set. Nothing is written until the user confirms it in
+ * the chat; afterwards the change set stays as the audit trail of the write and is what
+ * undo restores from. Stored with the service role, like the audit log.
+ *
+ * All functions return `{ data, error }`; a missing change set is `{ data: null, error: null }`.
+ */
+
+export type ChangeSetStatus = 'pending' | 'applied' | 'rejected' | 'expired' | 'failed' | 'undone'
+
+export interface RowChange {
+  // Primary key of the row; null for inserted rows until they are applied
+  key: Record<string, any> | null
+  // Values of the changed columns before the write; null for inserts
+  before: Record<string, any> | null
+  after: Record<string, any>
+}
+
+export interface TableChange {
+  action: WriteAction
+  table: string
+  primaryKey: string[]
+  rows: RowChange[]
+}
+
+export interface ChangeSet {
+  id: string
+  createdAt: string
+  expiresAt: string
+  userId: string
+  userEmail: string | null
+  role: string | null
+  summary: string
+  status: ChangeSetStatus
+  changes: TableChange[]
+  tables: string[]
+  appliedAt: string | null
+  undoneAt: string | null
+  undoneBy: string | null
+  error: string | null
+}
+
+// What the model and the chat UI see of a change set
+export type ChangeSetView = Pick<ChangeSet, 'id' | 'summary' | 'status' | 'changes' | 'expiresAt' | 'appliedAt' | 'undoneAt' | 'error'>
+
+export type NewChangeSet = Pick<ChangeSet, 'userId' | 'userEmail' | 'role' | 'summary' | 'changes' | 'expiresAt'>
+
+export type ChangeSetUpdate = Partial<Pick<ChangeSet, 'status' | 'changes' | 'appliedAt' | 'undoneAt' | 'undoneBy' | 'error'>>
+
+function getClient() {
+  if (!supabaseAdmin) {
+    throw new Error('Write operations need the service role: set SUPABASE_SERVICE_ROLE_KEY')
+  }
+  return supabaseAdmin
+}
+
+function toErrorMessage(err: unknown, fallback: string) {
+  if (err instanceof Error) {
+    return err.message
+  }
+  if (err && typeof err === 'object' && 'message' in err) {
+    return String((err as { message: unknown }).message)
+  }
+  return fallback
+}
+
+const COLUMN_NAMES: Record<keyof ChangeSetUpdate, string> = {
+  status: 'status',
+  changes: 'changes',
+  appliedAt: 'applied_at',
+  undoneAt: 'undone_at',
+  undoneBy: 'undone_by',
+  error: 'error',
+}
+
+function fromRow(row: Record<string, any>): ChangeSet {
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    userId: row.user_id,
+    userEmail: row.user_email,
+    role: row.role,
+    summary: row.summary,
+    status: row.status,
+    changes: row.changes || [],
+    tables: row.tables || [],
+    appliedAt: row.applied_at ?? null,
+    undoneAt: row.undone_at ?? null,
+    undoneBy: row.undone_by ?? null,
+    error: row.error ?? null,
+  }
+}
+
+/**
+ * The fields of a change set shown to the model and in the chat
+ */
+export function toChangeSetView(changeSet: ChangeSet): ChangeSetView {
+  const { id, summary, status, changes, expiresAt, appliedAt, undoneAt, error } = changeSet
+  return { id, summary, status, changes, expiresAt, appliedAt, undoneAt, error }
+}
+
+/**
+ * Store a proposed change set as pending
+ */
+export async function createChangeSet(entry: NewChangeSet) {
+  try {
+    const { data, error } = await getClient()
+      .from('chat_change_sets')
+      .insert({
+        expires_at: entry.expiresAt,
+        user_id: entry.userId,
+        user_email: entry.userEmail,
+        role: entry.role,
+        summary: entry.summary,
+        status: 'pending',
+        changes: entry.changes,
+        tables: Array.from(new Set(entry.changes.map((change) => change.table))).sort(),
+      })
+      .select('*')
+
+    if (error) {
+      throw error
+    }
+
+    return { data: fromRow(data[0]), error: null }
+  } catch (err) {
+    return { data: null, error: toErrorMessage(err, 'Failed to store change set') }
+  }
+}
+
+/**
+ * Load a change set
+ */
+export async function getChangeSet(id: string) {
+  try {
+    const { data, error } = await getClient()
+      .from('chat_change_sets')
+      .select('*')
+      .eq('id', id)
+
+    if (error) {
+      throw error
+    }
+
+    return { data: data && data.length > 0 ? fromRow(data[0]) : null, error: null }
+  } catch (err) {
+    return { data: null, error: toErrorMessage(err, 'Failed to load change set') }
+  }
+}
+
+/**
+ * Update a change set if it still has the expected status
+ * Returns `{ data: null, error: null }` when another request changed the status first,
+ * so a change set is never applied or undone twice.
+ */
+export async function updateChangeSet(id: string, expectedStatus: ChangeSetStatus, update: ChangeSetUpdate) {
+  try {
+    const values = Object.fromEntries(
+      Object.entries(update).map(([field, value]) => [COLUMN_NAMES[field as keyof ChangeSetUpdate], value])
+    )
+    const { data, error } = await getClient()
+      .from('chat_change_sets')
+      .update(values)
+      .eq('id', id)
+      .eq('status', expectedStatus)
+      .select('*')
+
+    if (error) {
+      throw error
+    }
+
+    return { data: data && data.length > 0 ? fromRow(data[0]) : null, error: null }
+  } catch (err) {
+    return { data: null, error: toErrorMessage(err, 'Failed to update change set') }
+  }
+}
@@ -0,0 +1,562 @@
+import type OpenAI from 'openai'
+import { queryTable, getTableNames, getTableStructure, queryTableWithJoin, queryGraph, aggregateTable, runSql, getSqlTables } from './supabase-query'
+import { isToolAllowed } from './roles'
+import { validateReadOnlySql } from './sql-guard'
+import { getResultPage, ResultStore } from './result-store'
+import { proposeChanges } from './write-operations'
+
+const FILTER_DESCRIPTION = 'Optional filters. Simple equality: { "name": "Kupferrohr" }. Conditions: { "column": "cost_per_unit", "op": "gt", "value": 10 } with op one of eq, neq, gt, gte, lt, lte, in, notIn, isNull, isNotNull, between ([from, to]), like/ilike (exact pattern with % wildcards), contains, startsWith, endsWith. Combine with { "and": [...] }, { "or": [...] }, { "not": {...} }. Columns of a joined table are written as "joined_table.column"; an or/not group may only use columns of one table.'
+
+// Columns, filters, ordering and limit of one table in a queryGraph tree
+const GRAPH_NODE_PROPERTIES = {
+  columns: {
+    type: 'array',
+    items: {
+      type: 'string',
+    },
+    description: 'Optional columns of this table to return (default: all)',
+  },
+  filters: {
+    type: 'object',
+    description: `${FILTER_DESCRIPTION} Only columns of this table, without a table prefix.`,
+    additionalProperties: true,
+  },
+  orderBy: {
+    type: 'array',
+    description: 'Optional sort order of this table\'s rows, e.g. [{ "column": "valid_from", "direction": "desc" }]',
+    items: {
+      type: 'object',
+      properties: {
+        column: { type: 'string' },
+        direction: { type: 'string', enum: ['asc', 'desc'] },
+        nulls: { type: 'string', enum: ['first', 'last'] },
+      },
+      required: ['column'],
+    },
+  },
+  limit: {
+    type: 'number',
+    description: 'Optional maximum number of rows of this table (per parent row for relations; default for the root: 100)',
+  },
+}
+
+/**
+ * Tool (function calling) definitions exposed to the model in /api/chat
+ */
+export const CHAT_TOOLS: OpenAI.Chat.Completions.ChatCompletionTool[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'queryTable',
+      description: 'Query a table in the Supabase database with optional filters. Use this for simple queries on a single table.',
+      parameters: {
+        type: 'object',
+        properties: {
+          tableName: {
+            type: 'string',
+            description: 'The name of the table to query',
+          },
+          filters: {
+            type: 'object',
+            description: FILTER_DESCRIPTION,
+            additionalProperties: true,
+          },
+          limit: {
+            type: 'number',
+            description: 'Maximum number of results to return (default: 100)',
+            default: 100,
+          },
+          joins: {
+            type: 'array',
+            items: {
+              type: 'string',
+            },
+            description: 'Optional array of related tables to join. Use Supabase join syntax like ["prices(*)", "categories(*)"]',
+          },
+          orderBy: {
+            type: 'array',
+            description: 'Optional sort order, e.g. [{ "column": "price_per_unit", "direction": "desc" }] for "Top 5 most expensive"',
+            items: {
+              type: 'object',
+              properties: {
+                column: { type: 'string' },
+                direction: { type: 'string', enum: ['asc', 'desc'] },
+                nulls: { type: 'string', enum: ['first', 'last'] },
+              },
+              required: ['column'],
+            },
+          },
+          offset: {
+            type: 'number',
+            description: 'Optional number of rows to skip (use nextOffset from the previous result to fetch the next page)',
+          },
+          columns: {
+            type: 'array',
+            items: {
+              type: 'string',
+            },
+            description: 'Optional list of columns to return (default: all). Request only the columns you need.',
+          },
+        },
+        required: ['tableName'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'queryTableWithJoin',
+      description: 'Query a table with a join to a related table. Use this when data is spread across multiple tables. For "Einkaufspreise der Materialien", use queryTableWithJoin with t_materials and t_material_prices. The relationship is found from the foreign keys in the database (in either direction, many-to-many through a junction table, or across several tables such as materials → prices → suppliers), so you can call it directly without checking structure first. If several relationships qualify, the error lists them; call again with joinColumn or via.',
+      parameters: {
+        type: 'object',
+        properties: {
+          tableName: {
+            type: 'string',
+            description: 'The name of the main table to query (e.g., "t_materials", "materials")',
+          },
+          joinTable: {
+            type: 'string',
+            description: 'The name of the related table to join (e.g., "t_material_prices", "material_prices", "prices")',
+          },
+          joinColumn: {
+            type: 'string',
+            description: 'Optional: The foreign key column to use when the tables are connected by more than one foreign key (e.g. "material_id"). If not provided, it is detected from the schema.',
+          },
+          via: {
+            type: 'array',
+            items: {
+              type: 'string',
+            },
+            description: 'Optional: Tables the join must pass through, in order (e.g. ["t_material_prices"] to join t_materials with t_suppliers via the prices). Only needed when the error lists several relationships.',
+          },
+          filters: {
+            type: 'object',
+            description: `${FILTER_DESCRIPTION} Filters on joined-table columns only return main rows that have a matching joined row.`,
+            additionalProperties: true,
+          },
+          limit: {
+            type: 'number',
+            description: 'Maximum number of results to return (default: 100)',
+            default: 100,
+          },
+          orderBy: {
+            type: 'array',
+            description: 'Optional sort order, e.g. [{ "column": "price_per_unit", "direction": "desc" }] for "Top 5 most expensive"',
+            items: {
+              type: 'object',
+              properties: {
+                column: { type: 'string' },
+                direction: { type: 'string', enum: ['asc', 'desc'] },
+                nulls: { type: 'string', enum: ['first', 'last'] },
+              },
+              required: ['column'],
+            },
+          },
+          offset: {
+            type: 'number',
+            description: 'Optional number of rows to skip (use nextOffset from the previous result to fetch the next page)',
+          },
+          columns: {
+            type: 'array',
+            items: {
+              type: 'string',
+            },
+            description: 'Optional list of columns of the main table to return (default: all). Request only the columns you need.',
+          },
+          joinColumns: {
+            type: 'array',
+            items: {
+              type: 'string',
+            },
+            description: 'Optional list of columns of the joined table to return (default: all)',
+          },
+        },
+        required: ['tableName', 'joinTable'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'queryGraph',
+      description: 'Query a table together with several related tables in one call, as a tree: e.g. materials with their category and their last three prices. Every relation must be directly connected to its parent by a foreign key; nest relations to go further (materials > prices > suppliers). Each table has its own columns, filters, order and limit. Related rows are returned under the table name: an object for the referenced row (many-to-one), an array for referencing rows (one-to-many).',
+      parameters: {
+        type: 'object',
+        properties: {
+          tableName: {
+            type: 'string',
+            description: 'The root table',
+          },
+          ...GRAPH_NODE_PROPERTIES,
+          offset: {
+            type: 'number',
+            description: 'Optional number of root rows to skip (use nextOffset from the previous result to fetch the next page)',
+          },
+          relations: {
+            type: 'array',
+            description: 'Related tables to include',
+            items: {
+              type: 'object',
+              properties: {
+                table: {
+                  type: 'string',
+                  description: 'A table with a foreign key to or from the parent table',
+                },
+                joinColumn: {
+                  type: 'string',
+                  description: 'Optional foreign key column, when the tables are connected by more than one foreign key',
+                },
+                required: {
+                  type: 'boolean',
+                  description: 'Only return parent rows that have at least one matching row of this table (default: false)',
+                },
+                ...GRAPH_NODE_PROPERTIES,
+                relations: {
+                  type: 'array',
+                  description: 'Nested related tables, with the same fields as this relation',
+                  items: { type: 'object' },
+                },
+              },
+              required: ['table'],
+            },
+          },
+        },
+        required: ['tableName'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'aggregateTable',
+      description: 'Compute count, sum, avg, min or max over ALL matching rows of a table, optionally grouped by columns. Use this for totals, averages and extremes (e.g. "Wie viel kosten alle Materialien zusammen?", "Durchschnittlicher Einkaufspreis pro Kategorie") instead of adding up rows yourself.',
+      parameters: {
+        type: 'object',
+        properties: {
+          tableName: {
+            type: 'string',
+            description: 'The name of the table to aggregate',
+          },
+          aggregates: {
+            type: 'array',
+            description: 'Aggregates to compute',
+            items: {
+              type: 'object',
+              properties: {
+                function: {
+                  type: 'string',
+                  enum: ['count', 'sum', 'avg', 'min', 'max'],
+                },
+                column: {
+                  type: 'string',
+                  description: 'Column to aggregate (optional for count)',
+                },
+                alias: {
+                  type: 'string',
+                  description: 'Optional name of the result field (default: function_column)',
+                },
+              },
+              required: ['function'],
+            },
+          },
+          groupBy: {
+            type: 'array',
+            items: {
+              type: 'string',
+            },
+            description: 'Optional columns to group by',
+          },
+          filters: {
+            type: 'object',
+            description: `${FILTER_DESCRIPTION} Applied before aggregating.`,
+            additionalProperties: true,
+          },
+        },
+        required: ['tableName', 'aggregates'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'runSql',
+      description: 'Run a read-only PostgreSQL query for questions the other tools cannot express: joins across several tables, window functions, CTEs, subqueries. Only a single SELECT or WITH statement over the available tables is accepted; system functions and catalogs are rejected. A LIMIT and a statement timeout are applied. Returns the rows and the SQL that ran. Prefer queryTable, queryTableWithJoin and aggregateTable when they can answer the question.',
+      parameters: {
+        type: 'object',
+        properties: {
+          sql: {
+            type: 'string',
+            description: 'A single PostgreSQL SELECT or WITH ... SELECT statement. Check column names with getTableStructure first.',
+          },
+        },
+        required: ['sql'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'proposeChanges',
+      description: 'Propose inserting or updating rows. Nothing is written: the change is checked against the write policy, the current values of the affected rows are read, and the user sees the rows with their values before and after and has to confirm. Returns the pending change set. Deleting rows is not possible.',
+      parameters: {
+        type: 'object',
+        properties: {
+          summary: {
+            type: 'string',
+            description: 'Short description of the change for the user, in their language, e.g. "Verkaufspreis von Kupferrohr auf 12,50 € setzen"',
+          },
+          changes: {
+            type: 'array',
+            description: 'The changes, applied in this order when confirmed',
+            items: {
+              type: 'object',
+              properties: {
+                action: {
+                  type: 'string',
+                  enum: ['insert', 'update'],
+                },
+                table: {
+                  type: 'string',
+                  description: 'The table to change',
+                },
+                values: {
+                  type: 'object',
+                  description: 'Column values to set, e.g. { "price_per_unit": 12.5 }. Look up ids (e.g. material_id) with a query first.',
+                  additionalProperties: true,
+                },
+                where: {
+                  type: 'object',
+                  description: `Required for update: the rows to change, e.g. { "material_id": 1 }. ${FILTER_DESCRIPTION} Only columns of the changed table.`,
+                  additionalProperties: true,
+                },
+              },
+              required: ['action', 'table', 'values'],
+            },
+          },
+        },
+        required: ['summary', 'changes'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'getResultPage',
+      description: 'Read more rows of an earlier query result in this request. Large results are only shown in part (with "summarized": true and column statistics); pass their resultId to page through the full result without querying the database again.',
+      parameters: {
+        type: 'object',
+        properties: {
+          resultId: {
+            type: 'string',
+            description: 'The resultId of an earlier query result, e.g. "r1"',
+          },
+          offset: {
+            type: 'number',
+            description: 'Number of rows to skip (default: 0)',
+          },
+          limit: {
+            type: 'number',
+            description: 'Number of rows to return (default: 20, maximum: 100)',
+          },
+          columns: {
+            type: 'array',
+            items: {
+              type: 'string',
+            },
+            description: 'Optional subset of the result\'s columns to return',
+          },
+        },
+        required: ['resultId'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'getTableNames',
+      description: 'Get a list of available table names in the database',
+      parameters: {
+        type: 'object',
+        properties: {},
+        required: [],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'getTableStructure',
+      description: 'Get the structure of a specific table: column names, types, nullability, primary key and foreign-key relationships. Use this to understand what fields are available before querying.',
+      parameters: {
+        type: 'object',
+        properties: {
+          tableName: {
+            type: 'string',
+            description: 'The name of the table to get structure for',
+          },
+        },
+        required: ['tableName'],
+      },
+    },
+  },
+]
+
+/**
+ * Tables read or changed by a tool call, derived from its arguments
+ */
+export function getTouchedTables(invocation: { name: string; arguments: Record<string, any> }): string[] {
+  const args = invocation.arguments || {}
+  const tables = new Set<string>()
+
+  if (typeof args.tableName === 'string') {
+    tables.add(args.tableName)
+  }
+  if (typeof args.joinTable === 'string') {
+    tables.add(args.joinTable)
+  }
+  // Tables between the two sides of queryTableWithJoin are read as well
+  if (Array.isArray(args.via)) {
+    args.via.filter((table: unknown) => typeof table === 'string').forEach((table: string) => tables.add(table))
+  }
+  if (Array.isArray(args.joins)) {
+    for (const join of args.joins) {
+      // Same syntax as accepted by queryTable: "table", "table!fk" or "table(columns)"
+      const match = typeof join === 'string' ? join.trim().match(/^(\w+)(?:!\w+)*\s*(?:\(|$)/) : null
+      if (match) {
+        tables.add(match[1])
+      }
+    }
+  }
+  if (invocation.name === 'queryGraph') {
+    const addRelations = (relations: unknown) => {
+      for (const relation of Array.isArray(relations) ? relations : []) {
+        if (relation && typeof relation.table === 'string') {
+          tables.add(relation.table)
+          addRelations(relation.relations)
+        }
+      }
+    }
+    addRelations(args.relations)
+  }
+  if (Array.isArray(args.changes)) {
+    for (const change of args.changes) {
+      if (change && typeof change.table === 'string') {
+        tables.add(change.table)
+      }
+    }
+  }
+  if (invocation.name === 'runSql' && typeof args.sql === 'string') {
+    const validation = validateReadOnlySql(args.sql, { maxRows: 1, checkTable: () => null })
+    if (validation.ok) {
+      validation.tables.forEach((table) => tables.add(table))
+    }
+  }
+
+  return Array.from(tables)
+}
+
+/**
+ * Check whether a tool is offered to the current user: allowed for the role, and for
+ * runSql only when the data policy leaves it a table to read
+ */
+export function isToolAvailable(toolName: string) {
+  if (!isToolAllowed(toolName)) {
+    return false
+  }
+  return toolName !== 'runSql' || getSqlTables().length > 0
+}
+
+/**
+ * Tools available to the current user's role
+ */
+export function getChatTools() {
+  return CHAT_TOOLS.filter((tool) => isToolAvailable(tool.function.name))
+}
+
+/**
+ * Execute a tool call requested by the model
+ * Unknown functions are reported back as an error result instead of throwing.
+ * `resultStore` holds the full results of the current request for getResultPage;
+ * `signal` aborts the database requests of the call.
+ */
+export async function executeTool(
+  functionName: string,
+  functionArgs: Record<string, any>,
+  options: { resultStore?: ResultStore; signal?: AbortSignal } = {}
+) {
+  const { signal } = options
+
+  if (!isToolAllowed(functionName)) {
+    return { error: `Access denied: your role cannot use ${functionName}` }
+  }
+
+  if (functionName === 'queryTable') {
+    return queryTable(
+      functionArgs.tableName,
+      functionArgs.filters || {},
+      functionArgs.limit || 100,
+      functionArgs.joins,
+      {
+        orderBy: functionArgs.orderBy,
+        offset: functionArgs.offset,
+        columns: functionArgs.columns,
+        signal,
+      }
+    )
+  }
+
+  if (functionName === 'queryTableWithJoin') {
+    return queryTableWithJoin(
+      functionArgs.tableName,
+      functionArgs.joinTable,
+      functionArgs.joinColumn,
+      functionArgs.filters || {},
+      functionArgs.limit || 100,
+      {
+        orderBy: functionArgs.orderBy,
+        offset: functionArgs.offset,
+        columns: functionArgs.columns,
+        joinColumns: functionArgs.joinColumns,
+        via: Array.isArray(functionArgs.via) ? functionArgs.via : undefined,
+        signal,
+      }
+    )
+  }
+
+  if (functionName === 'queryGraph') {
+    const { tableName, offset, ...root } = functionArgs
+    return queryGraph({ ...root, table: tableName }, { offset, signal })
+  }
+
+  if (functionName === 'aggregateTable') {
+    return aggregateTable(
+      functionArgs.tableName,
+      functionArgs.aggregates || [],
+      functionArgs.groupBy || [],
+      functionArgs.filters || {},
+      { signal }
+    )
+  }
+
+  if (functionName === 'runSql') {
+    return runSql(functionArgs.sql, { signal })
+  }
+
+  if (functionName === 'proposeChanges') {
+    return proposeChanges(functionArgs, { signal })
+  }
+
+  if (functionName === 'getResultPage') {
+    return getResultPage(options.resultStore, functionArgs)
+  }
+
+  if (functionName === 'getTableNames') {
+    return getTableNames()
+  }
+
+  if (functionName === 'getTableStructure') {
+    return getTableStructure(functionArgs.tableName, { signal })
+  }
+
+  return { error: `Unknown function: ${functionName}` }
+}
@@ -0,0 +1,42 @@
+import { readFileSync, statSync } from 'fs'
+import path from 'path'
+
+interface CachedConfig {
+  mtimeMs: number
+  value: any
+}
+
+const cache = new Map<string, CachedConfig>()
+
+/**
+ * Resolve a config path relative to the project root
+ */
+export function resolveConfigPath(configPath: string) {
+  return path.isAbsolute(configPath) ? configPath : path.join(process.cwd(), configPath)
+}
+
+/**
+ * Read a JSON config file, re-reading it only when it changed on disk
+ * Returns the fallback (and the reason) when the file is missing or invalid.
+ */
+export function readJsonConfig<T>(configPath: string, fallback: T): { value: T; mtimeMs: number | null; error: string | null } {
+  const fullPath = resolveConfigPath(configPath)
+
+  try {
+    const { mtimeMs } = statSync(fullPath)
+    const cached = cache.get(fullPath)
+    if (cached && cached.mtimeMs === mtimeMs) {
+      return { value: cached.value, mtimeMs, error: null }
+    }
+
+    const value = JSON.parse(readFileSync(fullPath, 'utf8'))
+    cache.set(fullPath, { mtimeMs, value })
+    return { value, mtimeMs, error: null }
+  } catch (err) {
+    return {
+      value: fallback,
+      mtimeMs: null,
+      error: err instanceof Error ? `Could not read ${configPath}: ${err.message}` : `Could not read ${configPath}`,
+    }
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Typed or spoken replies to a pending change set ("Ja, bestätigen" / "Nein, verwerfen")
+ *
+ * Used in the browser: while a change set waits for confirmation, a message that only
+ * consists of these words is sent as the decision instead of a new question. A reply
+ * needs a decisive word; a bare "ja" is not enough to change data.
+ */
+
+export type ChangeSetDecision = 'confirm' | 'reject'
+
+const CONFIRM_WORDS = ['bestätigen', 'bestätige', 'bestätigt', 'übernehmen', 'ausführen', 'confirm', 'confirmed']
+const REJECT_WORDS = ['nein', 'abbrechen', 'verwerfen', 'verwerfe', 'ablehnen', 'cancel', 'reject', 'no']
+const FILLER_WORDS = ['ja', 'yes', 'bitte', 'ok', 'okay', 'das', 'die', 'änderung', 'änderungen', 'nicht', 'please']
+
+/**
+ * The decision a message expresses, or null for anything else
+ */
+export function parseConfirmationReply(text: string): ChangeSetDecision | null {
+  const words = text.toLowerCase().replace(/[.,!?;:"'„“()–-]/g, ' ').split(/\s+/).filter(Boolean)
+  if (words.length === 0 || words.some((word) => ![...CONFIRM_WORDS, ...REJECT_WORDS, ...FILLER_WORDS].includes(word))) {
+    return null
+  }
+
+  // "nicht übernehmen" rejects
+  const negated = words.includes('nicht')
+  const confirms = !negated && words.some((word) => CONFIRM_WORDS.includes(word))
+  const rejects = negated || words.some((word) => REJECT_WORDS.includes(word))
+  if (confirms === rejects) {
+    return null
+  }
+  return confirms ? 'confirm' : 'reject'
+}
@@ -0,0 +1,321 @@
+import type { LlmProvider, LlmRequestOptions } from './llm-provider'
+import type { TokenUsage } from './agent-loop'
+import type { AnswerSource } from './sources'
+
+/**
+ * Context window management for long conversations
+ *
+ * The history sent to the model is kept within a token budget (CONTEXT_MAX_TOKENS,
+ * including the system prompt). The system prompt and the most recent messages are
+ * kept verbatim; older messages are replaced by a rolling summary that keeps the
+ * entities they referred to (material names, ids, categories, filters), so follow-ups
+ * like "dafür" still resolve after many turns. Records behind older answers are listed
+ * deterministically from their sources, independent of the summary's wording.
+ *
+ * Stored conversations keep the summary in the assistant message metadata
+ * (`metadata.context.summary`) and extend it on later turns instead of summarizing the
+ * whole history again.
+ */
+
+const DEFAULT_MAX_TOKENS = 16000
+const DEFAULT_RECENT_MESSAGES = 6
+const DEFAULT_SUMMARY_MAX_TOKENS = 600
+
+// Rough token estimate without a tokenizer: ~4 characters per token plus per-message overhead
+const CHARS_PER_TOKEN = 4
+const MESSAGE_OVERHEAD_TOKENS = 4
+
+// Share of the free budget filled with recent messages when a summary is (re)written; the
+// rest leaves room for the next turns, so the summary is not rewritten on every turn
+const RECENT_FILL_RATIO = 0.75
+
+const MAX_REFERENCED_IDS = 20
+const MAX_TRANSCRIPT_MESSAGE_LENGTH = 2000
+
+const SUMMARY_INSTRUCTIONS = `Summarize the earlier part of a conversation between a user and a database assistant so the conversation can continue without it.
+- Write in the language of the conversation, as a compact list of facts.
+- Keep every entity reference verbatim: material names, ids, categories, suppliers, table names, filters, dates and the values that were reported.
+- Say which records the most recent questions were about, so references like "dafür", "davon" or "those" can be resolved.
+- Leave out greetings and how the assistant phrased things.`
+
+export interface ContextConfig {
+  maxTokens: number
+  // Messages at the end of the history that are always kept verbatim
+  recentMessages: number
+  summaryMaxTokens: number
+}
+
+export interface HistoryMessage {
+  role: 'system' | 'user' | 'assistant' | 'function' | 'tool'
+  content: string | null
+  tool_calls?: any[]
+  tool_call_id?: string
+  // Sources of a stored assistant answer (used to list the records it referred to)
+  sources?: AnswerSource[]
+}
+
+export interface ContextSummary {
+  text: string
+  // Number of history messages (from the start) the summary covers
+  coveredMessages: number
+}
+
+export interface ContextDecision {
+  budget: number
+  systemTokens: number
+  historyTokens: number
+  contextTokens: number
+  truncated: boolean
+  keptMessages: number
+  summarizedMessages: number
+  summary: (ContextSummary & {
+    tokens: number
+    // 'reused': unchanged from an earlier turn, 'llm': written or extended by the model,
+    // 'fallback': the model call failed and only questions and references were kept
+    method: 'reused' | 'llm' | 'fallback'
+    // Tokens spent on the summary completion
+    usage: TokenUsage | null
+  }) | null
+}
+
+function readPositiveInt(value: string | undefined, fallback: number) {
+  const parsed = value ? parseInt(value, 10) : NaN
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+/**
+ * Budget from CONTEXT_MAX_TOKENS, CONTEXT_RECENT_MESSAGES and CONTEXT_SUMMARY_MAX_TOKENS
+ */
+export function getContextConfig(): ContextConfig {
+  return {
+    maxTokens: readPositiveInt(process.env.CONTEXT_MAX_TOKENS, DEFAULT_MAX_TOKENS),
+    recentMessages: readPositiveInt(process.env.CONTEXT_RECENT_MESSAGES, DEFAULT_RECENT_MESSAGES),
+    summaryMaxTokens: readPositiveInt(process.env.CONTEXT_SUMMARY_MAX_TOKENS, DEFAULT_SUMMARY_MAX_TOKENS),
+  }
+}
+
+/**
+ * Estimated token count of a text
+ */
+export function countTokens(text: string | null | undefined) {
+  return text ? Math.ceil(text.length / CHARS_PER_TOKEN) : 0
+}
+
+/**
+ * Estimated token count of a chat message, including tool calls
+ */
+export function countMessageTokens(message: { content?: string | null; tool_calls?: unknown }) {
+  return MESSAGE_OVERHEAD_TOKENS
+    + countTokens(message.content)
+    + (message.tool_calls ? countTokens(JSON.stringify(message.tool_calls)) : 0)
+}
+
+/**
+ * Records the given answers were based on, one line per table and filter
+ * e.g. "t_materials (category=Rohre): ids 1, 4"
+ */
+export function listReferences(messages: HistoryMessage[]) {
+  const references = new Map<string, Set<string>>()
+
+  for (const source of messages.flatMap((message) => message.sources || [])) {
+    const table = source.table || source.tables.join(', ')
+    if (!table) {
+      continue
+    }
+    const filters = source.filters
+      ? ` (${Object.entries(source.filters).map(([column, value]) => `${column}=${typeof value === 'object' ? JSON.stringify(value) : value}`).join(', ')})`
+      : ''
+    const key = `${table}${filters}`
+    const ids = references.get(key) || new Set<string>()
+    for (const id of source.rowIds) {
+      if (id !== null) ids.add(typeof id === 'object' ? JSON.stringify(id) : String(id))
+    }
+    references.set(key, ids)
+  }
+
+  return Array.from(references, ([key, ids]) => {
+    const list = Array.from(ids)
+    if (list.length === 0) {
+      return key
+    }
+    const shown = list.slice(0, MAX_REFERENCED_IDS).join(', ')
+    return `${key}: ids ${shown}${list.length > MAX_REFERENCED_IDS ? ` (+${list.length - MAX_REFERENCED_IDS})` : ''}`
+  })
+}
+
+function formatTranscript(messages: HistoryMessage[]) {
+  return messages
+    .filter((message) => message.content)
+    .map((message) => {
+      const label = message.role === 'user' ? 'User' : message.role === 'assistant' ? 'Assistant' : 'Tool result'
+      return `${label}: ${(message.content || '').slice(0, MAX_TRANSCRIPT_MESSAGE_LENGTH)}`
+    })
+    .join('\n\n')
+}
+
+/**
+ * Summary without the model: the user's questions and the referenced records
+ */
+function fallbackSummary(previous: string | null, messages: HistoryMessage[], maxTokens: number) {
+  const maxLength = maxTokens * CHARS_PER_TOKEN
+  const questions = messages
+    .filter((message) => message.role === 'user')
+    .map((message) => `- ${(message.content || '').replace(/\s+/g, ' ').slice(0, 200)}`)
+  const text = [previous, ...questions].filter(Boolean).join('\n')
+  return text.length > maxLength ? `…${text.slice(text.length - maxLength)}` : text
+}
+
+/**
+ * Write a new summary, or extend `previous` with the given messages
+ */
+export async function summarizeMessages(
+  llm: LlmProvider,
+  previous: string | null,
+  messages: HistoryMessage[],
+  options: { maxTokens: number; request?: LlmRequestOptions }
+): Promise<{ text: string; method: 'llm' | 'fallback'; usage: TokenUsage | null }> {
+  try {
+    const completion = await llm.complete({
+      model: llm.model,
+      temperature: 0,
+      max_tokens: options.maxTokens,
+      messages: [
+        { role: 'system', content: SUMMARY_INSTRUCTIONS },
+        {
+          role: 'user',
+          content: previous
+            ? `Summary so far:\n${previous}\n\nContinuation of the conversation:\n${formatTranscript(messages)}\n\nWrite the updated summary.`
+            : `Conversation:\n${formatTranscript(messages)}\n\nWrite the summary.`,
+        },
+      ],
+    }, options.request)
+    const text = completion.choices[0].message.content?.trim()
+    if (text) {
+      const usage = completion.usage
+        ? { promptTokens: completion.usage.prompt_tokens, completionTokens: completion.usage.completion_tokens, totalTokens: completion.usage.total_tokens }
+        : null
+      return { text, method: 'llm', usage }
+    }
+  } catch (err) {
+    console.error('Context summary error:', err)
+  }
+  return { text: fallbackSummary(previous, messages, options.maxTokens), method: 'fallback', usage: null }
+}
+
+function summaryMessage(summary: string, references: string[], coveredMessages: number) {
+  return {
+    role: 'system' as const,
+    content: [
+      `Summary of the first ${coveredMessages} messages of this conversation (no longer shown verbatim):`,
+      summary,
+      ...(references.length > 0 ? ['', 'Records referred to in those messages:', ...references.map((line) => `- ${line}`)] : []),
+    ].join('\n'),
+  }
+}
+
+/**
+ * Messages for the model within the token budget, and what was dropped or summarized
+ *
+ * `previousSummary` is the summary stored with an earlier turn; it is reused as long as
+ * the messages after it fit, and extended when more have to go. `request` bounds the
+ * summary completion (client disconnect, rest of the time budget).
+ */
+export async function buildContext(
+  llm: LlmProvider,
+  params: {
+    systemPrompt: string
+    history: HistoryMessage[]
+    previousSummary?: ContextSummary | null
+    config?: ContextConfig
+    request?: LlmRequestOptions
+  }
+): Promise<{ messages: any[]; decision: ContextDecision }> {
+  const config = params.config || getContextConfig()
+  const { history } = params
+  const systemMessage = { role: 'system' as const, content: params.systemPrompt }
+  const systemTokens = countMessageTokens(systemMessage)
+  const messageTokens = history.map((message) => countMessageTokens(message))
+  const historyTokens = messageTokens.reduce((sum, tokens) => sum + tokens, 0)
+  // Tool calls and tool call ids are kept for histories that contain tool turns
+  const verbatim = history.map((message) => ({
+    role: message.role,
+    content: message.content,
+    ...(message.tool_calls ? { tool_calls: message.tool_calls } : {}),
+    ...(message.tool_call_id ? { tool_call_id: message.tool_call_id } : {}),
+  }))
+
+  const decision: ContextDecision = {
+    budget: config.maxTokens,
+    systemTokens,
+    historyTokens,
+    contextTokens: systemTokens + historyTokens,
+    truncated: false,
+    keptMessages: history.length,
+    summarizedMessages: 0,
+    summary: null,
+  }
+
+  if (systemTokens + historyTokens <= config.maxTokens) {
+    return { messages: [systemMessage, ...verbatim], decision }
+  }
+
+  const truncatedContext = (
+    cut: number,
+    summary: { text: string; method: 'reused' | 'llm' | 'fallback'; usage: TokenUsage | null }
+  ) => {
+    const summarized = summaryMessage(summary.text, listReferences(history.slice(0, cut)), cut)
+    const summaryTokens = countMessageTokens(summarized)
+    const keptTokens = messageTokens.slice(cut).reduce((sum, tokens) => sum + tokens, 0)
+    return {
+      messages: [systemMessage, summarized, ...verbatim.slice(cut)],
+      decision: {
+        ...decision,
+        contextTokens: systemTokens + summaryTokens + keptTokens,
+        truncated: true,
+        keptMessages: history.length - cut,
+        summarizedMessages: cut,
+        summary: { ...summary, coveredMessages: cut, tokens: summaryTokens },
+      },
+    }
+  }
+
+  // The stored summary still works when everything after it fits
+  const previous = params.previousSummary && params.previousSummary.coveredMessages < history.length
+    ? params.previousSummary
+    : null
+  if (previous) {
+    const reused = truncatedContext(previous.coveredMessages, { text: previous.text, method: 'reused', usage: null })
+    if (reused.decision.contextTokens <= config.maxTokens) {
+      return reused
+    }
+  }
+
+  // Keep the most recent messages that fit next to the system prompt and the summary,
+  // at least `recentMessages`, starting with a user message
+  const available = (config.maxTokens - systemTokens - config.summaryMaxTokens) * RECENT_FILL_RATIO
+  let cut = history.length
+  let keptTokens = 0
+  while (cut > 0) {
+    const next = keptTokens + messageTokens[cut - 1]
+    if (history.length - cut >= config.recentMessages && next > available) {
+      break
+    }
+    keptTokens = next
+    cut--
+  }
+  while (cut < history.length - 1 && history[cut].role !== 'user') {
+    cut++
+  }
+
+  if (cut === 0) {
+    return { messages: [systemMessage, ...verbatim], decision }
+  }
+
+  // Extend the stored summary with the messages that no longer fit, or start a new one
+  const base = previous && previous.coveredMessages <= cut ? previous : null
+  const summary = await summarizeMessages(llm, base?.text || null, history.slice(base?.coveredMessages || 0, cut), {
+    maxTokens: config.summaryMaxTokens,
+    request: params.request,
+  })
+  return truncatedContext(cut, summary)
+}
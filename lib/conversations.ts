@@ -0,0 +1,279 @@
+import { getRequestContext } from './request-context'
+
+/**
+ * Server-side conversation storage (tables `conversations` and `conversation_messages`)
+ *
+ * Queries run as the signed-in user; RLS limits them to the user's own conversations.
+ * All functions return `{ data, error }`. A missing conversation is reported as
+ * `{ data: null, error: null }` so routes can answer with 404.
+ */
+
+export const DEFAULT_CONVERSATION_TITLE = 'Neue Unterhaltung'
+
+const MAX_TITLE_LENGTH = 80
+
+export type ConversationRole = 'user' | 'assistant'
+
+export interface Conversation {
+  id: string
+  title: string
+  created_at: string
+  updated_at: string
+}
+
+export interface ConversationMessage {
+  id: number
+  conversation_id: string
+  role: ConversationRole
+  content: string
+  metadata: Record<string, any> | null
+  created_at: string
+}
+
+export interface NewConversationMessage {
+  role: ConversationRole
+  content: string
+  metadata?: Record<string, any> | null
+  createdAt?: string
+}
+
+function getClient() {
+  const context = getRequestContext()
+  if (!context) {
+    throw new Error('Conversations require a signed-in user')
+  }
+  return context.supabase
+}
+
+function toErrorMessage(err: unknown, fallback: string) {
+  if (err instanceof Error) {
+    return err.message
+  }
+  if (err && typeof err === 'object' && 'message' in err) {
+    return String((err as { message: unknown }).message)
+  }
+  return fallback
+}
+
+/**
+ * Title derived from the first user message
+ */
+export function deriveTitle(content: string) {
+  const singleLine = content.replace(/\s+/g, ' ').trim()
+  if (!singleLine) {
+    return DEFAULT_CONVERSATION_TITLE
+  }
+  return singleLine.length > MAX_TITLE_LENGTH ? `${singleLine.slice(0, MAX_TITLE_LENGTH - 1)}…` : singleLine
+}
+
+/**
+ * Validate messages coming from a request body
+ * Returns an error message for the first invalid entry.
+ */
+export function validateMessages(messages: unknown): string | null {
+  if (!Array.isArray(messages)) {
+    return 'messages must be an array'
+  }
+  for (const [index, message] of messages.entries()) {
+    if (!message || (message.role !== 'user' && message.role !== 'assistant')) {
+      return `messages[${index}].role must be "user" or "assistant"`
+    }
+    if (typeof message.content !== 'string') {
+      return `messages[${index}].content must be a string`
+    }
+  }
+  return null
+}
+
+/**
+ * List conversations, most recently active first
+ */
+export async function listConversations(limit = 100) {
+  try {
+    const { data, error } = await getClient()
+      .from('conversations')
+      .select('id, title, created_at, updated_at')
+      .order('updated_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      throw error
+    }
+
+    return { data: (data || []) as Conversation[], error: null }
+  } catch (err) {
+    return { data: null, error: toErrorMessage(err, 'Failed to list conversations') }
+  }
+}
+
+/**
+ * Create a conversation, optionally with initial messages (used to import local history)
+ */
+export async function createConversation(title?: string, messages: NewConversationMessage[] = []) {
+  try {
+    const firstUserMessage = messages.find((message) => message.role === 'user')
+    const { data, error } = await getClient()
+      .from('conversations')
+      .insert({
+        title: title?.trim() || (firstUserMessage ? deriveTitle(firstUserMessage.content) : DEFAULT_CONVERSATION_TITLE),
+      })
+      .select('id, title, created_at, updated_at')
+      .single()
+
+    if (error) {
+      throw error
+    }
+
+    const conversation = data as Conversation
+    if (messages.length > 0) {
+      const appended = await appendMessages(conversation.id, messages)
+      if (appended.error) {
+        await deleteConversation(conversation.id)
+        return { data: null, error: appended.error }
+      }
+    }
+
+    return { data: conversation, error: null }
+  } catch (err) {
+    return { data: null, error: toErrorMessage(err, 'Failed to create conversation') }
+  }
+}
+
+/**
+ * Load a conversation with all of its messages in order
+ */
+export async function getConversation(id: string) {
+  try {
+    const client = getClient()
+    const { data: conversation, error } = await client
+      .from('conversations')
+      .select('id, title, created_at, updated_at')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      throw error
+    }
+    if (!conversation) {
+      return { data: null, error: null }
+    }
+
+    const { data: messages, error: messagesError } = await client
+      .from('conversation_messages')
+      .select('id, conversation_id, role, content, metadata, created_at')
+      .eq('conversation_id', id)
+      .order('id', { ascending: true })
+
+    if (messagesError) {
+      throw messagesError
+    }
+
+    return {
+      data: {
+        conversation: conversation as Conversation,
+        messages: (messages || []) as ConversationMessage[],
+      },
+      error: null,
+    }
+  } catch (err) {
+    return { data: null, error: toErrorMessage(err, 'Failed to load conversation') }
+  }
+}
+
+/**
+ * Rename a conversation
+ */
+export async function renameConversation(id: string, title: string) {
+  try {
+    const { data, error } = await getClient()
+      .from('conversations')
+      .update({ title: title.trim().slice(0, MAX_TITLE_LENGTH) || DEFAULT_CONVERSATION_TITLE })
+      .eq('id', id)
+      .select('id, title, created_at, updated_at')
+      .maybeSingle()
+
+    if (error) {
+      throw error
+    }
+
+    return { data: (data as Conversation | null) || null, error: null }
+  } catch (err) {
+    return { data: null, error: toErrorMessage(err, 'Failed to rename conversation') }
+  }
+}
+
+/**
+ * Delete a conversation and its messages
+ */
+export async function deleteConversation(id: string) {
+  try {
+    const { data, error } = await getClient()
+      .from('conversations')
+      .delete()
+      .eq('id', id)
+      .select('id')
+      .maybeSingle()
+
+    if (error) {
+      throw error
+    }
+
+    return { data: data ? { id: data.id as string } : null, error: null }
+  } catch (err) {
+    return { data: null, error: toErrorMessage(err, 'Failed to delete conversation') }
+  }
+}
+
+/**
+ * Append messages to a conversation and mark it as recently active
+ * The default title is replaced by one derived from the first user message.
+ */
+export async function appendMessages(id: string, messages: NewConversationMessage[]) {
+  try {
+    const client = getClient()
+    const { data: conversation, error: loadError } = await client
+      .from('conversations')
+      .select('id, title')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (loadError) {
+      throw loadError
+    }
+    if (!conversation) {
+      return { data: null, error: null }
+    }
+
+    const { data, error } = await client
+      .from('conversation_messages')
+      .insert(
+        messages.map((message) => ({
+          conversation_id: id,
+          role: message.role,
+          content: message.content,
+          metadata: message.metadata ?? null,
+          ...(message.createdAt ? { created_at: message.createdAt } : {}),
+        }))
+      )
+      .select('id, conversation_id, role, content, metadata, created_at')
+
+    if (error) {
+      throw error
+    }
+
+    const firstUserMessage = messages.find((message) => message.role === 'user')
+    const update: Record<string, string> = { updated_at: new Date().toISOString() }
+    if (conversation.title === DEFAULT_CONVERSATION_TITLE && firstUserMessage) {
+      update.title = deriveTitle(firstUserMessage.content)
+    }
+
+    const { error: updateError } = await client.from('conversations').update(update).eq('id', id)
+    if (updateError) {
+      throw updateError
+    }
+
+    return { data: (data || []) as ConversationMessage[], error: null }
+  } catch (err) {
+    return { data: null, error: toErrorMessage(err, 'Failed to append messages') }
+  }
+}
@@ -0,0 +1,303 @@
+import { readJsonConfig } from './config-file'
+import { getRolesConfig, getCurrentRole, RoleTablePolicy } from './roles'
+
+/**
+ * Data access policy for the chatbot's database tools (config/data-policy.json)
+ *
+ * Only tables listed in the policy are exposed. Per table, the exposed columns can be
+ * restricted with an allowlist (`columns`) or a denylist (`deniedColumns`), and columns
+ * holding personal data can be masked or redacted before results reach the model.
+ * RPCs must be listed explicitly to be callable.
+ *
+ * Queries run under the signed-in user's JWT so RLS applies; tables listed in
+ * `serviceRoleTables` are read with the service role instead.
+ *
+ * Within a request, the user's role (config/roles.json) narrows the policy further.
+ *
+ * Tables are read-only unless their policy has a `write` section allowing inserts and/or
+ * updates of listed columns. The chatbot never proposes deletes; `delete` only allows
+ * undoing inserts, which removes the inserted rows again.
+ */
+
+const DEFAULT_POLICY_PATH = 'config/data-policy.json'
+
+export type MaskMode = 'redact' | 'mask'
+
+export type WriteAction = 'insert' | 'update'
+
+export interface WritePolicy {
+  insert?: boolean
+  update?: boolean
+  // Removing inserted rows when a change set is undone
+  delete?: boolean
+  // Columns that may be set; nothing is writable without this list
+  columns?: string[]
+}
+
+export interface TablePolicy {
+  columns?: string[]
+  deniedColumns?: string[]
+  masked?: Record<string, MaskMode>
+  write?: WritePolicy
+}
+
+export interface DataPolicy {
+  tables: Record<string, TablePolicy>
+  rpcs: string[]
+  serviceRoleTables: string[]
+}
+
+const EMPTY_POLICY: DataPolicy = { tables: {}, rpcs: [], serviceRoleTables: [] }
+
+// Plain column names: an alias ("x:column"), cast ("column::text") or embed would return
+// the value under a key the policy does not know
+const COLUMN_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+// Effective policies per role, rebuilt when the policy or roles file changes
+const rolePolicyCache = new Map<string, DataPolicy>()
+
+/**
+ * Narrow a write policy with a role override: actions must be allowed by both,
+ * writable columns intersect
+ */
+function restrictWritePolicy(base: WritePolicy | undefined, override: WritePolicy | undefined): WritePolicy | undefined {
+  if (!base || !override) {
+    return base
+  }
+  return {
+    insert: !!base.insert && override.insert !== false,
+    update: !!base.update && override.update !== false,
+    delete: !!base.delete && override.delete !== false,
+    columns: override.columns
+      ? (base.columns || []).filter((column) => override.columns!.includes(column))
+      : base.columns,
+  }
+}
+
+/**
+ * Narrow a table policy with a role override: denied and masked columns add up,
+ * column allowlists intersect
+ */
+function restrictTablePolicy(base: TablePolicy, override: RoleTablePolicy): TablePolicy {
+  const columns = base.columns && override.columns
+    ? base.columns.filter((column) => override.columns!.includes(column))
+    : base.columns || override.columns
+  const deniedColumns = [...(base.deniedColumns || []), ...(override.deniedColumns || [])]
+  const masked = { ...(base.masked || {}), ...(override.masked || {}) }
+  const write = restrictWritePolicy(base.write, override.write)
+
+  return {
+    ...(columns ? { columns } : {}),
+    ...(deniedColumns.length > 0 ? { deniedColumns } : {}),
+    ...(Object.keys(masked).length > 0 ? { masked } : {}),
+    ...(write ? { write } : {}),
+  }
+}
+
+/**
+ * Load the policy; a missing or invalid file denies everything
+ * Within a request, the policy is narrowed by the overrides of the user's role.
+ */
+export function getDataPolicy(): { policy: DataPolicy; mtimeMs: number | null; error: string | null } {
+  const policyPath = process.env.DATA_POLICY_PATH || DEFAULT_POLICY_PATH
+  const { value, mtimeMs, error } = readJsonConfig<DataPolicy>(policyPath, EMPTY_POLICY)
+
+  if (error) {
+    console.error('Data policy error:', error)
+  }
+
+  const policy: DataPolicy = {
+    tables: value.tables || {},
+    rpcs: value.rpcs || [],
+    serviceRoleTables: value.serviceRoleTables || [],
+  }
+
+  const role = getCurrentRole()
+  if (!role) {
+    return { policy, mtimeMs, error }
+  }
+
+  const { config, mtimeMs: rolesMtimeMs } = getRolesConfig()
+  const cacheKey = `${role}:${mtimeMs ?? 'none'}:${rolesMtimeMs ?? 'none'}`
+  let rolePolicy = rolePolicyCache.get(cacheKey)
+
+  if (!rolePolicy) {
+    const overrides = config.roles[role]?.tables || {}
+    const tables: Record<string, TablePolicy> = {}
+    for (const [tableName, tablePolicy] of Object.entries(policy.tables)) {
+      const override = overrides[tableName]
+      if (override?.hidden) {
+        continue
+      }
+      tables[tableName] = override ? restrictTablePolicy(tablePolicy, override) : tablePolicy
+    }
+    rolePolicy = { ...policy, tables }
+    rolePolicyCache.set(cacheKey, rolePolicy)
+  }
+
+  return { policy: rolePolicy, mtimeMs, error }
+}
+
+/**
+ * Check whether a table may be read; returns an error message when access is denied
+ */
+export function checkTableAccess(tableName: string): string | null {
+  const { policy } = getDataPolicy()
+  if (!policy.tables[tableName]) {
+    return `Access denied: table "${tableName}" is not available to the chatbot. Use getTableNames to see the available tables.`
+  }
+  return null
+}
+
+/**
+ * Check whether a column of an exposed table may be read
+ */
+export function isColumnAllowed(tableName: string, column: string) {
+  const tablePolicy = getDataPolicy().policy.tables[tableName]
+  if (!tablePolicy) {
+    return false
+  }
+  if (tablePolicy.columns && !tablePolicy.columns.includes(column)) {
+    return false
+  }
+  return !tablePolicy.deniedColumns?.includes(column)
+}
+
+/**
+ * Check a list of columns of one table; returns an error message for the first denied column
+ * Only plain column names are accepted, so the check applies to the key the value comes back under.
+ * `masked` columns can be read but not used for filtering, sorting or aggregation,
+ * otherwise their values could be inferred.
+ */
+export function checkColumnAccess(
+  tableName: string,
+  columns: string[],
+  options: { allowMasked?: boolean } = {}
+): string | null {
+  const tablePolicy = getDataPolicy().policy.tables[tableName]
+
+  for (const column of columns) {
+    if (column === '*') {
+      continue
+    }
+    if (!COLUMN_NAME_PATTERN.test(column)) {
+      return `Invalid column name "${column}" for table "${tableName}". Use plain column names without aliases, casts or embedded tables.`
+    }
+    if (!isColumnAllowed(tableName, column)) {
+      return `Access denied: column "${tableName}.${column}" is not available to the chatbot.`
+    }
+    if (!options.allowMasked && tablePolicy?.masked?.[column]) {
+      return `Access denied: column "${tableName}.${column}" contains protected data and cannot be used for filtering, sorting or aggregation.`
+    }
+  }
+
+  return null
+}
+
+const WRITE_ACTION_LABELS: Record<WriteAction | 'delete', string> = {
+  insert: 'adding rows to',
+  update: 'changing rows of',
+  delete: 'removing rows from',
+}
+
+/**
+ * Check whether rows of a table may be inserted or updated with the given columns, or deleted
+ * Writable columns must also be readable and unmasked, so the change can be shown
+ * to the user before it is applied.
+ */
+export function checkWriteAccess(tableName: string, action: WriteAction | 'delete', columns: string[]): string | null {
+  const tableError = checkTableAccess(tableName)
+  if (tableError) {
+    return tableError
+  }
+
+  const tablePolicy = getDataPolicy().policy.tables[tableName]
+  if (!tablePolicy.write?.[action]) {
+    return `Access denied: ${WRITE_ACTION_LABELS[action]} table "${tableName}" is not allowed.`
+  }
+  for (const column of columns) {
+    const writable = tablePolicy.write.columns?.includes(column)
+    if (!writable || !isColumnAllowed(tableName, column) || tablePolicy.masked?.[column]) {
+      return `Access denied: column "${tableName}.${column}" cannot be changed by the chatbot. Writable columns: ${(tablePolicy.write.columns || []).join(', ') || 'none'}`
+    }
+  }
+
+  return null
+}
+
+/**
+ * Select list for a table that only fetches allowed columns
+ * Returns "*" when the table has no column allowlist.
+ */
+export function getSelectableColumns(tableName: string, requested?: string[]) {
+  if (requested && requested.length > 0) {
+    return requested.join(', ')
+  }
+  const tablePolicy = getDataPolicy().policy.tables[tableName]
+  return tablePolicy?.columns ? tablePolicy.columns.join(', ') : '*'
+}
+
+/**
+ * Tables from a list that are exposed by the policy
+ */
+export function filterAllowedTables(tableNames: string[]) {
+  const { policy } = getDataPolicy()
+  return tableNames.filter((tableName) => !!policy.tables[tableName])
+}
+
+/**
+ * Check whether an RPC may be called
+ */
+export function checkRpcAccess(functionName: string): string | null {
+  const { policy } = getDataPolicy()
+  if (!policy.rpcs.includes(functionName)) {
+    return `Access denied: RPC "${functionName}" is not callable by the chatbot.`
+  }
+  return null
+}
+
+function maskValue(value: any, mode: MaskMode) {
+  if (value === null || value === undefined) {
+    return value
+  }
+  if (mode === 'redact') {
+    return '[REDACTED]'
+  }
+  const text = String(value)
+  return text.length <= 4 ? '****' : `${'*'.repeat(text.length - 2)}${text.slice(-2)}`
+}
+
+/**
+ * Remove denied columns and mask protected values in query results
+ * Embedded rows of joined tables (keys named after the table) are processed recursively.
+ * Joins to tables that are not exposed are rejected before the query runs.
+ */
+export function applyColumnPolicy(tableName: string, rows: any): any {
+  if (Array.isArray(rows)) {
+    return rows.map((row) => applyColumnPolicy(tableName, row))
+  }
+  if (!rows || typeof rows !== 'object') {
+    return rows
+  }
+
+  const { policy } = getDataPolicy()
+  const tablePolicy = policy.tables[tableName]
+  const result: Record<string, any> = {}
+
+  for (const [key, value] of Object.entries(rows)) {
+    // Keys named after an exposed table hold embedded rows; anything else (including json) is a column
+    if (value !== null && typeof value === 'object' && policy.tables[key]) {
+      result[key] = applyColumnPolicy(key, value)
+      continue
+    }
+
+    if (!tablePolicy || !isColumnAllowed(tableName, key)) {
+      continue
+    }
+
+    const maskMode = tablePolicy.masked?.[key]
+    result[key] = maskMode ? maskValue(value, maskMode) : value
+  }
+
+  return result
+}
@@ -0,0 +1,436 @@
+import type { LlmProvider, LlmRequestOptions } from './llm-provider'
+import type { TokenUsage } from './agent-loop'
+
+/**
+ * Numeric grounding check for final answers
+ *
+ * Every number, currency amount and date in an answer must be traceable to the tool
+ * results of the same request (or to the user's question). Values are compared after
+ * normalising German and English number formats, allowing for rounding to the precision
+ * shown in the answer and for simple sums (column totals, sums and differences of two
+ * fields of the same row).
+ *
+ * GROUNDING_MODE decides what happens with ungrounded answers:
+ * - off: no check
+ * - flag (default): verdict in the response metadata only
+ * - annotate: a warning is appended to the answer
+ * - regenerate: the model is asked once to correct the answer; if that fails, annotate
+ */
+
+export type GroundingMode = 'off' | 'flag' | 'annotate' | 'regenerate'
+
+export type ClaimKind = 'number' | 'currency' | 'date'
+
+export interface GroundingClaim {
+  text: string
+  kind: ClaimKind
+  grounded: boolean
+  matchedBy: 'exact' | 'rounded' | 'sum' | 'question' | null
+}
+
+export interface GroundingVerdict {
+  mode: GroundingMode
+  status: 'grounded' | 'ungrounded' | 'no_claims' | 'not_checked'
+  claims: GroundingClaim[]
+  ungroundedClaims: string[]
+  action: 'none' | 'flagged' | 'annotated' | 'regenerated'
+}
+
+const MODES: GroundingMode[] = ['off', 'flag', 'annotate', 'regenerate']
+
+// Plain integers below this are not checked (list numbering, "Top 3", small counts)
+const MIN_CHECKED_INTEGER = 10
+
+// Rows per result array considered for derived values (sums, differences)
+const MAX_ROWS_FOR_DERIVED_VALUES = 200
+
+const CURRENCY_PATTERN = /^(?:€|eur|euro|\$|usd|chf|£)/i
+const CURRENCY_BEFORE_PATTERN = /(?:€|eur|euro|\$|usd|chf|£)\s*$/i
+
+const MONTHS: Record<string, number> = {
+  januar: 1, jänner: 1, january: 1, jan: 1,
+  februar: 2, february: 2, feb: 2,
+  märz: 3, maerz: 3, march: 3, mär: 3, mar: 3,
+  april: 4, apr: 4,
+  mai: 5, may: 5,
+  juni: 6, june: 6, jun: 6,
+  juli: 7, july: 7, jul: 7,
+  august: 8, aug: 8,
+  september: 9, sep: 9, sept: 9,
+  oktober: 10, october: 10, okt: 10, oct: 10,
+  november: 11, nov: 11,
+  dezember: 12, december: 12, dez: 12, dec: 12,
+}
+
+export function getGroundingMode(): GroundingMode {
+  const mode = (process.env.GROUNDING_MODE || 'flag').toLowerCase() as GroundingMode
+  return MODES.includes(mode) ? mode : 'flag'
+}
+
+interface NumberReading {
+  value: number
+  decimals: number
+}
+
+/**
+ * Possible readings of a number token; "1.234" and "1,234" are ambiguous between
+ * German and English notation and yield both readings
+ */
+export function parseNumberToken(token: string): NumberReading[] {
+  const negative = /^[-−]/.test(token)
+  const digits = token.replace(/^[-−]\s?/, '').replace(/'/g, '')
+  const sign = negative ? -1 : 1
+  const read = (normalized: string): NumberReading => ({
+    value: sign * parseFloat(normalized),
+    decimals: normalized.includes('.') ? normalized.split('.')[1].length : 0,
+  })
+
+  const dots = (digits.match(/\./g) || []).length
+  const commas = (digits.match(/,/g) || []).length
+
+  if (dots > 0 && commas > 0) {
+    // The last separator is the decimal separator
+    return digits.lastIndexOf(',') > digits.lastIndexOf('.')
+      ? [read(digits.replace(/\./g, '').replace(',', '.'))]
+      : [read(digits.replace(/,/g, ''))]
+  }
+
+  const separator = dots > 0 ? '.' : commas > 0 ? ',' : null
+  if (!separator) {
+    return [read(digits)]
+  }
+
+  const count = separator === '.' ? dots : commas
+  const parts = digits.split(separator)
+  if (count > 1) {
+    return [read(parts.join(''))]
+  }
+
+  const asDecimal = read(`${parts[0]}.${parts[1]}`)
+  if (parts[1].length === 3) {
+    return [asDecimal, read(parts.join(''))]
+  }
+  return [asDecimal]
+}
+
+function toIsoDate(year: number, month: number, day: number) {
+  if (month < 1 || month > 12 || day < 1 || day > 31) {
+    return null
+  }
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+interface ExtractedClaim {
+  text: string
+  kind: ClaimKind
+  readings: NumberReading[]
+  date: string | null
+}
+
+/**
+ * Extract numbers, currency amounts and dates from a text
+ */
+export function extractClaims(text: string): ExtractedClaim[] {
+  const claims: ExtractedClaim[] = []
+  let remaining = text
+
+  const datePatterns: Array<[RegExp, (match: RegExpExecArray) => string | null]> = [
+    [/\b(\d{4})-(\d{2})-(\d{2})(?:[T ][\d:.]+Z?)?\b/g, (m) => toIsoDate(+m[1], +m[2], +m[3])],
+    [/\b(\d{1,2})\.(\d{1,2})\.(\d{4})\b/g, (m) => toIsoDate(+m[3], +m[2], +m[1])],
+    [/\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b/g, (m) => toIsoDate(+m[3], +m[2], +m[1])],
+    [/\b(\d{1,2})\.?\s+([A-Za-zÄÖÜäöü]+)\.?\s+(\d{4})\b/g, (m) => {
+      const month = MONTHS[m[2].toLowerCase()]
+      return month ? toIsoDate(+m[3], month, +m[1]) : null
+    }],
+  ]
+
+  for (const [pattern, toDate] of datePatterns) {
+    remaining = remaining.replace(pattern, (...args) => {
+      const match = args.slice(0, -2) as unknown as RegExpExecArray
+      const date = toDate(match)
+      if (!date) {
+        return match[0]
+      }
+      claims.push({ text: match[0], kind: 'date', readings: [], date })
+      return ' '.repeat(match[0].length)
+    })
+  }
+
+  const numberPattern = /(?<![A-Za-z_\d.,])(?:[-−]\s?)?\d+(?:[.,']\d+)*/g
+  let match: RegExpExecArray | null
+  while ((match = numberPattern.exec(remaining)) !== null) {
+    const token = match[0]
+    const before = remaining.slice(Math.max(0, match.index - 5), match.index)
+    const after = remaining.slice(match.index + token.length, match.index + token.length + 6).trimStart()
+    const isCurrency = CURRENCY_PATTERN.test(after) || CURRENCY_BEFORE_PATTERN.test(before)
+    const readings = parseNumberToken(token)
+
+    const isSmallInteger = readings.length === 1 && readings[0].decimals === 0 && Math.abs(readings[0].value) < MIN_CHECKED_INTEGER
+    if (isSmallInteger && !isCurrency) {
+      continue
+    }
+
+    claims.push({ text: token, kind: isCurrency ? 'currency' : 'number', readings, date: null })
+  }
+
+  return claims
+}
+
+interface ValueIndex {
+  numbers: number[]
+  derived: number[]
+  dates: Set<string>
+}
+
+// Primary and foreign keys ("id", "material_id"): their sums are no real values
+const KEY_COLUMN_PATTERN = /(^|_)id$/i
+
+function isKeyColumn(column: string) {
+  return KEY_COLUMN_PATTERN.test(column)
+}
+
+function toNumber(value: unknown) {
+  if (typeof value === 'number') {
+    return value
+  }
+  return typeof value === 'string' && /^-?\d+(\.\d+)?$/.test(value) ? parseFloat(value) : null
+}
+
+/**
+ * Collect the values of tool results: numbers, numeric strings, dates, counts and simple sums
+ * Sums and differences leave out key columns, so ids cannot make arbitrary numbers look grounded.
+ */
+export function indexToolResults(results: any[]): ValueIndex {
+  const numbers: number[] = []
+  const derived: number[] = []
+  const dates = new Set<string>()
+
+  const addString = (value: string) => {
+    const isoDate = value.match(/^(\d{4})-(\d{2})-(\d{2})/)
+    if (isoDate) {
+      dates.add(`${isoDate[1]}-${isoDate[2]}-${isoDate[3]}`)
+      numbers.push(+isoDate[1])
+      return
+    }
+    for (const claim of extractClaims(value)) {
+      claim.readings.forEach((reading) => numbers.push(reading.value))
+      if (claim.date) {
+        dates.add(claim.date)
+      }
+    }
+  }
+
+  // Measures of a row; ids and foreign keys are not added up
+  const numericFields = (row: Record<string, any>) =>
+    Object.entries(row)
+      .filter(([key]) => !isKeyColumn(key))
+      .map(([, value]) => toNumber(value))
+      .filter((value): value is number => value !== null)
+
+  const visit = (value: any) => {
+    if (value === null || value === undefined) {
+      return
+    }
+    if (typeof value === 'number') {
+      numbers.push(value)
+      return
+    }
+    if (typeof value === 'string') {
+      addString(value)
+      return
+    }
+    if (Array.isArray(value)) {
+      numbers.push(value.length)
+      const rows = value.slice(0, MAX_ROWS_FOR_DERIVED_VALUES).filter((row) => row && typeof row === 'object' && !Array.isArray(row))
+
+      // Column totals
+      const totals = new Map<string, number>()
+      for (const row of rows) {
+        for (const [key, field] of Object.entries(row)) {
+          const numeric = isKeyColumn(key) ? null : toNumber(field)
+          if (numeric !== null) {
+            totals.set(key, (totals.get(key) || 0) + numeric)
+          }
+        }
+      }
+      derived.push(...Array.from(totals.values()))
+
+      // Sums and differences of two fields of the same row (e.g. margin = price - cost)
+      for (const row of rows) {
+        const fields = numericFields(row)
+        for (let i = 0; i < fields.length; i++) {
+          for (let j = i + 1; j < fields.length; j++) {
+            derived.push(fields[i] + fields[j], fields[i] - fields[j], fields[j] - fields[i])
+          }
+        }
+      }
+
+      value.forEach(visit)
+      return
+    }
+    if (typeof value === 'object') {
+      Object.values(value).forEach(visit)
+    }
+  }
+
+  results.forEach(visit)
+  return { numbers, derived, dates }
+}
+
+function matchesReading(reading: NumberReading, candidates: number[]): 'exact' | 'rounded' | null {
+  const tolerance = 0.5 * Math.pow(10, -reading.decimals) + 1e-9
+  let rounded = false
+  for (const candidate of candidates) {
+    const difference = Math.abs(candidate - reading.value)
+    if (difference < 1e-9) {
+      return 'exact'
+    }
+    if (difference <= tolerance) {
+      rounded = true
+    }
+  }
+  return rounded ? 'rounded' : null
+}
+
+/**
+ * Check the claims of an answer against the tool results of the request
+ * Numbers and dates that appear in the user's question count as grounded.
+ */
+export function verifyAnswer(
+  answer: string,
+  toolResults: any[],
+  options: { question?: string; mode?: GroundingMode } = {}
+): GroundingVerdict {
+  const mode = options.mode || getGroundingMode()
+  const extracted = extractClaims(answer)
+
+  if (extracted.length === 0) {
+    return { mode, status: 'no_claims', claims: [], ungroundedClaims: [], action: 'none' }
+  }
+
+  const index = indexToolResults(toolResults)
+  const questionClaims = options.question ? extractClaims(options.question) : []
+  const questionNumbers = questionClaims.flatMap((claim) => claim.readings.map((reading) => reading.value))
+  const questionDates = new Set(questionClaims.map((claim) => claim.date).filter(Boolean))
+
+  const claims: GroundingClaim[] = extracted.map((claim) => {
+    if (claim.kind === 'date') {
+      const grounded = index.dates.has(claim.date!) || questionDates.has(claim.date!)
+      return {
+        text: claim.text,
+        kind: claim.kind,
+        grounded,
+        matchedBy: index.dates.has(claim.date!) ? 'exact' : grounded ? 'question' : null,
+      }
+    }
+
+    let matchedBy: GroundingClaim['matchedBy'] = null
+    for (const reading of claim.readings) {
+      const direct = matchesReading(reading, index.numbers)
+      if (direct) {
+        matchedBy = direct
+        break
+      }
+      if (matchesReading(reading, index.derived)) {
+        matchedBy = 'sum'
+        break
+      }
+      if (matchesReading(reading, questionNumbers) === 'exact') {
+        matchedBy = 'question'
+        break
+      }
+    }
+
+    return { text: claim.text, kind: claim.kind, grounded: matchedBy !== null, matchedBy }
+  })
+
+  const ungroundedClaims = claims.filter((claim) => !claim.grounded).map((claim) => claim.text)
+
+  return {
+    mode,
+    status: ungroundedClaims.length > 0 ? 'ungrounded' : 'grounded',
+    claims,
+    ungroundedClaims,
+    action: 'none',
+  }
+}
+
+/**
+ * Warning appended to answers in annotate mode
+ */
+export function annotateAnswer(answer: string, ungroundedClaims: string[]) {
+  return `${answer}\n\n⚠️ Hinweis: Folgende Werte konnten in den Datenbank-Ergebnissen nicht gefunden werden und sind möglicherweise falsch: ${ungroundedClaims.join(', ')}`
+}
+
+/**
+ * Verify the final answer of a request and apply the configured mode
+ * `messages` is the conversation including the tool results, used for regeneration;
+ * `request` bounds that completion, and its token usage is returned.
+ */
+export async function groundAnswer(
+  llm: LlmProvider,
+  params: {
+    answer: string
+    toolResults: any[]
+    question: string
+    messages: any[]
+    model: string
+    request?: LlmRequestOptions
+  }
+): Promise<{ content: string; verdict: GroundingVerdict; usage: TokenUsage | null }> {
+  const mode = getGroundingMode()
+  if (mode === 'off') {
+    return {
+      content: params.answer,
+      verdict: { mode, status: 'not_checked', claims: [], ungroundedClaims: [], action: 'none' },
+      usage: null,
+    }
+  }
+
+  const verdict = verifyAnswer(params.answer, params.toolResults, { question: params.question, mode })
+  if (verdict.status !== 'ungrounded') {
+    return { content: params.answer, verdict, usage: null }
+  }
+
+  console.warn('Ungrounded values in answer:', verdict.ungroundedClaims)
+
+  if (mode === 'flag') {
+    return { content: params.answer, verdict: { ...verdict, action: 'flagged' }, usage: null }
+  }
+
+  let usage: TokenUsage | null = null
+  if (mode === 'regenerate') {
+    try {
+      const completion = await llm.complete({
+        model: params.model,
+        temperature: 0,
+        messages: [
+          ...params.messages,
+          { role: 'assistant', content: params.answer },
+          {
+            role: 'system',
+            content: `These values in your answer do not appear in the tool results: ${verdict.ungroundedClaims.join(', ')}. Rewrite the answer using only values that appear in the tool results above. Do not call tools and do not mention this correction.`,
+          },
+        ],
+      }, params.request)
+      usage = completion.usage
+        ? { promptTokens: completion.usage.prompt_tokens, completionTokens: completion.usage.completion_tokens, totalTokens: completion.usage.total_tokens }
+        : null
+      const regenerated = completion.choices[0].message.content
+      if (regenerated) {
+        const retry = verifyAnswer(regenerated, params.toolResults, { question: params.question, mode })
+        if (retry.status !== 'ungrounded') {
+          return { content: regenerated, verdict: { ...retry, action: 'regenerated' }, usage }
+        }
+      }
+    } catch (err) {
+      console.error('Grounding regeneration error:', err)
+    }
+  }
+
+  return {
+    content: annotateAnswer(params.answer, verdict.ungroundedClaims),
+    verdict: { ...verdict, action: 'annotated' },
+    usage,
+  }
+}
@@ -0,0 +1,170 @@
+import { getRelationships, SchemaCatalog } from './schema-catalog'
+import { checkTableAccess, filterAllowedTables } from './data-policy'
+
+/**
+ * Join paths between two tables from the schema catalog's foreign keys
+ *
+ * A path is a list of steps, each following one foreign key:
+ * - many-to-one: the current table references the next one (t_material_prices.material_id → t_materials)
+ * - one-to-many: the next table references the current one
+ * Many-to-many relationships are two steps through a junction table that references both
+ * sides; multi-hop joins (t_materials → t_material_prices → t_suppliers) are longer paths.
+ *
+ * The shortest path wins. When several foreign keys or several paths of the same length
+ * qualify, the resolver reports them instead of picking one; `joinColumn` or `via`
+ * select among them. Paths only pass through tables exposed by the data policy, so
+ * neither the result nor an error message mentions a table the user cannot read.
+ */
+
+const MAX_HOPS = 3
+
+export interface JoinStep {
+  from: string
+  table: string
+  // Foreign key column, on `from` (many-to-one) or on `table` (one-to-many)
+  column: string
+  kind: 'many-to-one' | 'one-to-many'
+}
+
+export interface JoinPathOptions {
+  // Foreign key column the path must use
+  joinColumn?: string
+  // Tables the path must pass through, in order
+  via?: string[]
+}
+
+/**
+ * Direct steps from a table to its exposed neighbours, optionally only to `target`
+ */
+function stepsFrom(catalog: SchemaCatalog, allowed: Set<string>, tableName: string, target?: string): JoinStep[] {
+  const { outgoing, incoming } = getRelationships(catalog, tableName)
+  const steps: JoinStep[] = [
+    ...outgoing.map((fk) => ({ from: tableName, table: fk.referencedTable, column: fk.column, kind: 'many-to-one' as const })),
+    // A self-referencing key is already listed as outgoing
+    ...incoming
+      .filter((fk) => fk.table !== tableName)
+      .map((fk) => ({ from: tableName, table: fk.table, column: fk.column, kind: 'one-to-many' as const })),
+  ].filter((step) => allowed.has(step.table))
+  return target ? steps.filter((step) => step.table === target) : steps
+}
+
+/**
+ * All paths of at most MAX_HOPS steps that do not visit a table twice
+ */
+function findPaths(catalog: SchemaCatalog, allowed: Set<string>, from: string, to: string): JoinStep[][] {
+  if (from === to) {
+    return stepsFrom(catalog, allowed, from, to).map((step) => [step])
+  }
+
+  const paths: JoinStep[][] = []
+  const walk = (path: JoinStep[], visited: Set<string>) => {
+    const current = path.length > 0 ? path[path.length - 1].table : from
+    for (const step of stepsFrom(catalog, allowed, current)) {
+      if (step.table === to) {
+        paths.push([...path, step])
+      } else if (!visited.has(step.table) && path.length + 1 < MAX_HOPS) {
+        walk([...path, step], new Set(visited).add(step.table))
+      }
+    }
+  }
+  walk([], new Set([from]))
+  return paths
+}
+
+/**
+ * Readable form of a step, e.g. "t_materials ← t_material_prices.material_id"
+ */
+function describeStep(step: JoinStep) {
+  return step.kind === 'many-to-one'
+    ? `${step.from}.${step.column} → ${step.table}`
+    : `${step.from} ← ${step.table}.${step.column}`
+}
+
+/**
+ * Readable form of a path; a junction table of a many-to-many step is marked as such
+ */
+export function describeJoinPath(path: JoinStep[]) {
+  return path
+    .map((step, index) => {
+      const next = path[index + 1]
+      const isJunction = step.kind === 'one-to-many' && next?.kind === 'many-to-one'
+      return `${describeStep(step)}${isJunction ? ' (junction)' : ''}`
+    })
+    .join(', ')
+}
+
+function relatedTables(catalog: SchemaCatalog, allowed: Set<string>, tableName: string) {
+  return Array.from(new Set(stepsFrom(catalog, allowed, tableName).map((step) => step.table))).join(', ') || 'none'
+}
+
+/**
+ * The join path from `from` to `to`, or an error listing the candidates when it is ambiguous
+ */
+export function resolveJoinPath(
+  catalog: SchemaCatalog,
+  from: string,
+  to: string,
+  options: JoinPathOptions = {}
+): { path: JoinStep[] | null; error: string | null } {
+  const via = options.via || []
+  const allowed = new Set(filterAllowedTables(Object.keys(catalog.tables)))
+  for (const name of [from, ...via, to]) {
+    if (!catalog.tables[name]) {
+      return {
+        path: null,
+        error: `Table "${name}" does not exist. Available tables: ${Array.from(allowed).sort().join(', ')}`,
+      }
+    }
+    const accessError = checkTableAccess(name)
+    if (accessError) {
+      return { path: null, error: accessError }
+    }
+  }
+
+  let candidates: JoinStep[][]
+  if (via.length > 0) {
+    // Every hop of a given route must be a direct foreign key
+    const tables = [from, ...via, to]
+    candidates = [[]]
+    for (let i = 0; i < tables.length - 1; i++) {
+      const hops = stepsFrom(catalog, allowed, tables[i], tables[i + 1])
+      if (hops.length === 0) {
+        return {
+          path: null,
+          error: `No foreign key relationship between "${tables[i]}" and "${tables[i + 1]}". Tables related to "${tables[i]}": ${relatedTables(catalog, allowed, tables[i])}`,
+        }
+      }
+      candidates = candidates.flatMap((path) => hops.map((hop) => [...path, hop]))
+    }
+  } else {
+    candidates = findPaths(catalog, allowed, from, to)
+    if (candidates.length === 0) {
+      return {
+        path: null,
+        error: `No foreign key path between "${from}" and "${to}" within ${MAX_HOPS} joins. Tables related to "${from}": ${relatedTables(catalog, allowed, from)}`,
+      }
+    }
+  }
+
+  if (options.joinColumn) {
+    const matching = candidates.filter((path) => path.some((step) => step.column === options.joinColumn))
+    if (matching.length === 0) {
+      return {
+        path: null,
+        error: `No relationship between "${from}" and "${to}" uses the column "${options.joinColumn}". Candidates: ${candidates.map(describeJoinPath).join('; ')}`,
+      }
+    }
+    candidates = matching
+  }
+
+  const shortest = Math.min(...candidates.map((path) => path.length))
+  const best = candidates.filter((path) => path.length === shortest)
+  if (best.length > 1) {
+    return {
+      path: null,
+      error: `Several relationships connect "${from}" and "${to}": ${best.map((path, index) => `${index + 1}) ${describeJoinPath(path)}`).join('; ')}. Pass joinColumn or via to choose one.`,
+    }
+  }
+
+  return { path: best[0], error: null }
+}
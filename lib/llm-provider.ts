@@ -0,0 +1,170 @@
+import OpenAI, { AzureOpenAI } from 'openai'
+
+/**
+ * LLM backends for the agent loop
+ *
+ * All providers speak the OpenAI chat completions protocol (including tool calling):
+ * - openai: api.openai.com (OPENAI_API_KEY)
+ * - azure: an Azure OpenAI resource; LLM_BASE_URL is the endpoint, LLM_MODEL the deployment
+ * - openai-compatible: any server with an OpenAI-compatible API (Ollama, llama.cpp server,
+ *   vLLM), e.g. LLM_BASE_URL=http://localhost:11434/v1; an API key is optional
+ *
+ * Provider, model, temperature and base URL come from the environment and can be
+ * overridden per request. Missing credentials are reported when a provider is requested,
+ * not at import time.
+ */
+
+export type LlmProviderName = 'openai' | 'azure' | 'openai-compatible'
+
+export const LLM_PROVIDERS: LlmProviderName[] = ['openai', 'azure', 'openai-compatible']
+
+const DEFAULT_MODEL = 'gpt-4o'
+const DEFAULT_TEMPERATURE = 0.3
+const DEFAULT_AZURE_API_VERSION = '2024-10-21'
+
+export interface LlmConfig {
+  provider: LlmProviderName
+  model: string
+  temperature: number
+  baseUrl: string | null
+  apiKey: string | null
+  // Azure only
+  apiVersion: string | null
+}
+
+export type LlmOverrides = Partial<Pick<LlmConfig, 'provider' | 'model' | 'temperature' | 'baseUrl' | 'apiKey'>>
+
+export interface LlmRequestOptions {
+  // Aborts the HTTP request, e.g. when the client disconnects
+  signal?: AbortSignal
+  // Aborts the request when this much time has passed (the rest of the request's time budget)
+  timeoutMs?: number
+}
+
+export interface LlmProvider {
+  name: LlmProviderName
+  model: string
+  temperature: number
+  complete(
+    params: OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming,
+    options?: LlmRequestOptions
+  ): Promise<OpenAI.Chat.Completions.ChatCompletion>
+  // The last chunk carries the token usage when the backend reports it
+  stream(
+    params: OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming,
+    options?: LlmRequestOptions
+  ): Promise<AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>>
+}
+
+function readTemperature(value: string | undefined) {
+  const parsed = value === undefined || value === '' ? NaN : parseFloat(value)
+  return Number.isFinite(parsed) ? parsed : DEFAULT_TEMPERATURE
+}
+
+/**
+ * LLM config from the environment (LLM_PROVIDER, LLM_MODEL, LLM_TEMPERATURE, LLM_BASE_URL, LLM_API_KEY)
+ * The API key falls back to the provider's own variable (OPENAI_API_KEY, AZURE_OPENAI_API_KEY).
+ * LLM_BASE_URL, LLM_API_KEY and LLM_API_VERSION belong to LLM_PROVIDER: another provider
+ * only gets its own key and default endpoint, so no key is sent to an unrelated server.
+ */
+export function getLlmConfig(provider?: LlmProviderName): LlmConfig {
+  const configuredProvider = (process.env.LLM_PROVIDER || 'openai') as LlmProviderName
+  const name = provider || configuredProvider
+  const inheritsEndpoint = name === configuredProvider
+  const fallbackKey = name === 'azure' ? process.env.AZURE_OPENAI_API_KEY : name === 'openai' ? process.env.OPENAI_API_KEY : undefined
+
+  return {
+    provider: name,
+    model: process.env.LLM_MODEL || DEFAULT_MODEL,
+    temperature: readTemperature(process.env.LLM_TEMPERATURE),
+    baseUrl: (inheritsEndpoint && process.env.LLM_BASE_URL) || null,
+    apiKey: (inheritsEndpoint && process.env.LLM_API_KEY) || fallbackKey || null,
+    apiVersion: (inheritsEndpoint && process.env.LLM_API_VERSION) || null,
+  }
+}
+
+/**
+ * Signal for one request: aborted with the caller's signal or once `timeoutMs` has passed
+ * A streamed completion stays bounded while its chunks are read.
+ */
+function getRequestSignal(options: LlmRequestOptions) {
+  if (options.timeoutMs === undefined) {
+    return options.signal
+  }
+  const controller = new AbortController()
+  const abort = () => controller.abort()
+  if (options.signal?.aborted) {
+    abort()
+  }
+  options.signal?.addEventListener('abort', abort, { once: true })
+  // The timer alone does not keep the process alive once the request is done
+  setTimeout(abort, Math.max(options.timeoutMs, 0)).unref()
+  return controller.signal
+}
+
+function createProvider(name: LlmProviderName, client: OpenAI, config: LlmConfig): LlmProvider {
+  return {
+    name,
+    model: config.model,
+    temperature: config.temperature,
+    complete: (params, options = {}) => client.chat.completions.create(params, { signal: getRequestSignal(options) }),
+    stream: (params, options = {}) => client.chat.completions.create({
+      ...params,
+      stream: true,
+      stream_options: { include_usage: true },
+    }, { signal: getRequestSignal(options) }),
+  }
+}
+
+function createOpenAIProvider(config: LlmConfig) {
+  if (!config.apiKey) {
+    return { provider: null, error: 'OPENAI_API_KEY (or LLM_API_KEY) is not set' }
+  }
+  const client = new OpenAI({ apiKey: config.apiKey, ...(config.baseUrl ? { baseURL: config.baseUrl } : {}) })
+  return { provider: createProvider('openai', client, config), error: null }
+}
+
+function createAzureProvider(config: LlmConfig) {
+  if (!config.baseUrl) {
+    return { provider: null, error: 'LLM_BASE_URL (the Azure OpenAI endpoint) is not set' }
+  }
+  if (!config.apiKey) {
+    return { provider: null, error: 'AZURE_OPENAI_API_KEY (or LLM_API_KEY) is not set' }
+  }
+  const client = new AzureOpenAI({
+    endpoint: config.baseUrl,
+    apiKey: config.apiKey,
+    apiVersion: config.apiVersion || DEFAULT_AZURE_API_VERSION,
+    deployment: config.model,
+  })
+  return { provider: createProvider('azure', client, config), error: null }
+}
+
+function createCompatibleProvider(config: LlmConfig) {
+  if (!config.baseUrl) {
+    return { provider: null, error: 'LLM_BASE_URL is required for the openai-compatible provider' }
+  }
+  // Local servers usually ignore the key, but the SDK requires one
+  const client = new OpenAI({ apiKey: config.apiKey || 'not-needed', baseURL: config.baseUrl })
+  return { provider: createProvider('openai-compatible', client, config), error: null }
+}
+
+/**
+ * LLM provider for a request; overrides replace single settings of the environment config
+ * Returns an error instead of throwing when the provider is unknown or not configured.
+ */
+export function getLlmProvider(overrides: LlmOverrides = {}): { provider: LlmProvider | null; error: string | null } {
+  const defined = Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined))
+  const config: LlmConfig = { ...getLlmConfig(overrides.provider), ...defined }
+
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAIProvider(config)
+    case 'azure':
+      return createAzureProvider(config)
+    case 'openai-compatible':
+      return createCompatibleProvider(config)
+    default:
+      return { provider: null, error: `Unknown LLM provider "${config.provider}", expected one of ${LLM_PROVIDERS.join(', ')}` }
+  }
+}
@@ -0,0 +1,140 @@
+import { readJsonConfig } from './config-file'
+
+/**
+ * Classification of assistant text on tool-call turns (config/preamble-phrases.json)
+ *
+ * Models often say "Einen Moment, ich prüfe die Preise" before calling a tool. Such
+ * preambles are dropped from the history; anything else is kept. Text is only a
+ * preamble when every clause starts with a configured phrase or is filler of one
+ * language and it carries no data (digits, lists, tables) - when in doubt the text is kept.
+ */
+
+const DEFAULT_PREAMBLE_PHRASES_PATH = 'config/preamble-phrases.json'
+
+export interface PreambleLanguage {
+  // Matched as whole words at the start of a clause
+  phrases: string[]
+  // Matched against a whole clause
+  fillers: string[]
+}
+
+export interface PreambleConfig {
+  maxLength: number
+  languages: Record<string, PreambleLanguage>
+}
+
+export interface PreambleClassification {
+  kind: 'empty' | 'preamble' | 'content'
+  language: string | null
+  reason: string
+}
+
+// Used when config/preamble-phrases.json is missing: only the most common phrases
+const FALLBACK_CONFIG: PreambleConfig = {
+  maxLength: 300,
+  languages: {
+    de: { phrases: ['einen moment', 'ich werde', 'ich prüfe', 'lass mich'], fillers: ['gerne', 'okay'] },
+    en: { phrases: ['one moment', 'i will', "i'll", 'let me'], fillers: ['sure', 'okay'] },
+  },
+}
+
+/**
+ * Load the preamble phrases; a missing or invalid file falls back to built-in phrases
+ */
+export function getPreambleConfig(): PreambleConfig {
+  const configPath = process.env.PREAMBLE_PHRASES_PATH || DEFAULT_PREAMBLE_PHRASES_PATH
+  const { value, error } = readJsonConfig<PreambleConfig>(configPath, FALLBACK_CONFIG)
+
+  if (error) {
+    console.error('Preamble phrases config error:', error)
+  }
+
+  return {
+    maxLength: value.maxLength || FALLBACK_CONFIG.maxLength,
+    languages: value.languages || FALLBACK_CONFIG.languages,
+  }
+}
+
+function normalize(text: string) {
+  return text.toLowerCase().replace(/[’`´]/g, "'").replace(/\s+/g, ' ').trim()
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function startsWithPhrase(clause: string, phrase: string) {
+  // Whole words only, so "moment" does not match "momentan"
+  return new RegExp(`^${escapeRegExp(normalize(phrase))}(?![\\p{L}\\p{N}])`, 'u').test(clause)
+}
+
+function isPreambleSentence(sentence: string, language: PreambleLanguage) {
+  // Every clause must be filler or start with a phrase: "Gerne, ich prüfe die Preise" is a
+  // preamble, "Kupferrohr ist nicht lieferbar, ich suche Alternativen" is not
+  const clauses = sentence
+    .split(/[,;]|\s[–-]\s/u)
+    .map((clause) => clause.replace(/[.!?…:\s]+$/u, '').trim())
+    .filter(Boolean)
+  return clauses.length > 0 && clauses.every((clause) =>
+    language.fillers.some((filler) => normalize(filler) === clause) ||
+    language.phrases.some((phrase) => startsWithPhrase(clause, phrase))
+  )
+}
+
+/**
+ * Classify assistant text that accompanies tool calls
+ */
+export function classifyPreamble(content: string | null, config: PreambleConfig = getPreambleConfig()): PreambleClassification {
+  if (!content || !content.trim()) {
+    return { kind: 'empty', language: null, reason: 'no content' }
+  }
+  if (content.length > config.maxLength) {
+    return { kind: 'content', language: null, reason: `longer than ${config.maxLength} characters` }
+  }
+  if (/\d/.test(content)) {
+    return { kind: 'content', language: null, reason: 'contains digits' }
+  }
+  if (/^\s*(?:[-*•|]|#+\s)/m.test(content)) {
+    return { kind: 'content', language: null, reason: 'contains a list, table or heading' }
+  }
+
+  const sentences = content
+    .split(/(?<=[.!?…:])\s+|\n+/u)
+    .map(normalize)
+    .filter((sentence) => sentence.replace(/[\p{P}\s]/gu, '').length > 0)
+
+  for (const [language, phrases] of Object.entries(config.languages)) {
+    if (sentences.every((sentence) => isPreambleSentence(sentence, phrases))) {
+      return { kind: 'preamble', language, reason: 'every sentence is a preamble phrase' }
+    }
+  }
+
+  const unmatched = sentences.find((sentence) =>
+    Object.values(config.languages).every((phrases) => !isPreambleSentence(sentence, phrases))
+  )
+  return {
+    kind: 'content',
+    language: null,
+    reason: unmatched ? `sentence without preamble phrase: "${unmatched}"` : 'sentences mix languages',
+  }
+}
+
+/**
+ * Content to keep in the history for a tool-call turn (null when it is only a preamble)
+ * Every decision on non-empty content is logged.
+ */
+export function filterPreamble(content: string | null): string | null {
+  const classification = classifyPreamble(content)
+  if (classification.kind === 'empty') {
+    return null
+  }
+
+  console.info('Preamble classification:', {
+    decision: classification.kind === 'preamble' ? 'suppressed' : 'kept',
+    language: classification.language,
+    reason: classification.reason,
+    content,
+  })
+
+  return classification.kind === 'preamble' ? null : content
+}
@@ -0,0 +1,433 @@
+/**
+ * Filter grammar for the database tools
+ *
+ * Filters are parsed into a typed AST and compiled to PostgREST filters in one place,
+ * so queryTable, queryTableWithJoin and aggregateTable all accept the same syntax:
+ *
+ * - Simple equality:     { "name": "Kupferrohr" }
+ * - Legacy type objects: { "price": { "type": "gt", "value": 10 } } (like/ilike match anywhere)
+ * - Conditions:          { "column": "price", "op": "between", "value": [10, 20] }
+ *                        or keyed by column: { "price": { "op": "gt", "value": 10 } }
+ * - Logical groups:      { "or": [ ... ] }, { "and": [ ... ] }, { "not": { ... } }
+ * - Joined columns:      { "column": "t_material_prices.cost_per_unit", "op": "gt", "value": 5 }
+ */
+
+export type FilterScalar = string | number | boolean
+
+export type FilterOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'like' | 'ilike' | 'in' | 'is'
+
+export type FilterNode =
+  | { type: 'condition'; column: string; operator: FilterOperator; value: FilterScalar | FilterScalar[] | null }
+  | { type: 'and'; children: FilterNode[] }
+  | { type: 'or'; children: FilterNode[] }
+  | { type: 'not'; child: FilterNode }
+
+export const FILTER_OPERATORS = [
+  'eq', 'neq', 'gt', 'gte', 'lt', 'lte',
+  'in', 'notIn', 'isNull', 'isNotNull', 'between',
+  'like', 'ilike', 'contains', 'startsWith', 'endsWith',
+] as const
+
+const LEGACY_TYPES = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'like', 'ilike', 'in']
+const COLUMN_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)?$/
+
+export interface ParsedFilter {
+  filter: FilterNode | null
+  error: string | null
+}
+
+class FilterSyntaxError extends Error {}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isScalar(value: unknown): value is FilterScalar {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean'
+}
+
+function describe(value: unknown) {
+  return JSON.stringify(value) ?? String(value)
+}
+
+function assertColumn(column: unknown, path: string): string {
+  if (typeof column !== 'string' || !COLUMN_PATTERN.test(column)) {
+    throw new FilterSyntaxError(`${path}: invalid column name ${describe(column)}. Use "column" or "joined_table.column".`)
+  }
+  return column
+}
+
+function assertScalar(value: unknown, path: string, operator: string): FilterScalar {
+  if (!isScalar(value)) {
+    const hint = value === null ? ' Use the "isNull" operator to match empty values.' : ''
+    throw new FilterSyntaxError(`${path}: "${operator}" expects a string, number or boolean value, got ${describe(value)}.${hint}`)
+  }
+  return value
+}
+
+function assertList(value: unknown, path: string, operator: string): FilterScalar[] {
+  if (!Array.isArray(value) || value.length === 0 || !value.every(isScalar)) {
+    throw new FilterSyntaxError(`${path}: "${operator}" expects a non-empty array of strings, numbers or booleans, got ${describe(value)}`)
+  }
+  return value
+}
+
+function escapeLike(value: string) {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`)
+}
+
+function condition(column: string, operator: FilterOperator, value: FilterScalar | FilterScalar[] | null): FilterNode {
+  return { type: 'condition', column, operator, value }
+}
+
+/**
+ * Parse a { column, op, value } condition
+ */
+function parseCondition(input: Record<string, any>, path: string): FilterNode {
+  const column = assertColumn(input.column, `${path}.column`)
+  const op = input.op
+  const value = input.value
+
+  if (!FILTER_OPERATORS.includes(op)) {
+    throw new FilterSyntaxError(`${path}.op: unknown operator ${describe(op)}. Allowed: ${FILTER_OPERATORS.join(', ')}`)
+  }
+
+  const caseSensitive = input.caseSensitive === true
+  const patternOperator: FilterOperator = caseSensitive ? 'like' : 'ilike'
+
+  switch (op) {
+    case 'eq':
+    case 'neq':
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte':
+      return condition(column, op, assertScalar(value, `${path}.value`, op))
+    case 'in':
+      return condition(column, 'in', assertList(value, `${path}.value`, op))
+    case 'notIn':
+      return { type: 'not', child: condition(column, 'in', assertList(value, `${path}.value`, op)) }
+    case 'isNull':
+      return condition(column, 'is', null)
+    case 'isNotNull':
+      return { type: 'not', child: condition(column, 'is', null) }
+    case 'between': {
+      if (!Array.isArray(value) || value.length !== 2) {
+        throw new FilterSyntaxError(`${path}.value: "between" expects [from, to], got ${describe(value)}`)
+      }
+      return {
+        type: 'and',
+        children: [
+          condition(column, 'gte', assertScalar(value[0], `${path}.value[0]`, op)),
+          condition(column, 'lte', assertScalar(value[1], `${path}.value[1]`, op)),
+        ],
+      }
+    }
+    case 'like':
+    case 'ilike':
+      // Exact pattern: the caller controls the % and _ wildcards
+      if (typeof value !== 'string') {
+        throw new FilterSyntaxError(`${path}.value: "${op}" expects a pattern string such as "Kupfer%", got ${describe(value)}`)
+      }
+      return condition(column, op, value)
+    case 'contains':
+    case 'startsWith':
+    case 'endsWith': {
+      if (typeof value !== 'string') {
+        throw new FilterSyntaxError(`${path}.value: "${op}" expects a string, got ${describe(value)}`)
+      }
+      const escaped = escapeLike(value)
+      const pattern = op === 'contains' ? `%${escaped}%` : op === 'startsWith' ? `${escaped}%` : `%${escaped}`
+      return condition(column, patternOperator, pattern)
+    }
+  }
+
+  throw new FilterSyntaxError(`${path}.op: unsupported operator ${describe(op)}`)
+}
+
+/**
+ * Parse a legacy { column: value } or { column: { type, value } } entry
+ */
+function parseLegacyEntry(column: string, value: any, path: string): FilterNode | null {
+  // Empty values were always ignored by the flat filter syntax
+  if (value === undefined || value === null) {
+    return null
+  }
+
+  assertColumn(column, path)
+
+  // Shorthand condition keyed by column: { "price": { "op": "gt", "value": 10 } }
+  if (isPlainObject(value) && value.op) {
+    return parseCondition({ ...value, column }, path)
+  }
+
+  if (isPlainObject(value) && value.type) {
+    if (!LEGACY_TYPES.includes(value.type)) {
+      throw new FilterSyntaxError(`${path}.type: unknown filter type ${describe(value.type)}. Allowed: ${LEGACY_TYPES.join(', ')}`)
+    }
+    if (value.type === 'like' || value.type === 'ilike') {
+      // Legacy like/ilike match anywhere in the value
+      const text = assertScalar(value.value, `${path}.value`, value.type)
+      return condition(column, value.type, `%${escapeLike(String(text))}%`)
+    }
+    if (value.type === 'in') {
+      return condition(column, 'in', assertList(value.value, `${path}.value`, 'in'))
+    }
+    return condition(column, value.type, assertScalar(value.value, `${path}.value`, value.type))
+  }
+
+  if (Array.isArray(value)) {
+    return condition(column, 'in', assertList(value, path, 'in'))
+  }
+
+  return condition(column, 'eq', assertScalar(value, path, 'eq'))
+}
+
+function parseNode(input: unknown, path: string): FilterNode | null {
+  if (Array.isArray(input)) {
+    const children = input
+      .map((child, index) => parseNode(child, `${path}[${index}]`))
+      .filter((child): child is FilterNode => child !== null)
+    return children.length === 0 ? null : children.length === 1 ? children[0] : { type: 'and', children }
+  }
+
+  if (!isPlainObject(input)) {
+    throw new FilterSyntaxError(`${path}: expected an object, got ${describe(input)}`)
+  }
+
+  if ('column' in input || 'op' in input) {
+    return parseCondition(input, path)
+  }
+
+  const children: FilterNode[] = []
+
+  for (const [key, value] of Object.entries(input)) {
+    const childPath = `${path}.${key}`
+
+    if (key === 'and' || key === 'or') {
+      if (!Array.isArray(value) || value.length === 0) {
+        throw new FilterSyntaxError(`${childPath}: expected a non-empty array of filters`)
+      }
+      const groupChildren = value
+        .map((child, index) => parseNode(child, `${childPath}[${index}]`))
+        .filter((child): child is FilterNode => child !== null)
+      if (groupChildren.length > 0) {
+        children.push(groupChildren.length === 1 ? groupChildren[0] : { type: key, children: groupChildren })
+      }
+    } else if (key === 'not') {
+      const child = parseNode(value, childPath)
+      if (!child) {
+        throw new FilterSyntaxError(`${childPath}: expected a filter to negate`)
+      }
+      children.push({ type: 'not', child })
+    } else {
+      const child = parseLegacyEntry(key, value, childPath)
+      if (child) {
+        children.push(child)
+      }
+    }
+  }
+
+  return children.length === 0 ? null : children.length === 1 ? children[0] : { type: 'and', children }
+}
+
+/**
+ * Parse and validate filter input from a tool call
+ * Returns a precise error message (including the path of the offending entry) for invalid filters.
+ */
+export function parseFilters(input: unknown): ParsedFilter {
+  if (input === undefined || input === null) {
+    return { filter: null, error: null }
+  }
+
+  try {
+    const filter = parseNode(input, 'filters')
+    if (filter) {
+      validateTables(filter, 'filters')
+    }
+    return { filter, error: null }
+  } catch (err) {
+    if (err instanceof FilterSyntaxError) {
+      return { filter: null, error: `Invalid filter: ${err.message}` }
+    }
+    throw err
+  }
+}
+
+/**
+ * Split "table.column" into its joined table (or null for the main table) and column
+ * Embed paths of nested joins keep all but the last part as table ("prices.suppliers.name").
+ */
+export function splitColumn(column: string): { table: string | null; column: string } {
+  const dotIndex = column.lastIndexOf('.')
+  return dotIndex === -1
+    ? { table: null, column }
+    : { table: column.slice(0, dotIndex), column: column.slice(dotIndex + 1) }
+}
+
+function collectTables(node: FilterNode, tables: Set<string | null>) {
+  if (node.type === 'condition') {
+    tables.add(splitColumn(node.column).table)
+  } else if (node.type === 'not') {
+    collectTables(node.child, tables)
+  } else {
+    node.children.forEach((child) => collectTables(child, tables))
+  }
+}
+
+function collectColumns(node: FilterNode, columns: Set<string>) {
+  if (node.type === 'condition') {
+    columns.add(node.column)
+  } else if (node.type === 'not') {
+    collectColumns(node.child, columns)
+  } else {
+    node.children.forEach((child) => collectColumns(child, columns))
+  }
+}
+
+/**
+ * Columns referenced by a filter, as written ("column" or "joined_table.column")
+ */
+export function getReferencedColumns(node: FilterNode | null): string[] {
+  if (!node) {
+    return []
+  }
+  const columns = new Set<string>()
+  collectColumns(node, columns)
+  return Array.from(columns)
+}
+
+/**
+ * Tables referenced by a filter (joined table names; the main table is not included)
+ */
+export function getReferencedTables(node: FilterNode | null): string[] {
+  if (!node) {
+    return []
+  }
+  const tables = new Set<string | null>()
+  collectTables(node, tables)
+  return Array.from(tables).filter((table): table is string => table !== null)
+}
+
+/**
+ * Copy of a filter with every column passed through `rename`
+ */
+export function mapFilterColumns(node: FilterNode, rename: (column: string) => string): FilterNode {
+  switch (node.type) {
+    case 'condition':
+      return { ...node, column: rename(node.column) }
+    case 'and':
+    case 'or':
+      return { ...node, children: node.children.map((child) => mapFilterColumns(child, rename)) }
+    case 'not':
+      return { ...node, child: mapFilterColumns(node.child, rename) }
+  }
+}
+
+/**
+ * Copy of a filter with the table part of joined columns replaced, e.g. by the embed path
+ * of a nested join ("t_suppliers.name" → "t_material_prices.t_suppliers.name")
+ */
+export function renameFilterTables(node: FilterNode, rename: (table: string) => string): FilterNode {
+  return mapFilterColumns(node, (qualified) => {
+    const { table, column } = splitColumn(qualified)
+    return table ? `${rename(table)}.${column}` : qualified
+  })
+}
+
+/**
+ * PostgREST can only combine conditions on one table inside an or/not group
+ */
+function validateTables(node: FilterNode, path: string) {
+  if (node.type === 'and') {
+    node.children.forEach((child, index) => validateTables(child, `${path}.and[${index}]`))
+    return
+  }
+
+  if (node.type === 'or' || node.type === 'not') {
+    const tables = new Set<string | null>()
+    collectTables(node, tables)
+    if (tables.size > 1) {
+      const names = Array.from(tables).map((table) => table || 'main table')
+      throw new FilterSyntaxError(`${path}: an "${node.type}" group cannot mix columns of different tables (${names.join(', ')}). Split it into separate filters per table.`)
+    }
+  }
+}
+
+/**
+ * Quote a value for use inside a PostgREST logic tree (or=(...), not.and(...))
+ */
+function formatValue(value: FilterScalar) {
+  const text = String(value)
+  if (typeof value === 'string' && (/[,.:()"\\\s]/.test(text) || text === '')) {
+    return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+  }
+  return text
+}
+
+function formatOperand(node: Extract<FilterNode, { type: 'condition' }>, quote: boolean) {
+  if (node.operator === 'is') {
+    return 'null'
+  }
+  if (node.operator === 'in') {
+    const values = node.value as FilterScalar[]
+    return `(${values.map((value) => formatValue(value)).join(',')})`
+  }
+  return quote ? formatValue(node.value as FilterScalar) : String(node.value)
+}
+
+/**
+ * Compile a node into PostgREST logic tree syntax, with columns relative to their table
+ */
+function compileExpression(node: FilterNode, negate = false): string {
+  const prefix = negate ? 'not.' : ''
+
+  switch (node.type) {
+    case 'condition':
+      return `${splitColumn(node.column).column}.${prefix}${node.operator}.${formatOperand(node, true)}`
+    case 'and':
+    case 'or':
+      return `${prefix}${node.type}(${node.children.map((child) => compileExpression(child)).join(',')})`
+    case 'not':
+      // not(not(x)) is x
+      return compileExpression(node.child, !negate)
+  }
+}
+
+function tableOf(node: FilterNode): string | null {
+  return getReferencedTables(node)[0] || null
+}
+
+/**
+ * Apply a parsed filter to a supabase-js query builder
+ */
+export function applyFilter<T>(builder: T, node: FilterNode | null): T {
+  let query: any = builder
+
+  if (!node) {
+    return query
+  }
+
+  if (node.type === 'and') {
+    for (const child of node.children) {
+      query = applyFilter(query, child)
+    }
+    return query
+  }
+
+  if (node.type === 'condition') {
+    return query.filter(node.column, node.operator, formatOperand(node, false))
+  }
+
+  if (node.type === 'not' && node.child.type === 'condition') {
+    return query.not(node.child.column, node.child.operator, formatOperand(node.child, false))
+  }
+
+  // or groups and negated groups: a single-element or=(...) on the table they refer to
+  const table = tableOf(node)
+  const expression = node.type === 'or'
+    ? node.children.map((child) => compileExpression(child)).join(',')
+    : compileExpression(node)
+
+  return table ? query.or(expression, { referencedTable: table }) : query.or(expression)
+}
@@ -0,0 +1,205 @@
+import { parseFilters, getReferencedColumns, getReferencedTables, mapFilterColumns, FilterNode } from './query-filters'
+import { resolveJoinPath, describeJoinPath } from './join-resolver'
+import { checkTableAccess, checkColumnAccess, getSelectableColumns, isColumnAllowed, filterAllowedTables } from './data-policy'
+import type { SchemaCatalog } from './schema-catalog'
+import type { OrderBySpec } from './supabase-query'
+
+/**
+ * Typed query trees for the queryGraph tool
+ *
+ * A graph is a root table with nested related tables, each with its own columns, filters,
+ * ordering and limit:
+ *
+ *   { table: 't_materials', columns: ['id', 'name'], relations: [
+ *     { table: 't_material_prices', orderBy: [{ column: 'valid_from', direction: 'desc' }], limit: 3 },
+ *   ] }
+ *
+ * The tree is validated against the schema catalog and the data policy before anything is
+ * sent to the database; every relation must follow one foreign key of its parent (many-to-one
+ * or one-to-many). It then runs as a single PostgREST request with nested embeds, so rows
+ * come back in the shape of the tree: related rows under their table name, as an object
+ * for many-to-one relations and as an array for one-to-many relations.
+ */
+
+const MAX_DEPTH = 3
+const MAX_NODES = 10
+
+export interface GraphSpec {
+  table: string
+  // Foreign key column to the parent, when several connect the two tables
+  joinColumn?: string
+  // Only return parent rows that have at least one matching row of this relation
+  required?: boolean
+  columns?: string[]
+  filters?: Record<string, any>
+  orderBy?: OrderBySpec[]
+  limit?: number
+  relations?: GraphSpec[]
+}
+
+export interface GraphNode {
+  table: string
+  // Embed path from the root ("" for the root), e.g. "t_material_prices.t_suppliers"
+  path: string
+  joinColumn: string | null
+  kind: 'root' | 'many-to-one' | 'one-to-many'
+  required: boolean
+  columns?: string[]
+  // Filter with columns qualified by the embed path
+  filter: FilterNode | null
+  orderBy: OrderBySpec[]
+  limit: number | null
+  relations: GraphNode[]
+}
+
+class GraphError extends Error {}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+/**
+ * Check that columns exist in the catalog (tables without column metadata accept any column)
+ * The error only lists the columns the role may read.
+ */
+function checkColumnsExist(catalog: SchemaCatalog, table: string, columns: string[], location: string) {
+  const known = catalog.tables[table].columns.map((column) => column.name)
+  const unknown = columns.filter((column) => column !== '*' && known.length > 0 && !known.includes(column))
+  if (unknown.length > 0) {
+    const readable = known.filter((column) => isColumnAllowed(table, column))
+    throw new GraphError(`${location}: unknown column${unknown.length > 1 ? 's' : ''} ${unknown.join(', ')}. Columns of ${table}: ${readable.join(', ') || 'none'}`)
+  }
+}
+
+function resolveNode(
+  catalog: SchemaCatalog,
+  spec: unknown,
+  parent: GraphNode | null,
+  location: string,
+  counter: { nodes: number }
+): GraphNode {
+  if (!isPlainObject(spec) || typeof spec.table !== 'string') {
+    throw new GraphError(`${location}: expected an object with a "table" name`)
+  }
+  const { table } = spec
+  counter.nodes++
+  if (counter.nodes > MAX_NODES) {
+    throw new GraphError(`A query graph may contain at most ${MAX_NODES} tables`)
+  }
+  if (!catalog.tables[table]) {
+    throw new GraphError(`${location}: table "${table}" does not exist. Available tables: ${filterAllowedTables(Object.keys(catalog.tables)).sort().join(', ')}`)
+  }
+  const accessError = checkTableAccess(table)
+  if (accessError) {
+    throw new GraphError(`${location}: ${accessError}`)
+  }
+
+  // Relationship to the parent: exactly one foreign key
+  let kind: GraphNode['kind'] = 'root'
+  let joinColumn: string | null = null
+  if (parent) {
+    const { path, error } = resolveJoinPath(catalog, parent.table, table, {
+      joinColumn: typeof spec.joinColumn === 'string' ? spec.joinColumn : undefined,
+    })
+    if (!path) {
+      throw new GraphError(`${location}: ${error}`)
+    }
+    if (path.length > 1) {
+      throw new GraphError(`${location}: "${table}" is not directly related to "${parent.table}". Nest the relations along the path ${describeJoinPath(path)}`)
+    }
+    kind = path[0].kind
+    joinColumn = path[0].column
+  }
+
+  const columns = Array.isArray(spec.columns) && spec.columns.length > 0 ? spec.columns.map(String) : undefined
+  checkColumnsExist(catalog, table, columns || [], location)
+  const columnError = checkColumnAccess(table, columns || [], { allowMasked: true })
+  if (columnError) {
+    throw new GraphError(`${location}: ${columnError}`)
+  }
+
+  // Filters and ordering use the columns of this table only
+  const { filter, error: filterError } = parseFilters(spec.filters || {})
+  if (filterError) {
+    throw new GraphError(`${location}: ${filterError}`)
+  }
+  const otherTables = getReferencedTables(filter)
+  if (otherTables.length > 0) {
+    throw new GraphError(`${location}: filters may only use columns of ${table}; put conditions on ${otherTables.join(', ')} into that relation`)
+  }
+  const orderBy: OrderBySpec[] = Array.isArray(spec.orderBy) ? spec.orderBy.filter(isPlainObject) as OrderBySpec[] : []
+  const usedColumns = [...getReferencedColumns(filter), ...orderBy.map((order) => order.column)]
+  checkColumnsExist(catalog, table, usedColumns, location)
+  const usedError = checkColumnAccess(table, usedColumns)
+  if (usedError) {
+    throw new GraphError(`${location}: ${usedError}`)
+  }
+
+  if (spec.limit !== undefined && (!Number.isInteger(spec.limit) || spec.limit < 1)) {
+    throw new GraphError(`${location}: limit must be a positive integer`)
+  }
+
+  const path = parent ? (parent.path ? `${parent.path}.${table}` : table) : ''
+  const node: GraphNode = {
+    table,
+    path,
+    joinColumn,
+    kind,
+    required: parent ? spec.required === true : false,
+    columns,
+    filter: filter && path ? mapFilterColumns(filter, (column) => `${path}.${column}`) : filter,
+    orderBy,
+    limit: typeof spec.limit === 'number' ? spec.limit : null,
+    relations: [],
+  }
+
+  const relations = spec.relations === undefined ? [] : spec.relations
+  if (!Array.isArray(relations)) {
+    throw new GraphError(`${location}: relations must be an array`)
+  }
+  if (relations.length > 0 && location.split(' > ').length > MAX_DEPTH) {
+    throw new GraphError(`${location}: relations may be nested at most ${MAX_DEPTH} levels deep`)
+  }
+  for (const relation of relations) {
+    const child = resolveNode(catalog, relation, node, `${location} > ${isPlainObject(relation) ? relation.table : '?'}`, counter)
+    if (node.relations.some((sibling) => sibling.table === child.table)) {
+      throw new GraphError(`${location}: "${child.table}" is listed twice; combine both into one relation`)
+    }
+    node.relations.push(child)
+  }
+
+  return node
+}
+
+/**
+ * Validate a query graph against the schema catalog and the data policy
+ */
+export function resolveGraph(catalog: SchemaCatalog, spec: unknown): { graph: GraphNode | null; error: string | null } {
+  try {
+    const table = isPlainObject(spec) && typeof spec.table === 'string' ? spec.table : '?'
+    return { graph: resolveNode(catalog, spec, null, table, { nodes: 0 }), error: null }
+  } catch (err) {
+    if (err instanceof GraphError) {
+      return { graph: null, error: err.message }
+    }
+    throw err
+  }
+}
+
+/**
+ * PostgREST select for a node: its columns and one nested embed per relation
+ * e.g. "id, name, t_material_prices!material_id!inner(price_per_unit, valid_from)"
+ */
+export function buildGraphSelect(node: GraphNode): string {
+  const embeds = node.relations.map((relation) =>
+    `${relation.table}!${relation.joinColumn}${relation.required ? '!inner' : ''}(${buildGraphSelect(relation)})`
+  )
+  return [getSelectableColumns(node.table, node.columns), ...embeds].join(', ')
+}
+
+/**
+ * All nodes of a graph, root first
+ */
+export function listGraphNodes(node: GraphNode): GraphNode[] {
+  return [node, ...node.relations.flatMap(listGraphNodes)]
+}
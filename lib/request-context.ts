@@ -0,0 +1,37 @@
+import { AsyncLocalStorage } from 'async_hooks'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Role } from './roles'
+
+/**
+ * Per-request state for code that runs below the API routes (tools, storage)
+ * Set by `withSession` for every authenticated request.
+ */
+
+export interface SessionUser {
+  id: string
+  email: string | null
+}
+
+export interface RequestContext {
+  user: SessionUser
+  role: Role
+  accessToken: string
+  // Supabase client acting as the user, so RLS policies apply
+  supabase: SupabaseClient
+}
+
+const storage = new AsyncLocalStorage<RequestContext>()
+
+/**
+ * Run a function (and everything it awaits) with the given request context
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn)
+}
+
+/**
+ * Context of the current request, or null outside of a request
+ */
+export function getRequestContext(): RequestContext | null {
+  return storage.getStore() || null
+}
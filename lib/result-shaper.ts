@@ -0,0 +1,236 @@
+import { storeResult, ResultStore } from './result-store'
+import type { SchemaCatalog } from './schema-catalog'
+
+/**
+ * Compaction of tool results before they are sent to the model
+ *
+ * Row results (`{ data: [...] }`) are
+ * - flattened: embedded rows become "table.column" columns; an embedded array with
+ *   several rows yields one row per entry, like a SQL join
+ * - pruned: columns that are empty in every row and join keys that repeat a column of
+ *   the parent row (foreign keys of the schema catalog) are dropped
+ * - encoded as a table: `{ columns, rows }` with one array per row
+ * - summarized when the table is larger than TOOL_RESULT_MAX_CHARS: row count, column
+ *   statistics and the first TOOL_RESULT_PREVIEW_ROWS rows
+ *
+ * The full table is kept in the request's result store; the model reads further rows
+ * with getResultPage. Other results (errors, table structures) are sent unchanged.
+ */
+
+const DEFAULT_MAX_CHARS = 8000
+const DEFAULT_PREVIEW_ROWS = 20
+
+// Embedded arrays are not expanded beyond this many rows; they stay nested instead
+const MAX_FLATTENED_ROWS = 5000
+const MAX_TOP_VALUES = 5
+
+export interface ShaperConfig {
+  maxChars: number
+  previewRows: number
+}
+
+// Where the rows come from, to recognise join keys by their foreign keys
+export interface RowOrigin {
+  table: string | null
+  catalog: SchemaCatalog | null
+}
+
+export interface ColumnStats {
+  type: 'number' | 'string' | 'boolean' | 'mixed' | 'empty'
+  nulls: number
+  distinct: number
+  min?: number | string
+  max?: number | string
+  // Most frequent values of text columns
+  top?: Array<{ value: string; count: number }>
+}
+
+function readPositiveInt(value: string | undefined, fallback: number) {
+  const parsed = value ? parseInt(value, 10) : NaN
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+/**
+ * Limits from TOOL_RESULT_MAX_CHARS and TOOL_RESULT_PREVIEW_ROWS
+ */
+export function getShaperConfig(): ShaperConfig {
+  return {
+    maxChars: readPositiveInt(process.env.TOOL_RESULT_MAX_CHARS, DEFAULT_MAX_CHARS),
+    previewRows: readPositiveInt(process.env.TOOL_RESULT_PREVIEW_ROWS, DEFAULT_PREVIEW_ROWS),
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function isRowArray(value: unknown): value is Record<string, any>[] {
+  return Array.isArray(value) && value.every(isPlainObject)
+}
+
+function isEmpty(value: unknown) {
+  return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0)
+}
+
+/**
+ * Flatten one row: embedded objects become prefixed columns, embedded row arrays
+ * multiply the row (one per entry, or one without the embed when it is empty)
+ */
+function flattenRow(row: Record<string, any>, prefix: string, budget: { remaining: number }): Record<string, any>[] {
+  let results: Record<string, any>[] = [{}]
+
+  for (const [key, value] of Object.entries(row)) {
+    const column = prefix ? `${prefix}.${key}` : key
+    const embedded = isPlainObject(value) ? [value] : isRowArray(value) ? value : null
+
+    if (embedded && embedded.length > 0) {
+      const nested = embedded.flatMap((entry) => flattenRow(entry, column, budget))
+      const added = results.length * nested.length - results.length
+      if (added <= budget.remaining) {
+        budget.remaining -= added
+        results = results.flatMap((result) => nested.map((entry) => ({ ...result, ...entry })))
+        continue
+      }
+    }
+
+    results = results.map((result) => ({ ...result, [column]: embedded && embedded.length === 0 ? null : value }))
+  }
+
+  return results
+}
+
+/**
+ * Rows with embedded tables flattened to "table.column" columns
+ */
+export function flattenRows(rows: Record<string, any>[]) {
+  const budget = { remaining: Math.max(0, MAX_FLATTENED_ROWS - rows.length) }
+  return rows.flatMap((row) => flattenRow(row, '', budget))
+}
+
+/**
+ * Parent column a flat column repeats, e.g. "id" for "t_material_prices.material_id"
+ * when t_material_prices.material_id references t_materials.id of the main table
+ * Embed paths name the embedded tables, so the catalog's foreign keys identify the key.
+ */
+function getParentKeyColumn(column: string, origin: RowOrigin) {
+  const parts = column.split('.')
+  if (parts.length < 2 || !origin.catalog) {
+    return null
+  }
+  const childColumn = parts[parts.length - 1]
+  const childTable = parts[parts.length - 2]
+  const parentPath = parts.slice(0, -2)
+  const parentTable = parentPath.length > 0 ? parentPath[parentPath.length - 1] : origin.table
+  const foreignKey = origin.catalog.tables[childTable]?.foreignKeys.find((fk) =>
+    fk.column === childColumn && fk.referencedTable === parentTable
+  )
+  return foreignKey ? [...parentPath, foreignKey.referencedColumn].join('.') : null
+}
+
+/**
+ * Table encoding of flat rows, without empty columns and repeated join keys
+ */
+export function toTable(rows: Record<string, any>[], origin: RowOrigin = { table: null, catalog: null }) {
+  const allColumns: string[] = []
+  for (const row of rows) {
+    for (const column of Object.keys(row)) {
+      if (!allColumns.includes(column)) allColumns.push(column)
+    }
+  }
+
+  const emptyColumns = allColumns.filter((column) => rows.every((row) => isEmpty(row[column])))
+  // "t_material_prices.material_id" repeats "id" of the material in every row that has prices
+  const joinKeys = allColumns.filter((column) => {
+    const parent = getParentKeyColumn(column, origin)
+    if (!parent || !allColumns.includes(parent) || emptyColumns.includes(column)) {
+      return false
+    }
+    return rows.every((row) => isEmpty(row[column]) || row[column] === row[parent])
+  })
+
+  const dropped = [...emptyColumns, ...joinKeys]
+  const columns = allColumns.filter((column) => !dropped.includes(column))
+
+  return {
+    columns,
+    rows: rows.map((row) => columns.map((column) => (row[column] === undefined ? null : row[column]))),
+    droppedColumns: dropped,
+  }
+}
+
+/**
+ * Statistics of one column over all rows
+ */
+export function summarizeColumn(values: any[]): ColumnStats {
+  const present = values.filter((value) => !isEmpty(value))
+  const kinds = new Set(present.map((value) => typeof value))
+  const kind = kinds.size === 1 ? typeof present[0] : 'mixed'
+  const type: ColumnStats['type'] = present.length === 0
+    ? 'empty'
+    : kind === 'number' || kind === 'string' || kind === 'boolean' ? kind : 'mixed'
+  const distinct = new Set(present.map((value) => (typeof value === 'object' ? JSON.stringify(value) : value)))
+  const stats: ColumnStats = { type, nulls: values.length - present.length, distinct: distinct.size }
+
+  if (type === 'number') {
+    stats.min = Math.min(...present)
+    stats.max = Math.max(...present)
+  }
+  if (type === 'string') {
+    const sorted = [...present].sort()
+    stats.min = sorted[0]
+    stats.max = sorted[sorted.length - 1]
+    const counts = new Map<string, number>()
+    for (const value of present) counts.set(value, (counts.get(value) || 0) + 1)
+    stats.top = Array.from(counts, ([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, MAX_TOP_VALUES)
+  }
+
+  return stats
+}
+
+/**
+ * Result as sent to the model; row results are stored in full in `store`
+ */
+export function shapeToolResult(
+  tool: string,
+  result: any,
+  store: ResultStore,
+  config: ShaperConfig = getShaperConfig(),
+  origin: RowOrigin = { table: null, catalog: null }
+) {
+  if (!isPlainObject(result) || !isRowArray(result.data)) {
+    return result
+  }
+
+  const { data, ...rest } = result
+  const flat = flattenRows(data)
+  const table = toTable(flat, origin)
+  const resultId = storeResult(store, tool, table.columns, table.rows)
+  const shaped: Record<string, any> = {
+    ...rest,
+    resultId,
+    rowCount: table.rows.length,
+    ...(flat.length !== data.length ? { rowsBeforeFlattening: data.length } : {}),
+    columns: table.columns,
+    ...(table.droppedColumns.length > 0 ? { droppedColumns: table.droppedColumns } : {}),
+  }
+
+  if (JSON.stringify(table.rows).length <= config.maxChars) {
+    return { ...shaped, rows: table.rows }
+  }
+
+  // Summary: statistics over all rows and as many leading rows as fit
+  let previewRows = Math.min(config.previewRows, table.rows.length)
+  while (previewRows > 1 && JSON.stringify(table.rows.slice(0, previewRows)).length > config.maxChars) {
+    previewRows = Math.floor(previewRows / 2)
+  }
+
+  return {
+    ...shaped,
+    summarized: true,
+    columnStats: Object.fromEntries(table.columns.map((column, index) => [column, summarizeColumn(table.rows.map((row) => row[index]))])),
+    rows: table.rows.slice(0, previewRows),
+    note: `Only the first ${previewRows} of ${table.rows.length} rows are shown. Call getResultPage with resultId "${resultId}" and offset ${previewRows} for more rows, or use aggregateTable for totals.`,
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Per-request store of full tool results
+ *
+ * The model only sees a shaped (and possibly summarized) version of large results; the
+ * full flattened table stays here for the rest of the request, and the model pages
+ * through it with the getResultPage tool. A store lives as long as one agent loop.
+ */
+
+const DEFAULT_PAGE_SIZE = 20
+const MAX_PAGE_SIZE = 100
+
+export interface StoredResult {
+  id: string
+  tool: string
+  columns: string[]
+  rows: any[][]
+}
+
+export interface ResultStore {
+  results: Map<string, StoredResult>
+}
+
+export function createResultStore(): ResultStore {
+  return { results: new Map() }
+}
+
+/**
+ * Keep a table and return its id ("r1", "r2", ...)
+ */
+export function storeResult(store: ResultStore, tool: string, columns: string[], rows: any[][]) {
+  const id = `r${store.results.size + 1}`
+  store.results.set(id, { id, tool, columns, rows })
+  return id
+}
+
+/**
+ * One page of a stored result, optionally limited to some columns
+ */
+export function getResultPage(
+  store: ResultStore | undefined,
+  args: { resultId?: string; offset?: number; limit?: number; columns?: string[] }
+) {
+  const stored = store && typeof args.resultId === 'string' ? store.results.get(args.resultId) : undefined
+  if (!stored) {
+    const known = store ? Array.from(store.results.keys()) : []
+    return {
+      error: `Unknown resultId: ${args.resultId}. ${known.length > 0 ? `Available results: ${known.join(', ')}` : 'No results are stored for this request.'}`,
+    }
+  }
+
+  const requested = Array.isArray(args.columns) && args.columns.length > 0 ? args.columns : stored.columns
+  const unknown = requested.filter((column) => !stored.columns.includes(column))
+  if (unknown.length > 0) {
+    return { error: `Unknown columns: ${unknown.join(', ')}. Columns of ${stored.id}: ${stored.columns.join(', ')}` }
+  }
+
+  const offset = Number.isInteger(args.offset) && args.offset! > 0 ? args.offset! : 0
+  const limit = Number.isInteger(args.limit) && args.limit! > 0 ? Math.min(args.limit!, MAX_PAGE_SIZE) : DEFAULT_PAGE_SIZE
+  const indexes = requested.map((column) => stored.columns.indexOf(column))
+  const rows = stored.rows.slice(offset, offset + limit).map((row) => indexes.map((index) => row[index]))
+  const hasMore = offset + rows.length < stored.rows.length
+
+  return {
+    resultId: stored.id,
+    columns: requested,
+    rows,
+    offset,
+    rowCount: stored.rows.length,
+    hasMore,
+    nextOffset: hasMore ? offset + rows.length : null,
+  }
+}
@@ -0,0 +1,128 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { readJsonConfig } from './config-file'
+import { getRequestContext } from './request-context'
+import type { TablePolicy } from './data-policy'
+
+/**
+ * Role-based capabilities (config/roles.json, assignments in the `user_roles` table)
+ *
+ * A role decides which chat tools are registered, whether voice input/output is
+ * available and how the data policy is narrowed for its members. Roles can only
+ * restrict the data policy, never expose additional tables or columns.
+ */
+
+const DEFAULT_ROLES_PATH = 'config/roles.json'
+
+export type Role = 'viewer' | 'purchaser' | 'admin'
+
+export const ROLES: Role[] = ['viewer', 'purchaser', 'admin']
+
+export interface RoleTablePolicy extends TablePolicy {
+  hidden?: boolean
+}
+
+export interface RoleConfig {
+  // Tool names, or ["*"] for all tools
+  tools: string[]
+  voice: boolean
+  tables?: Record<string, RoleTablePolicy>
+}
+
+export interface RolesConfig {
+  defaultRole: Role
+  roles: Record<Role, RoleConfig>
+}
+
+// Used when config/roles.json is missing: read-only tools, no voice
+const FALLBACK_ROLES: RolesConfig = {
+  defaultRole: 'viewer',
+  roles: {
+    viewer: { tools: ['queryTable', 'queryTableWithJoin', 'queryGraph', 'aggregateTable', 'getResultPage', 'getTableNames', 'getTableStructure'], voice: false },
+    purchaser: { tools: ['queryTable', 'queryTableWithJoin', 'queryGraph', 'aggregateTable', 'getResultPage', 'getTableNames', 'getTableStructure'], voice: false },
+    admin: { tools: ['*'], voice: true },
+  },
+}
+
+/**
+ * Load the roles config; a missing or invalid file falls back to restrictive defaults
+ */
+export function getRolesConfig(): { config: RolesConfig; mtimeMs: number | null } {
+  const rolesPath = process.env.ROLES_CONFIG_PATH || DEFAULT_ROLES_PATH
+  const { value, mtimeMs, error } = readJsonConfig<RolesConfig>(rolesPath, FALLBACK_ROLES)
+
+  if (error) {
+    console.error('Roles config error:', error)
+  }
+
+  return {
+    config: {
+      defaultRole: ROLES.includes(value.defaultRole) ? value.defaultRole : 'viewer',
+      roles: { ...FALLBACK_ROLES.roles, ...value.roles },
+    },
+    mtimeMs,
+  }
+}
+
+/**
+ * Look up the role of a user; users without an assignment get the default role
+ * The client acts as the user, who may read their own row of `user_roles`.
+ */
+export async function fetchUserRole(client: SupabaseClient, userId: string): Promise<Role> {
+  const { config } = getRolesConfig()
+
+  try {
+    const { data, error } = await client
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (error) {
+      throw error
+    }
+
+    return data && ROLES.includes(data.role) ? data.role : config.defaultRole
+  } catch (err) {
+    console.error('Role lookup error:', err)
+    return config.defaultRole
+  }
+}
+
+/**
+ * Role of the current request (null outside of a request)
+ */
+export function getCurrentRole(): Role | null {
+  return getRequestContext()?.role ?? null
+}
+
+/**
+ * Capabilities of a role; defaults to the role of the current request
+ * Outside of a request (scripts) there are no role restrictions.
+ */
+export function getRoleConfig(role: Role | null = getCurrentRole()): RoleConfig | null {
+  if (!role) {
+    return null
+  }
+  return getRolesConfig().config.roles[role] || null
+}
+
+/**
+ * Check whether the current user may use a chat tool
+ */
+export function isToolAllowed(toolName: string, role: Role | null = getCurrentRole()) {
+  if (!role) {
+    return true
+  }
+  const roleConfig = getRoleConfig(role)
+  return !!roleConfig && (roleConfig.tools.includes('*') || roleConfig.tools.includes(toolName))
+}
+
+/**
+ * Check whether the current user may use speech-to-text and text-to-speech
+ */
+export function hasVoiceAccess(role: Role | null = getCurrentRole()) {
+  if (!role) {
+    return true
+  }
+  return !!getRoleConfig(role)?.voice
+}
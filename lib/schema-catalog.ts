@@ -0,0 +1,190 @@
+/**
+ * Schema catalog built from the PostgREST OpenAPI document
+ *
+ * PostgREST describes every exposed table and view at GET /rest/v1/ including
+ * column types, NOT NULL constraints, primary keys and foreign keys. The document
+ * is fetched once per TTL and shared by all database tools.
+ */
+
+const DEFAULT_TTL_MS = 5 * 60 * 1000
+
+export interface CatalogColumn {
+  name: string
+  type: string
+  nullable: boolean
+  isPrimaryKey: boolean
+  description: string | null
+}
+
+export interface ForeignKey {
+  table: string
+  column: string
+  referencedTable: string
+  referencedColumn: string
+}
+
+export interface CatalogTable {
+  name: string
+  description: string | null
+  columns: CatalogColumn[]
+  primaryKey: string[]
+  foreignKeys: ForeignKey[]
+}
+
+export interface SchemaCatalog {
+  tables: Record<string, CatalogTable>
+  rpcs: string[]
+  loadedAt: number
+}
+
+let cachedCatalog: SchemaCatalog | null = null
+let pendingLoad: Promise<SchemaCatalog> | null = null
+
+function getTtlMs() {
+  const parsed = parseInt(process.env.SCHEMA_CATALOG_TTL_MS || '', 10)
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : DEFAULT_TTL_MS
+}
+
+/**
+ * Remove the PostgREST "Note: This is a Primary Key.<pk/>" markers from a description
+ */
+function cleanDescription(description: string | undefined) {
+  if (!description) {
+    return null
+  }
+  const cleaned = description
+    .replace(/<pk\/>|<fk[^>]*\/>/g, '')
+    .replace(/Note:\s*This is a (Primary|Foreign) Key[^\n]*\.?/g, '')
+    .trim()
+  return cleaned || null
+}
+
+/**
+ * Parse a PostgREST OpenAPI (Swagger 2.0) document into a catalog
+ */
+export function parseOpenApiSchema(document: any): SchemaCatalog {
+  const tables: Record<string, CatalogTable> = {}
+  const definitions = document?.definitions || {}
+
+  for (const [tableName, definition] of Object.entries<any>(definitions)) {
+    const required: string[] = definition.required || []
+    const columns: CatalogColumn[] = []
+    const primaryKey: string[] = []
+    const foreignKeys: ForeignKey[] = []
+
+    for (const [columnName, property] of Object.entries<any>(definition.properties || {})) {
+      const description: string = property.description || ''
+      const isPrimaryKey = description.includes('<pk/>')
+
+      if (isPrimaryKey) {
+        primaryKey.push(columnName)
+      }
+
+      const fkMatch = description.match(/<fk table='([^']+)' column='([^']+)'\/>/)
+      if (fkMatch) {
+        foreignKeys.push({
+          table: tableName,
+          column: columnName,
+          referencedTable: fkMatch[1],
+          referencedColumn: fkMatch[2],
+        })
+      }
+
+      columns.push({
+        name: columnName,
+        type: property.format || property.type || 'unknown',
+        nullable: !required.includes(columnName),
+        isPrimaryKey,
+        description: cleanDescription(description),
+      })
+    }
+
+    tables[tableName] = {
+      name: tableName,
+      description: cleanDescription(definition.description),
+      columns,
+      primaryKey,
+      foreignKeys,
+    }
+  }
+
+  const rpcs = Object.keys(document?.paths || {})
+    .filter((path) => path.startsWith('/rpc/'))
+    .map((path) => path.replace(/^\/rpc\//, ''))
+
+  return { tables, rpcs, loadedAt: Date.now() }
+}
+
+async function loadCatalog(): Promise<SchemaCatalog> {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !serviceKey) {
+    throw new Error('Service role key not configured. Please set SUPABASE_SERVICE_ROLE_KEY in your environment variables.')
+  }
+
+  const response = await fetch(`${supabaseUrl}/rest/v1/`, {
+    method: 'GET',
+    headers: {
+      'apikey': serviceKey,
+      'Authorization': `Bearer ${serviceKey}`,
+      'Accept': 'application/openapi+json',
+    },
+    cache: 'no-store',
+  })
+
+  if (!response.ok) {
+    throw new Error(`Schema introspection failed with status ${response.status}`)
+  }
+
+  return parseOpenApiSchema(await response.json())
+}
+
+/**
+ * Get the schema catalog, loading it when the cached copy is older than SCHEMA_CATALOG_TTL_MS
+ */
+export async function getSchemaCatalog(options: { forceRefresh?: boolean } = {}): Promise<{
+  catalog: SchemaCatalog | null
+  error: string | null
+}> {
+  const isFresh = cachedCatalog && Date.now() - cachedCatalog.loadedAt < getTtlMs()
+  if (isFresh && !options.forceRefresh) {
+    return { catalog: cachedCatalog, error: null }
+  }
+
+  try {
+    // Concurrent callers share one introspection request
+    if (!pendingLoad) {
+      pendingLoad = loadCatalog()
+    }
+    cachedCatalog = await pendingLoad
+    return { catalog: cachedCatalog, error: null }
+  } catch (err) {
+    return {
+      catalog: null,
+      error: err instanceof Error ? err.message : 'Schema introspection failed',
+    }
+  } finally {
+    pendingLoad = null
+  }
+}
+
+/**
+ * Drop the cached catalog, e.g. after a migration
+ */
+export function invalidateSchemaCatalog() {
+  cachedCatalog = null
+}
+
+/**
+ * Foreign keys from and to a table
+ * outgoing: columns of this table referencing another table (many-to-one)
+ * incoming: columns of other tables referencing this table (one-to-many)
+ */
+export function getRelationships(catalog: SchemaCatalog, tableName: string) {
+  const outgoing = catalog.tables[tableName]?.foreignKeys || []
+  const incoming = Object.values(catalog.tables).flatMap((table) =>
+    table.foreignKeys.filter((fk) => fk.referencedTable === tableName)
+  )
+  return { outgoing, incoming }
+}
@@ -0,0 +1,94 @@
+import { getSchemaCatalog, SchemaCatalog } from './schema-catalog'
+import { getTouchedTables } from './chat-tools'
+import type { ToolInvocation } from './agent-loop'
+
+/**
+ * Provenance of an answer: the data tool calls behind it, with their rows
+ *
+ * Each successful data tool call becomes one source listing the table(s), the filters
+ * that were applied, the primary keys of the returned rows and the rows themselves
+ * (capped at MAX_SOURCE_ROWS). Metadata tools (getTableNames, getTableStructure) are
+ * not sources.
+ */
+
+const MAX_SOURCE_ROWS = 50
+
+const DATA_TOOLS = ['queryTable', 'queryTableWithJoin', 'queryGraph', 'aggregateTable', 'runSql']
+
+export interface AnswerSource {
+  toolCallId: string
+  tool: string
+  table: string | null
+  tables: string[]
+  filters: Record<string, any> | null
+  sql?: string
+  aggregates?: any[]
+  groupBy?: string[]
+  primaryKey: string[]
+  rowIds: Array<string | number | Record<string, any> | null>
+  rows: Record<string, any>[]
+  rowCount: number
+  totalCount: number | null
+  truncated: boolean
+}
+
+/**
+ * Identifier of a row from the table's primary key (object for composite keys)
+ */
+function getRowId(row: Record<string, any>, primaryKey: string[]) {
+  if (primaryKey.length === 0 || primaryKey.some((column) => !(column in row))) {
+    return null
+  }
+  if (primaryKey.length === 1) {
+    return row[primaryKey[0]]
+  }
+  return Object.fromEntries(primaryKey.map((column) => [column, row[column]]))
+}
+
+function buildSource(
+  invocation: ToolInvocation,
+  result: any,
+  catalog: SchemaCatalog | null
+): AnswerSource | null {
+  if (!DATA_TOOLS.includes(invocation.name) || invocation.error || !result || !Array.isArray(result.data)) {
+    return null
+  }
+
+  const args = invocation.arguments || {}
+  const tables = getTouchedTables(invocation)
+  const table = typeof args.tableName === 'string' ? args.tableName : tables.length === 1 ? tables[0] : null
+  // Aggregates return groups, not table rows, so they have no row ids
+  const primaryKey = table && invocation.name !== 'aggregateTable' ? catalog?.tables[table]?.primaryKey || [] : []
+  const rows: Record<string, any>[] = result.data
+
+  return {
+    toolCallId: invocation.id,
+    tool: invocation.name,
+    table,
+    tables,
+    filters: args.filters && Object.keys(args.filters).length > 0 ? args.filters : null,
+    ...(invocation.name === 'runSql' ? { sql: result.sql || args.sql } : {}),
+    ...(invocation.name === 'aggregateTable' ? { aggregates: args.aggregates, groupBy: args.groupBy || [] } : {}),
+    primaryKey,
+    rowIds: primaryKey.length > 0 ? rows.map((row) => getRowId(row, primaryKey)) : [],
+    rows: rows.slice(0, MAX_SOURCE_ROWS),
+    rowCount: rows.length,
+    totalCount: typeof result.totalCount === 'number' ? result.totalCount : null,
+    truncated: rows.length > MAX_SOURCE_ROWS,
+  }
+}
+
+/**
+ * Sources for the tool calls of one answer
+ * `results` holds the raw tool results keyed by tool call id.
+ */
+export async function buildSources(trace: ToolInvocation[], results: Map<string, any>): Promise<AnswerSource[]> {
+  if (!trace.some((invocation) => DATA_TOOLS.includes(invocation.name))) {
+    return []
+  }
+
+  const { catalog } = await getSchemaCatalog()
+  return trace
+    .map((invocation) => buildSource(invocation, results.get(invocation.id), catalog))
+    .filter((source): source is AnswerSource => source !== null)
+}
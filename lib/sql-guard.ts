@@ -0,0 +1,174 @@
+import { parse, toSql, astVisitor, Statement } from 'pgsql-ast-parser'
+
+/**
+ * Validation for the read-only SQL tool
+ *
+ * SQL from the model is parsed (never pattern-matched) and only accepted when it is a
+ * single SELECT or WITH ... SELECT statement that reads allowlisted tables and calls no
+ * system functions. The accepted statement is re-serialised from the AST and wrapped
+ * in an outer LIMIT, so what runs is exactly what was validated.
+ */
+
+const READ_STATEMENT_TYPES = ['select', 'union', 'union all', 'values', 'with', 'with recursive']
+
+// Functions that expose server internals, files, settings or other databases
+const FORBIDDEN_FUNCTION_PATTERNS = [
+  /^pg_/,
+  /^dblink/,
+  /^lo_/,
+  /^set_config$/,
+  /^current_setting$/,
+  /^query_to_xml/,
+  /^table_to_xml/,
+  /^cursor_to_xml/,
+  /^database_to_xml/,
+  /^schema_to_xml/,
+  /^txid_/,
+  /^version$/,
+  /^inet_server_/,
+]
+
+export interface SqlValidationOptions {
+  maxRows: number
+  // Returns an error message when a table may not be read
+  checkTable: (tableName: string) => string | null
+}
+
+export type SqlValidationResult =
+  | { ok: true; sql: string; tables: string[] }
+  | { ok: false; error: string }
+
+function reject(error: string): SqlValidationResult {
+  return { ok: false, error: `SQL rejected: ${error}` }
+}
+
+/**
+ * Find a nested clause that writes or locks rows (e.g. a data-modifying CTE or FOR UPDATE)
+ */
+function findWriteClause(node: any): string | null {
+  if (!node || typeof node !== 'object') {
+    return null
+  }
+  if (Array.isArray(node)) {
+    for (const child of node) {
+      const found = findWriteClause(child)
+      if (found) {
+        return found
+      }
+    }
+    return null
+  }
+  if (typeof node.type === 'string' && ['insert', 'update', 'delete'].includes(node.type)) {
+    return `${node.type.toUpperCase()} is not allowed, not even inside a WITH clause`
+  }
+  for (const [key, child] of Object.entries(node)) {
+    if (key === 'for' && child) {
+      return 'row locking clauses (FOR UPDATE/FOR SHARE) are not allowed'
+    }
+    const found = findWriteClause(child)
+    if (found) {
+      return found
+    }
+  }
+  return null
+}
+
+/**
+ * Validate a SQL statement for the runSql tool
+ */
+export function validateReadOnlySql(sql: string, options: SqlValidationOptions): SqlValidationResult {
+  if (typeof sql !== 'string' || !sql.trim()) {
+    return reject('the query is empty')
+  }
+
+  let statements: Statement[]
+  try {
+    statements = parse(sql)
+  } catch (err) {
+    const message = err instanceof Error ? err.message.split('\n')[0] : 'parse error'
+    return reject(`could not parse the query (${message})`)
+  }
+
+  if (statements.length !== 1) {
+    return reject(`exactly one statement is allowed, got ${statements.length}`)
+  }
+
+  const statement = statements[0]
+  if (!READ_STATEMENT_TYPES.includes(statement.type)) {
+    return reject(`only SELECT and WITH queries are allowed, got ${statement.type.toUpperCase()}`)
+  }
+
+  const writeClause = findWriteClause(statement)
+  if (writeClause) {
+    return reject(writeClause)
+  }
+
+  const tables = new Set<string>()
+  const errors: string[] = []
+  // Names bound by the WITH clauses enclosing the current node; they shadow tables only there
+  const cteScopes: string[][] = []
+  const isCteName = (name: string) => cteScopes.some((scope) => scope.includes(name))
+
+  astVisitor((visitor) => ({
+    with: (val) => {
+      // A binding sees the bindings before it, the main query sees all of them
+      val.bind.forEach((binding, index) => {
+        cteScopes.push(val.bind.slice(0, index).map((previous) => previous.alias.name))
+        visitor.statement(binding.statement)
+        cteScopes.pop()
+      })
+      cteScopes.push(val.bind.map((binding) => binding.alias.name))
+      visitor.statement(val.in)
+      cteScopes.pop()
+      return val
+    },
+    withRecursive: (val) => {
+      cteScopes.push([val.alias.name])
+      visitor.statement(val.bind)
+      visitor.statement(val.in)
+      cteScopes.pop()
+      return val
+    },
+    tableRef: (table) => {
+      if (table.schema && table.schema !== 'public') {
+        errors.push(`schema "${table.schema}" is not allowed, only tables in "public"`)
+      } else if (!table.schema && isCteName(table.name)) {
+        // Reference to an enclosing WITH binding
+      } else {
+        tables.add(table.name)
+      }
+      visitor.super().tableRef(table)
+    },
+    call: (call) => {
+      const name = call.function.name.toLowerCase()
+      if (call.function.schema) {
+        errors.push(`schema-qualified function "${call.function.schema}.${name}" is not allowed`)
+      } else if (FORBIDDEN_FUNCTION_PATTERNS.some((pattern) => pattern.test(name))) {
+        errors.push(`function "${name}" is not allowed`)
+      }
+      visitor.super().call(call)
+    },
+  })).statement(statement)
+
+  if (errors.length > 0) {
+    return reject(errors[0])
+  }
+
+  for (const table of Array.from(tables)) {
+    if (table.startsWith('pg_')) {
+      return reject(`system table "${table}" is not allowed`)
+    }
+    const tableError = options.checkTable(table)
+    if (tableError) {
+      return reject(tableError)
+    }
+  }
+
+  // Re-serialise from the AST and cap the number of returned rows
+  const normalized = toSql.statement(statement).trim()
+  return {
+    ok: true,
+    sql: `SELECT * FROM (${normalized}) AS run_sql_result LIMIT ${options.maxRows}`,
+    tables: Array.from(tables).sort(),
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Server-Sent Events helpers shared by the streaming API routes and the client
+ */
+
+export interface StreamEvent {
+  type: string
+  [key: string]: any
+}
+
+/**
+ * Create a text/event-stream response
+ * The handler receives a `send` function and a signal that is aborted when the client
+ * disconnects (or `options.signal` is aborted); errors thrown by the handler are emitted
+ * as an `error` event before the stream is closed.
+ */
+export function createEventStreamResponse(
+  handler: (send: (event: StreamEvent) => void, signal: AbortSignal) => Promise<void>,
+  options: { signal?: AbortSignal } = {}
+) {
+  const encoder = new TextEncoder()
+  const abortController = new AbortController()
+  const abort = () => abortController.abort()
+  options.signal?.addEventListener('abort', abort, { once: true })
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      // Nothing can be written once the client is gone
+      const send = (event: StreamEvent) => {
+        if (!abortController.signal.aborted) {
+          controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`))
+        }
+      }
+
+      try {
+        await handler(send, abortController.signal)
+      } catch (error) {
+        if (abortController.signal.aborted) {
+          console.info('Stream cancelled by the client')
+        } else {
+          console.error('Stream error:', error)
+          send({
+            type: 'error',
+            error: error instanceof Error ? error.message : 'An error occurred',
+          })
+        }
+      } finally {
+        options.signal?.removeEventListener('abort', abort)
+        if (!abortController.signal.aborted) {
+          controller.close()
+        }
+      }
+    },
+    cancel() {
+      abort()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  })
+}
+
+/**
+ * Read a text/event-stream response body and call `onEvent` for every parsed event
+ */
+export async function readEventStream(
+  response: Response,
+  onEvent: (event: StreamEvent) => void
+) {
+  if (!response.body) {
+    throw new Error('Response has no body')
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  const flush = (block: string) => {
+    const data = block
+      .split('\n')
+      .filter((line) => line.startsWith('data:'))
+      .map((line) => line.slice(5).trimStart())
+      .join('\n')
+
+    if (data) {
+      onEvent(JSON.parse(data))
+    }
+  }
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) {
+      break
+    }
+
+    buffer += decoder.decode(value, { stream: true })
+    let separatorIndex = buffer.indexOf('\n\n')
+    while (separatorIndex !== -1) {
+      flush(buffer.slice(0, separatorIndex))
+      buffer = buffer.slice(separatorIndex + 2)
+      separatorIndex = buffer.indexOf('\n\n')
+    }
+  }
+
+  if (buffer.trim()) {
+    flush(buffer)
+  }
+}
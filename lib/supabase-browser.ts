@@ -0,0 +1,23 @@
+import { createClient } from '@supabase/supabase-js'
+
+/**
+ * Supabase client for the browser (auth only; all data access goes through the API routes)
+ */
+export const supabaseBrowser = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+)
+
+/**
+ * fetch() for the app's API routes with the user's access token attached
+ */
+export async function authFetch(input: string, init: RequestInit = {}) {
+  const { data } = await supabaseBrowser.auth.getSession()
+  const headers = new Headers(init.headers)
+
+  if (data.session) {
+    headers.set('Authorization', `Bearer ${data.session.access_token}`)
+  }
+
+  return fetch(input, { ...init, headers })
+}
@@ -1,41 +1,104 @@
-import { supabaseAdmin } from './supabase'
+import { getDbClient, supabaseAdmin } from './supabase'
+import { parseFilters, applyFilter, getReferencedTables, getReferencedColumns, splitColumn, renameFilterTables, FilterNode } from './query-filters'
+import { getSchemaCatalog, getRelationships } from './schema-catalog'
+import { resolveJoinPath, describeJoinPath } from './join-resolver'
+import { resolveGraph, buildGraphSelect, listGraphNodes, GraphSpec } from './query-graph'
+import {
+  checkTableAccess,
+  checkColumnAccess,
+  isColumnAllowed,
+  getSelectableColumns,
+  filterAllowedTables,
+  applyColumnPolicy,
+  getDataPolicy,
+} from './data-policy'
+import { validateReadOnlySql } from './sql-guard'
+
+const DEFAULT_SQL_MAX_ROWS = 200
+const DEFAULT_SQL_TIMEOUT_MS = 5000
+
+function readPositiveInt(value: string | undefined, fallback: number) {
+  const parsed = parseInt(value || '', 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+/**
+ * Tables that runSql may read: exposed by the policy, without column restrictions and
+ * read with the service role
+ * Column allowlists, denied and masked columns cannot be enforced on free-form SQL, and
+ * exec_readonly_sql is only callable with the service role, so RLS does not apply to it.
+ * Other tables are only available through the structured query tools.
+ */
+function checkSqlTableAccess(tableName: string): string | null {
+  const accessError = checkTableAccess(tableName)
+  if (accessError) {
+    return accessError
+  }
+  const { policy } = getDataPolicy()
+  const tablePolicy = policy.tables[tableName]
+  if (tablePolicy.columns || tablePolicy.deniedColumns?.length || Object.keys(tablePolicy.masked || {}).length > 0) {
+    return `table "${tableName}" has column restrictions and can only be read with queryTable, queryTableWithJoin or aggregateTable`
+  }
+  if (!policy.serviceRoleTables.includes(tableName)) {
+    return `table "${tableName}" is read under the user's row level security and can only be read with queryTable, queryTableWithJoin or aggregateTable`
+  }
+  return null
+}
+
+/**
+ * Tables runSql may read under the current policy; without any, the tool is not offered
+ */
+export function getSqlTables() {
+  return Object.keys(getDataPolicy().policy.tables).filter((tableName) => !checkSqlTableAccess(tableName))
+}
 
 /**
- * Execute a read-only SQL query via Supabase REST API
- * Note: This requires the service role key and uses the REST API directly
+ * Run a validated read-only SQL query
+ * The query must be a single SELECT/WITH statement over allowlisted tables (see sql-guard).
+ * It is executed by the exec_readonly_sql RPC inside a read-only transaction with a
+ * statement timeout, and at most SQL_TOOL_MAX_ROWS rows are returned. Only the service
+ * role may call the RPC, so users cannot send it SQL that skipped these checks.
  */
-export async function executeReadOnlyQuery(sql: string) {
+export async function runSql(sql: string, options: { signal?: AbortSignal } = {}) {
+  const maxRows = readPositiveInt(process.env.SQL_TOOL_MAX_ROWS, DEFAULT_SQL_MAX_ROWS)
+  const timeoutMs = readPositiveInt(process.env.SQL_TOOL_TIMEOUT_MS, DEFAULT_SQL_TIMEOUT_MS)
+
+  const validation = validateReadOnlySql(sql, { maxRows, checkTable: checkSqlTableAccess })
+  if (!validation.ok) {
+    return { data: null, sql: null, error: validation.error }
+  }
+
   try {
-    if (!supabaseAdmin) {
+    const db = supabaseAdmin
+    if (!db) {
       throw new Error('Service role key not configured')
     }
 
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
-    const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
-
-    // Use Supabase REST API for raw SQL queries
-    const response = await fetch(`${supabaseUrl}/rest/v1/rpc/exec_sql`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'apikey': serviceKey,
-        'Authorization': `Bearer ${serviceKey}`,
-      },
-      body: JSON.stringify({ query: sql }),
-    })
+    // GET requests run in a read-only transaction on the PostgREST side as well
+    const { data, error } = await withAbortSignal(db.rpc(
+      'exec_readonly_sql',
+      { query: validation.sql, timeout_ms: timeoutMs },
+      { get: true }
+    ), options.signal)
 
-    if (!response.ok) {
-      // Fallback: try to query tables directly using Supabase client methods
-      // This is a safer approach that works with the standard client
-      throw new Error('Direct SQL execution requires custom RPC function')
+    if (error) {
+      throw new Error(error.message)
     }
 
-    const data = await response.json()
-    return { data, error: null }
+    const rows = Array.isArray(data) ? data : []
+    return {
+      data: rows,
+      sql: validation.sql,
+      tables: validation.tables,
+      rowCount: rows.length,
+      truncated: rows.length >= maxRows,
+      error: null,
+    }
   } catch (err) {
     // Return error for OpenAI to handle
     return {
       data: null,
+      sql: validation.sql,
       error: err instanceof Error ? err.message : 'Query execution failed'
     }
   }
@@ -43,145 +106,89 @@ export async function executeReadOnlyQuery(sql: string) {
 
 /**
  * Get table names from Supabase
- * Uses PostgREST introspection to discover available tables
+ * Uses the cached schema catalog (PostgREST OpenAPI introspection)
  */
 export async function getTableNames() {
-  try {
-    if (!supabaseAdmin) {
-      return { 
-        tables: [], 
-        error: 'Service role key not configured. Please set SUPABASE_SERVICE_ROLE_KEY in your environment variables.' 
-      }
-    }
-
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
-    const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
-
-    // Try to get schema information using PostgREST's OpenAPI endpoint
-    try {
-      const response = await fetch(`${supabaseUrl}/rest/v1/`, {
-        method: 'GET',
-        headers: {
-          'apikey': serviceKey,
-          'Authorization': `Bearer ${serviceKey}`,
-        },
-      })
-
-      if (response.ok) {
-        // The root endpoint returns OpenAPI schema
-        const schema = await response.json()
-        
-        // Extract table names from the OpenAPI paths
-        if (schema.paths) {
-          const tables = Object.keys(schema.paths)
-            .filter(path => path.startsWith('/') && !path.includes('rpc'))
-            .map(path => path.replace(/^\//, ''))
-            .filter(table => table && !table.includes('{'))
-          
-          if (tables.length > 0) {
-            return { tables, error: null }
-          }
-        }
-      }
-    } catch (fetchError) {
-      // Fall through to alternative method
-      console.log('OpenAPI introspection failed, trying alternative method')
-    }
-
-    // Alternative: Try to query information_schema via RPC
-    // This requires a custom RPC function in Supabase
-    try {
-      const { data, error } = await supabaseAdmin.rpc('get_table_names')
-      
-      if (!error && data) {
-        return { tables: data, error: null }
-      }
-    } catch (rpcError) {
-      // RPC function doesn't exist, continue to next method
-    }
-
-    // Last resort: Try querying information_schema directly via REST
-    // Note: This may not work due to RLS, but worth trying
-    try {
-      const response = await fetch(
-        `${supabaseUrl}/rest/v1/information_schema.tables?table_schema=eq.public&select=table_name`,
-        {
-          method: 'GET',
-          headers: {
-            'apikey': serviceKey,
-            'Authorization': `Bearer ${serviceKey}`,
-            'Prefer': 'return=representation',
-          },
-        }
-      )
-
-      if (response.ok) {
-        const data = await response.json()
-        if (Array.isArray(data) && data.length > 0) {
-          const tables = data.map((row: any) => row.table_name).filter(Boolean)
-          if (tables.length > 0) {
-            return { tables, error: null }
-          }
-        }
-      }
-    } catch (infoSchemaError) {
-      // information_schema query failed
-    }
+  const { catalog, error } = await getSchemaCatalog()
 
-    // If all methods fail, return empty with helpful message
-    return { 
-      tables: [], 
-      error: 'Could not automatically discover tables. You can still query tables by name using the queryTable function. Common table names might include: users, products, orders, etc. Try asking about specific data and I will attempt to query the relevant tables.' 
-    }
-  } catch (err) {
+  if (!catalog) {
     return {
       tables: [],
-      error: err instanceof Error ? err.message : 'Unknown error while fetching table names'
+      error: `Could not discover tables: ${error}. You can still query tables by name using the queryTable function.`
     }
   }
+
+  return { tables: filterAllowedTables(Object.keys(catalog.tables)).sort(), error: null }
 }
 
 /**
- * Get table structure (columns) for a specific table
- * This helps understand what fields are available
+ * Get table structure for a specific table from the schema catalog
+ * Returns column names, Postgres types, nullability, primary key and foreign-key relationships.
+ * A sample row is included when the table has data, to help understand the values.
  */
-export async function getTableStructure(tableName: string) {
+export async function getTableStructure(tableName: string, options: { signal?: AbortSignal } = {}) {
   try {
-    if (!supabaseAdmin) {
-      return {
-        columns: [],
-        error: 'Service role key not configured'
-      }
+    const accessError = checkTableAccess(tableName)
+    if (accessError) {
+      return { columns: [], error: accessError }
     }
 
-    // Try to get one row to see the structure
-    const { data, error } = await supabaseAdmin
-      .from(tableName)
-      .select('*')
-      .limit(1)
+    const { catalog, error } = await getSchemaCatalog()
 
-    if (error) {
+    if (!catalog) {
       return {
         columns: [],
-        error: error.message
+        error: `Could not load schema information: ${error}`
       }
     }
 
-    // Extract column names from the first row
-    if (data && data.length > 0) {
-      const columns = Object.keys(data[0])
+    const table = catalog.tables[tableName]
+    if (!table) {
       return {
-        columns,
-        error: null,
-        sampleRow: data[0] // Include a sample row to help understand data types
+        columns: [],
+        error: `Table "${tableName}" does not exist. Available tables: ${filterAllowedTables(Object.keys(catalog.tables)).sort().join(', ')}`
       }
     }
 
-    // If no data but table exists, try to infer from error or return empty
+    // Hide denied columns and relationships to tables that are not exposed
+    const columns = table.columns.filter((column) => isColumnAllowed(tableName, column.name))
+    const allowedTables = filterAllowedTables(Object.keys(catalog.tables))
+    const foreignKeys = table.foreignKeys.filter((fk) =>
+      isColumnAllowed(tableName, fk.column) && allowedTables.includes(fk.referencedTable)
+    )
+    const incoming = getRelationships(catalog, tableName).incoming.filter((fk) =>
+      allowedTables.includes(fk.table) && isColumnAllowed(fk.table, fk.column)
+    )
+    let sampleRow: Record<string, any> | null = null
+
+    const db = getDbClient([tableName])
+    if (db) {
+      const { data } = await withAbortSignal(db.from(tableName).select(getSelectableColumns(tableName)).limit(1), options.signal)
+      sampleRow = data && data.length > 0 ? applyColumnPolicy(tableName, data[0]) : null
+    }
+
     return {
-      columns: [],
-      error: null,
-      message: 'Table exists but contains no data'
+      columns: columns.map((column) => column.name),
+      columnDetails: columns.map((column) => ({
+        name: column.name,
+        type: column.type,
+        nullable: column.nullable,
+        primaryKey: column.isPrimaryKey,
+        ...(column.description ? { description: column.description } : {}),
+      })),
+      primaryKey: table.primaryKey,
+      foreignKeys: foreignKeys.map((fk) => ({
+        column: fk.column,
+        references: `${fk.referencedTable}.${fk.referencedColumn}`,
+      })),
+      referencedBy: incoming.map((fk) => ({
+        table: fk.table,
+        column: fk.column,
+        references: `${fk.referencedTable}.${fk.referencedColumn}`,
+      })),
+      ...(table.description ? { description: table.description } : {}),
+      sampleRow,
+      error: null
     }
   } catch (err) {
     return {
@@ -191,85 +198,208 @@ export async function getTableStructure(tableName: string) {
   }
 }
 
+export interface OrderBySpec {
+  column: string
+  direction?: 'asc' | 'desc'
+  nulls?: 'first' | 'last'
+}
+
+/**
+ * Sorting, pagination and projection options for queryTable and queryTableWithJoin
+ */
+export interface QueryOptions {
+  orderBy?: OrderBySpec[]
+  offset?: number
+  columns?: string[]
+  joinColumns?: string[]
+  // Aborts the database request (tool timeout or cancelled chat request)
+  signal?: AbortSignal
+}
+
+/**
+ * Attach an abort signal to a PostgREST query, if there is one
+ */
+function withAbortSignal<T>(builder: T, signal?: AbortSignal): T {
+  return signal ? (builder as any).abortSignal(signal) : builder
+}
+
+/**
+ * Apply ordering to a PostgREST query
+ */
+function applyOrdering<T>(builder: T, orderBy: OrderBySpec[] = []): T {
+  let query: any = builder
+
+  for (const order of orderBy) {
+    query = query.order(order.column, {
+      ascending: order.direction !== 'desc',
+      ...(order.nulls ? { nullsFirst: order.nulls === 'first' } : {}),
+    })
+  }
+
+  return query
+}
+
+/**
+ * Columns that give the rows of a table a stable order for paging: its primary key from
+ * the schema catalog, or none when the catalog does not know one
+ */
+async function getStableOrderColumns(tableName: string): Promise<string[]> {
+  const { catalog } = await getSchemaCatalog()
+  return catalog?.tables[tableName]?.primaryKey || []
+}
+
+/**
+ * Ordering for an offset page: the requested one, or the primary key so that consecutive
+ * pages neither repeat nor miss rows
+ */
+async function getPageOrdering(tableName: string, orderBy?: OrderBySpec[]): Promise<OrderBySpec[]> {
+  if (orderBy && orderBy.length > 0) {
+    return orderBy
+  }
+  const columns = await getStableOrderColumns(tableName)
+  return columns.filter((column) => isColumnAllowed(tableName, column)).map((column) => ({ column }))
+}
+
+/**
+ * Pagination info so the model knows whether it saw every matching row
+ */
+function buildPageInfo(rowCount: number, offset: number, limit: number, totalCount: number | null) {
+  const hasMore = totalCount !== null ? offset + rowCount < totalCount : rowCount === limit
+  return {
+    totalCount,
+    hasMore,
+    nextOffset: hasMore ? offset + rowCount : null,
+  }
+}
+
+/**
+ * Check tables and columns used by a query against the data policy
+ * Returns an error message for the first denied table or column.
+ */
+function checkQueryAccess(
+  tableName: string,
+  access: {
+    columns?: string[]
+    filter?: FilterNode | null
+    orderBy?: OrderBySpec[]
+    joins?: { table: string; columns?: string[] }[]
+    protectedColumns?: string[]
+  }
+): string | null {
+  const tables = [tableName, ...(access.joins || []).map((join) => join.table)]
+  for (const table of tables) {
+    const tableError = checkTableAccess(table)
+    if (tableError) {
+      return tableError
+    }
+  }
+
+  const columnError = checkColumnAccess(tableName, access.columns || [], { allowMasked: true })
+    || checkColumnAccess(tableName, access.protectedColumns || [])
+  if (columnError) {
+    return columnError
+  }
+
+  for (const join of access.joins || []) {
+    const joinError = checkColumnAccess(join.table, join.columns || [], { allowMasked: true })
+    if (joinError) {
+      return joinError
+    }
+  }
+
+  // Filtering and sorting on a column could reveal its values, so both must be allowed
+  const usedColumns = [
+    ...getReferencedColumns(access.filter || null),
+    ...(access.orderBy || []).map((order) => order.column),
+  ]
+  for (const usedColumn of usedColumns) {
+    const { table, column } = splitColumn(usedColumn)
+    const usedTable = table || tableName
+    const usedError = checkTableAccess(usedTable) || checkColumnAccess(usedTable, [column])
+    if (usedError) {
+      return usedError
+    }
+  }
+
+  return null
+}
+
+/**
+ * Parse a raw join such as "prices(*)" or "prices!material_id(id, amount)" into table and columns
+ * Aliases are rejected: embedded rows must come back under the table name for the column
+ * policy to apply to them.
+ */
+function parseJoinSyntax(join: string): { table: string; columns?: string[]; error?: string } {
+  const match = join.trim().match(/^(\w+)(?:!\w+)*\s*(?:\(([^()]*)\))?$/)
+  if (!match) {
+    return { table: join, error: `Unsupported join "${join}". Use "table(*)" or "table(col1, col2)" without aliases; nested joins are not supported here, use queryTableWithJoin instead.` }
+  }
+  const columns = match[2]?.split(',').map((column) => column.trim()).filter((column) => column && column !== '*')
+  return { table: match[1], columns }
+}
+
 /**
  * Query a specific table with filters and optional joins
- * Supports various filter types: eq, neq, gt, gte, lt, lte, like, ilike, in
+ * Filters use the grammar from query-filters (conditions, and/or/not groups, joined-table columns)
  * Supports joins using Supabase's relationship syntax: 'related_table(*)'
+ * Supports ordering, offset pagination and column projection via options
  */
 export async function queryTable(
   tableName: string,
   filters: Record<string, any> = {},
   limit: number = 100,
-  joins?: string[]
+  joins?: string[],
+  options: QueryOptions = {}
 ) {
   try {
-    if (!supabaseAdmin) {
+    const { filter, error: filterError } = parseFilters(filters)
+    if (filterError) {
+      return { data: null, error: filterError }
+    }
+
+    const parsedJoins = (joins || []).map(parseJoinSyntax)
+    const joinSyntaxError = parsedJoins.find((join) => join.error)?.error
+    if (joinSyntaxError) {
+      return { data: null, error: joinSyntaxError }
+    }
+
+    const accessError = checkQueryAccess(tableName, {
+      columns: options.columns,
+      filter,
+      orderBy: options.orderBy,
+      joins: parsedJoins,
+    })
+    if (accessError) {
+      return { data: null, error: accessError }
+    }
+
+    const db = getDbClient([tableName, ...parsedJoins.map((join) => join.table)])
+    if (!db) {
       return {
         data: null,
         error: 'Service role key not configured. Please set SUPABASE_SERVICE_ROLE_KEY in your environment variables.'
       }
     }
 
-    // Build select statement with joins if provided
-    let selectStatement = '*'
+    const offset = options.offset || 0
+
+    // Build select statement with projection and joins if provided
+    let selectStatement = getSelectableColumns(tableName, options.columns)
     if (joins && joins.length > 0) {
-      selectStatement = `*, ${joins.join(', ')}`
+      selectStatement = `${selectStatement}, ${joins.join(', ')}`
     }
 
-    let query = supabaseAdmin.from(tableName).select(selectStatement).limit(limit)
-
-    // Apply filters
-    // Support both simple key-value (defaults to eq) and advanced filter objects
-    for (const [key, value] of Object.entries(filters)) {
-      if (value === undefined || value === null) {
-        continue
-      }
+    let query = db
+      .from(tableName)
+      .select(selectStatement, { count: 'exact' })
+      .range(offset, offset + limit - 1)
 
-      // If value is an object with filter type, use it
-      if (typeof value === 'object' && !Array.isArray(value) && value.type) {
-        const filterType = value.type
-        const filterValue = value.value
-
-        switch (filterType) {
-          case 'eq':
-            query = query.eq(key, filterValue)
-            break
-          case 'neq':
-            query = query.neq(key, filterValue)
-            break
-          case 'gt':
-            query = query.gt(key, filterValue)
-            break
-          case 'gte':
-            query = query.gte(key, filterValue)
-            break
-          case 'lt':
-            query = query.lt(key, filterValue)
-            break
-          case 'lte':
-            query = query.lte(key, filterValue)
-            break
-          case 'like':
-            query = query.like(key, `%${filterValue}%`)
-            break
-          case 'ilike':
-            query = query.ilike(key, `%${filterValue}%`)
-            break
-          case 'in':
-            if (Array.isArray(filterValue)) {
-              query = query.in(key, filterValue)
-            }
-            break
-          default:
-            query = query.eq(key, filterValue)
-        }
-      } else {
-        // Simple equality filter
-        query = query.eq(key, value)
-      }
-    }
+    // Apply filters and ordering
+    query = applyFilter(query, filter)
+    query = applyOrdering(query, await getPageOrdering(tableName, options.orderBy))
+    query = withAbortSignal(query, options.signal)
 
-    const { data, error } = await query
+    const { data, error, count } = await query
 
     if (error) {
       // Provide more helpful error messages with full error details
@@ -292,7 +422,8 @@ export async function queryTable(
       }
     }
 
-    return { data: data || [], error: null }
+    const rows = applyColumnPolicy(tableName, data || [])
+    return { data: rows, ...buildPageInfo(rows.length, offset, limit, count), error: null }
   } catch (err) {
     return {
       data: null,
@@ -301,170 +432,460 @@ export async function queryTable(
   }
 }
 
+/**
+ * Nested embed for a join path, innermost table last:
+ * "t_material_prices!material_id(*, t_suppliers!supplier_id(name))"
+ * Steps up to `innerDepth` are inner joins, so filters on them restrict the main rows.
+ */
+function buildEmbedSelect(
+  path: { table: string; column?: string }[],
+  joinSelect: string,
+  innerDepth: number
+) {
+  let embed = ''
+  for (let index = path.length - 1; index >= 0; index--) {
+    const step = path[index]
+    const columns = index === path.length - 1 ? joinSelect : getSelectableColumns(step.table)
+    const hint = step.column ? `!${step.column}` : ''
+    const inner = index <= innerDepth ? '!inner' : ''
+    embed = `${step.table}${hint}${inner}(${columns}${embed ? `, ${embed}` : ''})`
+  }
+  return embed
+}
+
 /**
  * Query a table with a join to a related table
  * This is useful when data is spread across multiple related tables
  * Example: queryTableWithJoin('t_materials', 't_material_prices', 'material_id') to get materials with their prices
- * 
- * Note: In Supabase PostgREST, joins work when:
- * - joinTable has a foreign key column pointing to tableName
- * - Syntax: joinTable!foreign_key_column(*) or joinTable(*) for auto-detection
+ *
+ * The join path is resolved from the schema catalog's foreign keys (join-resolver): a direct
+ * relationship in either direction, many-to-many through a junction table, or several hops.
+ * Each step is embedded with PostgREST's hint syntax, nested along the path:
+ * joinTable!foreign_key_column(*). An ambiguous relationship is reported, not guessed;
+ * without the catalog PostgREST resolves the relationship itself.
  */
 export async function queryTableWithJoin(
   tableName: string,
   joinTable: string,
   joinColumn?: string,
   filters: Record<string, any> = {},
-  limit: number = 100
+  limit: number = 100,
+  options: QueryOptions & { via?: string[] } = {}
 ) {
-  if (!supabaseAdmin) {
+  const via = options.via || []
+  const { filter, error: filterError } = parseFilters(filters)
+  if (filterError) {
+    return { data: null, error: filterError }
+  }
+
+  let path: { table: string; column?: string }[]
+  let joinPath: string | undefined
+  const { catalog } = await getSchemaCatalog()
+
+  if (catalog) {
+    const { path: resolved, error: joinError } = resolveJoinPath(catalog, tableName, joinTable, { joinColumn, via })
+    if (!resolved) {
+      return { data: null, error: joinError }
+    }
+    path = resolved
+    joinPath = describeJoinPath(resolved)
+  } else {
+    path = [...via.map((table) => ({ table })), { table: joinTable, column: joinColumn }]
+  }
+
+  const pathTables = path.map((step) => step.table)
+  const accessError = checkQueryAccess(tableName, {
+    columns: options.columns,
+    filter,
+    orderBy: options.orderBy,
+    joins: path.map((step, index) => ({
+      table: step.table,
+      columns: index === path.length - 1 ? options.joinColumns : undefined,
+    })),
+  })
+  if (accessError) {
+    return { data: null, error: accessError }
+  }
+
+  const filterTables = getReferencedTables(filter)
+  const outsideTable = filterTables.find((table) => !pathTables.includes(table))
+  if (outsideTable) {
+    return {
+      data: null,
+      error: `Filter on "${outsideTable}" is not possible: the join from "${tableName}" only includes ${pathTables.join(', ')}.`,
+    }
+  }
+
+  const db = getDbClient([tableName, ...pathTables])
+  if (!db) {
     return {
       data: null,
       error: 'Service role key not configured'
     }
   }
 
-  // Try multiple join patterns
-  const joinPatterns: string[] = []
-  
-  if (joinColumn) {
-    // Pattern 1: Explicit foreign key: joinTable!joinColumn(*)
-    joinPatterns.push(`${joinTable}!${joinColumn}(*)`)
-    // Pattern 2: Try with table prefix removed from column name
-    const columnWithoutPrefix = joinColumn.replace(/^.*_/, '')
-    if (columnWithoutPrefix !== joinColumn) {
-      joinPatterns.push(`${joinTable}!${columnWithoutPrefix}(*)`)
-    }
-  }
-  
-  // Pattern 3: Auto-detect (Supabase will try to find the relationship)
-  joinPatterns.push(`${joinTable}(*)`)
-  
-  // Pattern 4: Try common foreign key naming patterns
-  const commonFkNames = [
-    `${tableName.replace('t_', '')}_id`,
-    `id_${tableName.replace('t_', '')}`,
-    `${tableName}_id`,
-    'material_id',
-    'product_id',
-    'item_id'
-  ]
-  
-  for (const fkName of commonFkNames) {
-    if (fkName !== joinColumn) {
-      joinPatterns.push(`${joinTable}!${fkName}(*)`)
+  // Joined columns are addressed by their embed path, e.g. t_material_prices.t_suppliers.name
+  const embedPaths = new Map(path.map((step, index) => [step.table, pathTables.slice(0, index + 1).join('.')]))
+  const embeddedFilter = filter ? renameFilterTables(filter, (table) => embedPaths.get(table) || table) : null
+  const innerDepth = Math.max(-1, ...filterTables.map((table) => pathTables.indexOf(table)))
+
+  const offset = options.offset || 0
+  const mainSelect = getSelectableColumns(tableName, options.columns)
+  const embed = buildEmbedSelect(path, getSelectableColumns(joinTable, options.joinColumns), innerDepth)
+
+  try {
+    let query = db
+      .from(tableName)
+      .select(`${mainSelect}, ${embed}`, { count: 'exact' })
+      .range(offset, offset + limit - 1)
+
+    // Apply filters and ordering
+    query = applyFilter(query, embeddedFilter)
+    query = applyOrdering(query, await getPageOrdering(tableName, options.orderBy))
+    query = withAbortSignal(query, options.signal)
+
+    const { data, error, count } = await query
+
+    if (error) {
+      return {
+        data: null,
+        error: `Join of "${tableName}" with "${joinTable}" failed: ${error.message || JSON.stringify(error)}. Code: ${error.code || 'unknown'}`
+      }
+    }
+
+    const rows = applyColumnPolicy(tableName, data || [])
+    return {
+      data: rows,
+      ...buildPageInfo(rows.length, offset, limit, count),
+      ...(joinPath ? { joinPath } : {}),
+      error: null,
+    }
+  } catch (err) {
+    return {
+      data: null,
+      error: err instanceof Error ? err.message : 'Query failed'
+    }
+  }
+}
+
+/**
+ * Query a root table with a tree of related tables in one request (see query-graph)
+ * Each relation has its own columns, filters, ordering and limit; `offset` pages through
+ * the root rows. The tree is validated against the schema catalog, so the catalog is required.
+ */
+export async function queryGraph(
+  spec: GraphSpec,
+  options: { offset?: number; signal?: AbortSignal } = {}
+) {
+  const { catalog, error: catalogError } = await getSchemaCatalog()
+  if (!catalog) {
+    return { data: null, error: `queryGraph needs the schema catalog, which is unavailable: ${catalogError}. Use queryTableWithJoin instead.` }
+  }
+
+  const { graph, error: graphError } = resolveGraph(catalog, spec)
+  if (!graph) {
+    return { data: null, error: graphError }
+  }
+
+  const nodes = listGraphNodes(graph)
+  const db = getDbClient(nodes.map((node) => node.table))
+  if (!db) {
+    return {
+      data: null,
+      error: 'Service role key not configured'
+    }
+  }
+
+  const offset = options.offset || 0
+  const limit = graph.limit || 100
+
+  try {
+    let query: any = db
+      .from(graph.table)
+      .select(buildGraphSelect(graph), { count: 'exact' })
+      .range(offset, offset + limit - 1)
+
+    // Filters, ordering and limits of related tables apply to their embed path
+    for (const node of nodes) {
+      const referencedTable = node.path ? { referencedTable: node.path } : {}
+      query = applyFilter(query, node.filter)
+      for (const order of node.orderBy) {
+        query = query.order(order.column, {
+          ascending: order.direction !== 'desc',
+          ...(order.nulls ? { nullsFirst: order.nulls === 'first' } : {}),
+          ...referencedTable,
+        })
+      }
+      if (node.path && node.limit) {
+        query = query.limit(node.limit, referencedTable)
+      }
+    }
+    query = withAbortSignal(query, options.signal)
+
+    const { data, error, count } = await query
+
+    if (error) {
+      return {
+        data: null,
+        error: `Query failed: ${error.message || JSON.stringify(error)}. Code: ${error.code || 'unknown'}`
+      }
     }
+
+    const rows = applyColumnPolicy(graph.table, data || [])
+    return { data: rows, ...buildPageInfo(rows.length, offset, limit, count), error: null }
+  } catch (err) {
+    return {
+      data: null,
+      error: err instanceof Error ? err.message : 'Query failed'
+    }
+  }
+}
+
+const AGGREGATE_PAGE_SIZE = 1000
+const AGGREGATE_MAX_ROWS = 100000
+
+export type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max'
+
+export interface AggregateSpec {
+  function: AggregateFunction
+  column?: string
+  alias?: string
+}
+
+function getAggregateAlias(spec: AggregateSpec) {
+  return spec.alias || (spec.column ? `${spec.function}_${spec.column}` : spec.function)
+}
+
+// Running state of one aggregate in one group, so pages do not have to be kept in memory
+interface AggregateState {
+  count: number
+  sum: number
+  extreme: any
+}
+
+/**
+ * Add one row to the running state of an aggregate
+ * Null values are ignored like in SQL; count without a column counts rows.
+ */
+function accumulateAggregate(spec: AggregateSpec, state: AggregateState, row: Record<string, any>) {
+  if (!spec.column) {
+    state.count++
+    return
   }
 
-  // Try each pattern until one works
-  for (const joinSyntax of joinPatterns) {
-    try {
-      let query = supabaseAdmin
-        .from(tableName)
-        .select(`*, ${joinSyntax}`)
-        .limit(limit)
+  const value = row[spec.column]
+  if (value === null || value === undefined) {
+    return
+  }
+  state.count++
 
-      // Apply filters
-      for (const [key, value] of Object.entries(filters)) {
-        if (value === undefined || value === null) {
-          continue
+  if (spec.function === 'min' || spec.function === 'max') {
+    const comparable = typeof value === 'string' && !isNaN(Number(value)) ? Number(value) : value
+    if (state.count === 1 || (spec.function === 'min' ? comparable < state.extreme : comparable > state.extreme)) {
+      state.extreme = comparable
+    }
+    return
+  }
+
+  if (spec.function === 'sum' || spec.function === 'avg') {
+    const number = Number(value)
+    if (isNaN(number)) {
+      throw new Error(`Column "${spec.column}" contains non-numeric values and cannot be used with ${spec.function}`)
+    }
+    state.sum += number
+  }
+}
+
+/**
+ * Final value of an aggregate from its running state
+ */
+function finishAggregate(spec: AggregateSpec, state: AggregateState) {
+  if (spec.function === 'count') {
+    return state.count
+  }
+  if (state.count === 0) {
+    return null
+  }
+  if (spec.function === 'min' || spec.function === 'max') {
+    return state.extreme
+  }
+
+  const result = spec.function === 'sum' ? state.sum : state.sum / state.count
+  // Remove floating point noise such as 0.30000000000000004
+  return Math.round(result * 1e6) / 1e6
+}
+
+/**
+ * Aggregate a table (count, sum, avg, min, max), optionally grouped by one or more columns
+ * Uses the same filter syntax as queryTable. All matching rows are read page by page so the
+ * result covers the complete data set instead of a truncated sample. Pages are ordered by
+ * the primary key (or, without the catalog, by the columns read), so no row is skipped or
+ * counted twice, and only the running aggregates per group are kept in memory.
+ * Example: aggregateTable('t_material_prices', [{ function: 'avg', column: 'cost_per_unit' }], ['category'])
+ */
+export async function aggregateTable(
+  tableName: string,
+  aggregates: AggregateSpec[],
+  groupBy: string[] = [],
+  filters: Record<string, any> = {},
+  options: { signal?: AbortSignal } = {}
+) {
+  try {
+    const db = getDbClient([tableName])
+    if (!db) {
+      return {
+        data: null,
+        error: 'Service role key not configured. Please set SUPABASE_SERVICE_ROLE_KEY in your environment variables.'
+      }
+    }
+
+    if (!aggregates || aggregates.length === 0) {
+      return { data: null, error: 'At least one aggregate is required, e.g. { "function": "count" }' }
+    }
+
+    for (const spec of aggregates) {
+      if (!['count', 'sum', 'avg', 'min', 'max'].includes(spec.function)) {
+        return { data: null, error: `Unknown aggregate function "${spec.function}". Use count, sum, avg, min or max.` }
+      }
+      if (spec.function !== 'count' && !spec.column) {
+        return { data: null, error: `Aggregate function "${spec.function}" requires a column` }
+      }
+    }
+
+    const { filter, error: filterError } = parseFilters(filters)
+    if (filterError) {
+      return { data: null, error: filterError }
+    }
+
+    // Aggregates over masked columns would reveal their values; count without a column is always allowed
+    const accessError = checkQueryAccess(tableName, {
+      filter,
+      protectedColumns: [
+        ...groupBy,
+        ...aggregates.map((spec) => spec.column).filter((column): column is string => !!column),
+      ],
+    })
+    if (accessError) {
+      return { data: null, error: accessError }
+    }
+
+    // Only read the columns needed for grouping and aggregation
+    const neededColumns = Array.from(new Set([
+      ...groupBy,
+      ...aggregates.map((spec) => spec.column).filter((column): column is string => !!column),
+    ]))
+
+    // Plain row counts without grouping come from one count query instead of reading every row
+    if (groupBy.length === 0 && aggregates.every((spec) => spec.function === 'count' && !spec.column)) {
+      const { error, count } = await withAbortSignal(applyFilter(
+        db.from(tableName).select('*', { count: 'exact', head: true }),
+        filter
+      ), options.signal)
+
+      if (error) {
+        return {
+          data: null,
+          error: `Aggregation failed: ${error.message || JSON.stringify(error)}. Code: ${error.code || 'unknown'}`
+        }
+      }
+
+      const state = { count: count || 0, sum: 0, extreme: null }
+      const result = Object.fromEntries(aggregates.map((spec) => [getAggregateAlias(spec), finishAggregate(spec, state)]))
+      return { data: [result], rowCount: count || 0, groupCount: 1, error: null }
+    }
+
+    // Offset pages only neither skip nor repeat rows in primary key order; without one,
+    // the needed columns order a single page and more rows are refused below
+    const primaryKey = await getStableOrderColumns(tableName)
+    const orderColumns = primaryKey.length > 0 ? primaryKey : neededColumns
+    const selectStatement = neededColumns.join(',')
+
+    // Running aggregates per group, keyed by the values of the group-by columns
+    const groups = new Map<string, { values: Record<string, any>; states: AggregateState[] }>()
+    let rowCount = 0
+    let totalCount: number | null = null
+
+    while (true) {
+      if (options.signal?.aborted) {
+        return { data: null, error: 'Aggregation was cancelled' }
+      }
+      const query = withAbortSignal(applyOrdering(applyFilter(
+        db
+          .from(tableName)
+          .select(selectStatement, { count: 'exact' })
+          .range(rowCount, rowCount + AGGREGATE_PAGE_SIZE - 1),
+        filter
+      ), orderColumns.map((column) => ({ column }))), options.signal)
+
+      const { data, error, count } = await query
+
+      if (error) {
+        return {
+          data: null,
+          error: `Aggregation failed: ${error.message || JSON.stringify(error)}. Code: ${error.code || 'unknown'}`
         }
+      }
 
-        if (typeof value === 'object' && !Array.isArray(value) && value.type) {
-          const filterType = value.type
-          const filterValue = value.value
-
-          switch (filterType) {
-            case 'eq':
-              query = query.eq(key, filterValue)
-              break
-            case 'neq':
-              query = query.neq(key, filterValue)
-              break
-            case 'gt':
-              query = query.gt(key, filterValue)
-              break
-            case 'gte':
-              query = query.gte(key, filterValue)
-              break
-            case 'lt':
-              query = query.lt(key, filterValue)
-              break
-            case 'lte':
-              query = query.lte(key, filterValue)
-              break
-            case 'like':
-              query = query.like(key, `%${filterValue}%`)
-              break
-            case 'ilike':
-              query = query.ilike(key, `%${filterValue}%`)
-              break
-            case 'in':
-              if (Array.isArray(filterValue)) {
-                query = query.in(key, filterValue)
-              }
-              break
-            default:
-              query = query.eq(key, filterValue)
+      if (totalCount === null) {
+        totalCount = count ?? null
+        if (totalCount !== null && totalCount > AGGREGATE_MAX_ROWS) {
+          return {
+            data: null,
+            error: `Too many rows to aggregate (${totalCount}, maximum ${AGGREGATE_MAX_ROWS}). Add filters to narrow the data set.`
           }
-        } else {
-          query = query.eq(key, value)
         }
       }
 
-      const { data, error } = await query
+      const page = (data || []) as unknown as Record<string, any>[]
+      for (const row of page) {
+        const key = JSON.stringify(groupBy.map((column) => row[column] ?? null))
+        let group = groups.get(key)
+        if (!group) {
+          group = {
+            values: Object.fromEntries(groupBy.map((column) => [column, row[column] ?? null])),
+            states: aggregates.map(() => ({ count: 0, sum: 0, extreme: null })),
+          }
+          groups.set(key, group)
+        }
+        aggregates.forEach((spec, index) => accumulateAggregate(spec, group!.states[index], row))
+      }
+      rowCount += page.length
 
-      if (!error && data) {
-        return { data, error: null }
+      if (page.length < AGGREGATE_PAGE_SIZE || (totalCount !== null && rowCount >= totalCount)) {
+        break
       }
 
-      // If error, continue to next pattern unless it's a clear table-not-found error
-      if (error && error.code === 'PGRST116') {
-        // Table doesn't exist, no point trying other patterns
+      if (primaryKey.length === 0) {
         return {
           data: null,
-          error: `Table "${tableName}" or "${joinTable}" does not exist. Error: ${error.message}`
+          error: `Cannot aggregate more than ${AGGREGATE_PAGE_SIZE} rows of "${tableName}" exactly: the schema catalog knows no primary key to page through them. Add filters to narrow the data set.`
         }
       }
-    } catch (err) {
-      // Continue to next pattern
-      continue
     }
-  }
 
-  // If all patterns failed, try querying from the other direction
-  // Maybe we need to query from joinTable and join to tableName
-  try {
-    // Try reverse join: query from joinTable and join to tableName
-    const reverseJoinPatterns = [
-      `${tableName}(*)`,
-      `${tableName}!${joinColumn || 'id'}(*)`
-    ]
-
-    for (const reverseJoin of reverseJoinPatterns) {
-      try {
-        let query = supabaseAdmin
-          .from(joinTable)
-          .select(`*, ${reverseJoin}`)
-          .limit(limit)
-
-        const { data, error } = await query
-        if (!error && data) {
-          return { data, error: null, note: 'Query executed from reverse direction' }
-        }
-      } catch (err) {
-        continue
-      }
+    // Without group-by an empty table still yields one result row (e.g. count = 0)
+    if (groupBy.length === 0 && groups.size === 0) {
+      groups.set('[]', { values: {}, states: aggregates.map(() => ({ count: 0, sum: 0, extreme: null })) })
     }
-  } catch (err) {
-    // Ignore reverse join errors
-  }
 
-  // All attempts failed
-  return {
-    data: null,
-    error: `Failed to join "${tableName}" with "${joinTable}". Tried multiple join patterns. Possible issues: 1) Foreign key relationship not configured in Supabase, 2) Column names don't match expected patterns, 3) Tables don't have the expected relationship. Error details: Please check if "${joinTable}" has a foreign key column pointing to "${tableName}".`
+    const data = Array.from(groups.values()).map((group) => {
+      const result: Record<string, any> = { ...group.values }
+      aggregates.forEach((spec, index) => {
+        result[getAggregateAlias(spec)] = finishAggregate(spec, group.states[index])
+      })
+      return result
+    })
+
+    return {
+      data,
+      rowCount,
+      groupCount: data.length,
+      error: null
+    }
+  } catch (err) {
+    return {
+      data: null,
+      error: err instanceof Error ? err.message : 'Aggregation failed'
+    }
   }
 }
-
-
@@ -1,4 +1,6 @@
 import { createClient } from '@supabase/supabase-js'
+import { checkRpcAccess, getDataPolicy } from './data-policy'
+import { getRequestContext } from './request-context'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
@@ -16,6 +18,41 @@ export const supabaseAdmin = supabaseServiceKey
   ? createClient(supabaseUrl, supabaseServiceKey)
   : null
 
+/**
+ * Client acting as a signed-in user: requests carry the user's JWT, so RLS applies
+ */
+export function createUserClient(accessToken: string) {
+  return createClient(supabaseUrl, supabaseAnonKey, {
+    global: {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    },
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  })
+}
+
+/**
+ * Client for the chatbot's database tools
+ * Inside a request, queries run under the user's JWT. The service role is only used
+ * when every table involved is listed in the policy's `serviceRoleTables`, and
+ * outside of requests (e.g. scripts).
+ */
+export function getDbClient(tables: string[] = []) {
+  const context = getRequestContext()
+  if (!context) {
+    return supabaseAdmin
+  }
+
+  const { serviceRoleTables } = getDataPolicy().policy
+  if (supabaseAdmin && tables.length > 0 && tables.every((table) => serviceRoleTables.includes(table))) {
+    return supabaseAdmin
+  }
+
+  return context.supabase
+}
+
 /**
  * Get database schema information
  */
@@ -43,35 +80,23 @@ export async function getDatabaseSchema() {
   }
 }
 
-/**
- * Execute a read-only SQL query
- */
-export async function executeQuery(query: string) {
-  try {
-    // Use the admin client for raw SQL queries
-    if (!supabaseAdmin) {
-      throw new Error('Service role key not configured for SQL queries')
-    }
-
-    // Supabase doesn't directly support raw SQL via the JS client
-    // We'll need to use REST API or create RPC functions
-    // For now, we'll return an error suggesting RPC functions
-    throw new Error('Direct SQL execution not available. Please use Supabase RPC functions or REST API.')
-  } catch (err) {
-    throw err
-  }
-}
-
 /**
  * Execute a query using Supabase RPC (recommended approach)
+ * Only RPCs listed in the data policy can be called.
  */
 export async function executeRPC(functionName: string, params: Record<string, any> = {}) {
   try {
-    if (!supabaseAdmin) {
+    const accessError = checkRpcAccess(functionName)
+    if (accessError) {
+      return { data: null, error: accessError }
+    }
+
+    const db = getDbClient()
+    if (!db) {
       throw new Error('Service role key not configured')
     }
 
-    const { data, error } = await supabaseAdmin.rpc(functionName, params)
+    const { data, error } = await db.rpc(functionName, params)
 
     if (error) {
       throw error
@@ -0,0 +1,229 @@
+import { getSchemaCatalog, SchemaCatalog } from './schema-catalog'
+import { readJsonConfig } from './config-file'
+import { getDataPolicy, checkTableAccess, isColumnAllowed } from './data-policy'
+import { getCurrentRole, getRolesConfig } from './roles'
+import { isToolAvailable } from './chat-tools'
+import { splitColumn } from './query-filters'
+
+const DEFAULT_NOTES_PATH = 'config/schema-notes.json'
+const MAX_COLUMNS_PER_TABLE = 30
+
+/**
+ * Admin-maintained descriptions and synonyms (config/schema-notes.json)
+ */
+export interface SchemaNotes {
+  notes?: string[]
+  tables?: Record<string, {
+    description?: string
+    hidden?: boolean
+    columns?: Record<string, string>
+    synonyms?: Record<string, string>
+  }>
+}
+
+/**
+ * Whether a synonym points at something the role may read: a table, "table.column"
+ * or a column of the table it is listed under
+ */
+function isSynonymTargetAllowed(catalog: SchemaCatalog, tableName: string, target: string) {
+  if (catalog.tables[target]) {
+    return !checkTableAccess(target)
+  }
+  const { table, column } = splitColumn(target)
+  if (table) {
+    return !checkTableAccess(table) && isColumnAllowed(table, column)
+  }
+  return isColumnAllowed(tableName, column)
+}
+
+/**
+ * Static part of the system prompt: behaviour rules that do not depend on the schema
+ */
+export const BASE_SYSTEM_PROMPT = `You are a helpful assistant connected to a Supabase database. Your role is to answer questions based EXCLUSIVELY on database content.
+
+ABSOLUTE CRITICAL RULES - NEVER VIOLATE THESE:
+1. NEVER hallucinate, invent, estimate, or guess data. ONLY use data returned from database queries.
+2. ALWAYS query the database for data - never use data from previous responses, but USE conversation context to understand references.
+3. If you don't have data from a database query, say "I don't have that information" - NEVER make up numbers or values.
+4. NEVER announce what you're about to do. Just execute queries directly and provide the answer.
+5. When asked about prices, costs, or any numerical data, you MUST query the database - never use previous answers or estimate.
+6. FORBIDDEN PHRASES - NEVER use these: "Ich werde", "I will", "Let me", "Moment bitte", "Einen Moment", "Ich bin bereit", "I'm ready", "I can help", "Wie kann ich dir helfen", "Was möchtest du wissen", or any similar announcement phrases.
+7. NEVER say you're about to do something - just do it silently and show the result.
+
+CONTEXT UNDERSTANDING:
+- You MUST understand conversation context to resolve references like "dafür" (for those), "für alle" (for all), "die Preise" (the prices), etc.
+- When user says "Was sind die Preise dafür?" after listing materials, understand "dafür" refers to those materials.
+- When user says "Für alle Materialien", understand they want prices for ALL materials mentioned previously.
+- Use context to determine WHAT to query, but ALWAYS query the database to get the actual data.
+- Example: If user asks "Was sind die Preise dafür?" after you listed materials, query prices for those materials using queryTableWithJoin.
+
+QUERY STRATEGY:
+- When a question requires database access, IMMEDIATELY call the appropriate function - no thinking, no announcements, just execute.
+- For questions about related data (e.g., "Einkaufspreise der Materialien", "Verkaufspreise"), you MUST use queryTableWithJoin to join tables.
+- ALWAYS query the database for data - use conversation context to understand WHAT to query, but get the actual data from the database.
+- When user references previous messages (e.g., "dafür", "für alle", "die Preise"), use the context to determine what to query, then query it.
+- Use the table and column names from the DATABASE SCHEMA section below. Map business terms to columns using the listed synonyms.
+- If user asks "Was sind die Preise?" or "Preise dafür" after materials were mentioned, query ALL materials with their prices using queryTableWithJoin.
+- NEVER assume prices based on previous queries - ALWAYS query the database for each price question
+
+RESPONSE STYLE:
+- Be direct and concise - answer the question immediately with data
+- NEVER explain what you're going to do - just do it and show results
+- Present data clearly and organized
+- If an error occurs, explain what went wrong briefly, then suggest next steps
+- When the user asks a question, IMMEDIATELY execute the query and return the data - no preamble, no announcements
+- If you need to query the database, do it silently in the background and only show the final answer
+- NEVER respond with "Ich bin bereit" or "I'm ready" - if you don't have a query to execute, wait for the user's question`
+
+/**
+ * Instructions per tool; only the tools of the user's role are listed in the prompt
+ */
+const TOOL_INSTRUCTIONS: Record<string, string[]> = {
+  queryTable: [
+    '- queryTable(tableName, filters, limit, joins?, orderBy?, offset?, columns?) - Query a single table or with joins',
+  ],
+  queryTableWithJoin: [
+    '- queryTableWithJoin(tableName, joinTable, joinColumn?, via?, filters, limit, orderBy?, offset?, columns?, joinColumns?) - Join two related tables, directly or through the tables in between. Filters may use columns of every table on the join path ("t_suppliers.name")',
+  ],
+  queryGraph: [
+    '- queryGraph(tableName, columns?, filters?, orderBy?, limit?, offset?, relations?) - One table with nested related tables, each with its own columns, filters, orderBy and limit. Use it for questions that combine several related tables, e.g. "materials with their last three prices": relations: [{ "table": "t_material_prices", "orderBy": [{ "column": "valid_from", "direction": "desc" }], "limit": 3 }]',
+  ],
+  aggregateTable: [
+    '- aggregateTable(tableName, aggregates, groupBy?, filters?) - count/sum/avg/min/max over ALL matching rows, optionally grouped. ALWAYS use this for totals, averages, minimum and maximum values - never add up rows yourself',
+  ],
+  runSql: [
+    '- runSql(sql) - Run a single read-only SELECT/WITH query for multi-table joins, window functions, CTEs or subqueries. Use it only when the functions above cannot express the question. If the query is rejected, read the reason and fix it',
+  ],
+  proposeChanges: [
+    '- proposeChanges(summary, changes) - Propose inserting or updating rows when the user asks to change data ("Setze den Verkaufspreis von Kupferrohr auf 12,50 €"). Look up the ids of the affected rows first. Nothing is written until the user confirms the change set in the chat, so NEVER say a change was made: describe the proposed change (before → after) and ask the user to confirm. Rows cannot be deleted',
+  ],
+  getResultPage: [
+    '- getResultPage(resultId, offset?, limit?, columns?) - Read more rows of a large result of this request (results with "summarized": true show only the first rows and column statistics) without querying again',
+  ],
+  getTableStructure: [
+    '- getTableStructure(tableName) - Get columns with types, primary key, foreign keys and a sample row of a table',
+  ],
+  getTableNames: [
+    '- getTableNames() - List available tables',
+  ],
+}
+
+const QUERY_TOOL_NOTES = [
+  '- Filters support conditions ({ column, op, value }), and/or/not groups, null checks, ranges and prefix/suffix matches. If a filter is rejected, read the error message, fix the filter and call the function again',
+  '- Query results are tables: "columns" lists the column names and each entry of "rows" is one row with the values in that order. Columns of joined tables are named "table.column"; a joined table with several matching rows yields one row per match. "droppedColumns" were left out because they are empty in every row or repeat a key of the main row',
+  '- Query results include totalCount and hasMore. If hasMore is true you have NOT seen all rows: fetch the next page with offset = nextOffset, or use orderBy/aggregateTable for rankings and totals',
+]
+
+/**
+ * AVAILABLE FUNCTIONS section for the tools the current user may use
+ */
+export function buildToolSection() {
+  const allowed = Object.keys(TOOL_INSTRUCTIONS).filter((toolName) => isToolAvailable(toolName))
+  const lines = ['AVAILABLE FUNCTIONS (use only these, other functions are not available to this user):']
+
+  for (const toolName of allowed) {
+    lines.push(...TOOL_INSTRUCTIONS[toolName])
+  }
+  if (allowed.some((toolName) => ['queryTable', 'queryTableWithJoin', 'queryGraph', 'aggregateTable'].includes(toolName))) {
+    lines.push(...QUERY_TOOL_NOTES)
+  }
+  lines.push('- You can call functions several times in a row: e.g. getTableStructure first, then a query with the columns you found. If a call fails, adjust the arguments and try again.')
+
+  return lines.join('\n')
+}
+
+// Prompts per role (or "none" outside of requests)
+const cachedPrompts = new Map<string, { key: string; prompt: string; generatedAt: string }>()
+
+function shortType(type: string) {
+  return type
+    .replace('character varying', 'varchar')
+    .replace('timestamp with time zone', 'timestamptz')
+    .replace('timestamp without time zone', 'timestamp')
+    .replace('double precision', 'float8')
+}
+
+/**
+ * Compact schema summary: tables with key columns, relationships, descriptions and synonyms
+ */
+export function buildSchemaSummary(catalog: SchemaCatalog, notes: SchemaNotes) {
+  const lines: string[] = ['DATABASE SCHEMA (live, generated from the database):']
+  const relationships: string[] = []
+
+  for (const table of Object.values(catalog.tables).sort((a, b) => a.name.localeCompare(b.name))) {
+    const tableNotes = notes.tables?.[table.name] || {}
+    if (tableNotes.hidden || checkTableAccess(table.name)) {
+      continue
+    }
+
+    // Only describe what the data policy exposes
+    const visibleColumns = table.columns.filter((column) => isColumnAllowed(table.name, column.name))
+    const columns = visibleColumns.slice(0, MAX_COLUMNS_PER_TABLE).map((column) => {
+      const fk = table.foreignKeys.find((key) => key.column === column.name)
+      const marker = column.isPrimaryKey ? ' PK' : fk ? ` → ${fk.referencedTable}.${fk.referencedColumn}` : ''
+      const meaning = tableNotes.columns?.[column.name]
+      return `${column.name} ${shortType(column.type)}${marker}${meaning ? ` "${meaning}"` : ''}`
+    })
+    if (visibleColumns.length > MAX_COLUMNS_PER_TABLE) {
+      columns.push(`… ${visibleColumns.length - MAX_COLUMNS_PER_TABLE} more (use getTableStructure)`)
+    }
+
+    const description = tableNotes.description || table.description
+    lines.push(`- ${table.name}${description ? ` – ${description}` : ''}: ${columns.join(', ')}`)
+
+    const synonyms = Object.entries(tableNotes.synonyms || {})
+      .filter(([, target]) => isSynonymTargetAllowed(catalog, table.name, target))
+    if (synonyms.length > 0) {
+      lines.push(`  Synonyms: ${synonyms.map(([term, target]) => `"${term}" → ${target}`).join('; ')}`)
+    }
+
+    for (const fk of table.foreignKeys.filter((key) => !checkTableAccess(key.referencedTable) && isColumnAllowed(table.name, key.column))) {
+      relationships.push(`- ${fk.table}.${fk.column} → ${fk.referencedTable}.${fk.referencedColumn}`)
+    }
+  }
+
+  if (relationships.length > 0) {
+    lines.push('', 'RELATIONSHIPS (foreign keys):', ...relationships)
+  }
+
+  if (notes.notes && notes.notes.length > 0) {
+    lines.push('', 'DOMAIN NOTES:', ...notes.notes.map((note) => `- ${note}`))
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Assemble the effective system prompt for a request
+ * Combines the static base prompt, the live schema summary and the admin notes.
+ * The result is cached until the schema catalog is reloaded or the notes or policy file changes.
+ */
+export async function getSystemPrompt() {
+  const notesPath = process.env.SCHEMA_NOTES_PATH || DEFAULT_NOTES_PATH
+  const { value: notes, mtimeMs } = readJsonConfig<SchemaNotes>(notesPath, {})
+  const { catalog, error } = await getSchemaCatalog()
+
+  const { mtimeMs: policyMtimeMs } = getDataPolicy()
+  const { mtimeMs: rolesMtimeMs } = getRolesConfig()
+  const role = getCurrentRole() || 'none'
+
+  const key = `${catalog?.loadedAt ?? 'none'}:${mtimeMs ?? 'none'}:${policyMtimeMs ?? 'none'}:${rolesMtimeMs ?? 'none'}`
+  const cachedPrompt = cachedPrompts.get(role)
+  if (cachedPrompt && cachedPrompt.key === key) {
+    return { prompt: cachedPrompt.prompt, generatedAt: cachedPrompt.generatedAt, schemaError: error }
+  }
+
+  const schemaSection = catalog
+    ? buildSchemaSummary(catalog, notes)
+    : `DATABASE SCHEMA: not available (${error}). Use getTableNames and getTableStructure to discover tables before querying.`
+
+  const prompt = `${BASE_SYSTEM_PROMPT}\n\n${buildToolSection()}\n\n${schemaSection}`
+  const generatedAt = new Date().toISOString()
+
+  // Do not cache a prompt without schema, so the next request retries introspection
+  if (catalog) {
+    cachedPrompts.set(role, { key, prompt, generatedAt })
+  }
+
+  return { prompt, generatedAt, schemaError: error }
+}
@@ -0,0 +1,512 @@
+import { getDbClient } from './supabase'
+import { getRequestContext } from './request-context'
+import { getSchemaCatalog, SchemaCatalog } from './schema-catalog'
+import { parseFilters, applyFilter, getReferencedColumns, getReferencedTables } from './query-filters'
+import { checkWriteAccess, checkColumnAccess, WriteAction } from './data-policy'
+import {
+  createChangeSet,
+  getChangeSet,
+  updateChangeSet,
+  toChangeSetView,
+  ChangeSet,
+  TableChange,
+  RowChange,
+} from './change-sets'
+
+/**
+ * Write operations with explicit confirmation
+ *
+ * The model never writes directly: proposeChanges validates the change against the data
+ * policy, reads the current values of the affected rows and stores everything as a pending
+ * change set. Only when the user confirms it (button or "Ja, bestätigen") does /api/chat
+ * apply it, row by row under the user's JWT so RLS applies. Each row write only succeeds
+ * if the row still has the values the user saw; otherwise the change set fails and the
+ * rows written so far are reverted. Applied change sets can be undone the same way.
+ *
+ * Results carry an HTTP `status` next to `{ data, error }` for the API routes.
+ */
+
+const DEFAULT_CONFIRMATION_TTL_MS = 15 * 60 * 1000
+const MAX_CHANGES = 10
+const MAX_ROWS_PER_CHANGE = 20
+
+const CONFIRMATION_NOTE = 'Nothing has been changed yet. Show the user what will change (before → after) and ask them to confirm ("Ja, bestätigen") or reject it in the chat. Never say the change was made.'
+
+type Scalar = string | number | boolean | null
+
+export interface ChangeOutcome {
+  data: ChangeSet | null
+  error: string | null
+  status: number
+}
+
+// A single-row write; `match` holds the primary key plus the values the row must still have
+interface RowWrite {
+  kind: 'insert' | 'update' | 'delete'
+  table: string
+  key: Record<string, any> | null
+  match: Record<string, Scalar>
+  values: Record<string, Scalar>
+}
+
+interface PlannedWrite {
+  write: RowWrite
+  // The write that reverts it, from the row it returned
+  revert: (row: Record<string, any>) => RowWrite
+}
+
+function readPositiveInt(value: string | undefined, fallback: number) {
+  const parsed = parseInt(value || '', 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function isScalar(value: unknown): value is Scalar {
+  return value === null || ['string', 'number', 'boolean'].includes(typeof value)
+}
+
+function pick(row: Record<string, any>, columns: string[]) {
+  return Object.fromEntries(columns.map((column) => [column, row[column] ?? null]))
+}
+
+// Numeric columns come back as numbers; the model may pass "12.50"
+function sameValue(left: unknown, right: unknown) {
+  if (left === right) {
+    return true
+  }
+  const leftNumber = typeof left === 'string' && left.trim() !== '' ? Number(left) : left
+  const rightNumber = typeof right === 'string' && right.trim() !== '' ? Number(right) : right
+  return typeof leftNumber === 'number' && leftNumber === rightNumber
+}
+
+function throwIfAborted(signal: AbortSignal | undefined) {
+  if (signal?.aborted) {
+    throw new Error('The call was aborted before the change set was stored')
+  }
+}
+
+function describeKey(key: Record<string, any> | null) {
+  return key ? Object.entries(key).map(([column, value]) => `${column}=${value}`).join(', ') : 'new row'
+}
+
+/**
+ * Validate one proposed change and read the current values of the rows it touches
+ */
+async function resolveChange(catalog: SchemaCatalog, input: unknown, location: string, signal?: AbortSignal): Promise<TableChange> {
+  if (!isPlainObject(input)) {
+    throw new Error(`${location}: expected an object with action, table and values`)
+  }
+  const { action, table, values } = input
+  if (action === 'delete') {
+    throw new Error(`${location}: deleting rows is not supported`)
+  }
+  if (action !== 'insert' && action !== 'update') {
+    throw new Error(`${location}: action must be "insert" or "update"`)
+  }
+  if (typeof table !== 'string' || !catalog.tables[table]) {
+    throw new Error(`${location}: table "${table}" does not exist`)
+  }
+  if (!isPlainObject(values) || Object.keys(values).length === 0) {
+    throw new Error(`${location}: values must be an object with at least one column`)
+  }
+
+  const columns = Object.keys(values)
+  const known = catalog.tables[table].columns.map((column) => column.name)
+  const unknown = columns.filter((column) => known.length > 0 && !known.includes(column))
+  if (unknown.length > 0) {
+    throw new Error(`${location}: unknown column${unknown.length > 1 ? 's' : ''} ${unknown.join(', ')} in ${table}`)
+  }
+  const invalid = columns.find((column) => !isScalar(values[column]))
+  if (invalid) {
+    throw new Error(`${location}: the value of ${invalid} must be a string, number, boolean or null`)
+  }
+  const accessError = checkWriteAccess(table, action as WriteAction, columns)
+  if (accessError) {
+    throw new Error(`${location}: ${accessError}`)
+  }
+  const { primaryKey } = catalog.tables[table]
+  if (primaryKey.length === 0) {
+    throw new Error(`${location}: table "${table}" has no primary key, so changes could not be undone`)
+  }
+
+  if (action === 'insert') {
+    return { action, table, primaryKey, rows: [{ key: null, before: null, after: values }] }
+  }
+
+  // Updates need a condition on the table itself, and only touch a few rows
+  const { filter, error: filterError } = parseFilters(input.where)
+  if (filterError) {
+    throw new Error(`${location}: ${filterError}`)
+  }
+  if (!filter) {
+    throw new Error(`${location}: updates need a "where" condition selecting the rows to change`)
+  }
+  if (getReferencedTables(filter).length > 0) {
+    throw new Error(`${location}: "where" may only use columns of ${table}`)
+  }
+  const whereError = checkColumnAccess(table, getReferencedColumns(filter))
+  if (whereError) {
+    throw new Error(`${location}: ${whereError}`)
+  }
+
+  const db = getDbClient([table])
+  if (!db) {
+    throw new Error('Service role key not configured. Please set SUPABASE_SERVICE_ROLE_KEY in your environment variables.')
+  }
+  let query = db
+    .from(table)
+    .select(Array.from(new Set([...primaryKey, ...columns])).join(', '))
+    .limit(MAX_ROWS_PER_CHANGE + 1)
+  query = applyFilter(query, filter)
+  if (signal) {
+    query = query.abortSignal(signal)
+  }
+  const { data, error } = await query
+  if (error) {
+    throw new Error(`${location}: query failed: ${error.message}`)
+  }
+
+  const matching = (data || []) as unknown as Record<string, any>[]
+  if (matching.length === 0) {
+    throw new Error(`${location}: no rows of ${table} match the "where" condition`)
+  }
+  if (matching.length > MAX_ROWS_PER_CHANGE) {
+    throw new Error(`${location}: more than ${MAX_ROWS_PER_CHANGE} rows of ${table} match; narrow the "where" condition`)
+  }
+
+  const rows: RowChange[] = matching
+    .filter((row) => columns.some((column) => !sameValue(row[column], values[column])))
+    .map((row) => ({ key: pick(row, primaryKey), before: pick(row, columns), after: values }))
+  if (rows.length === 0) {
+    throw new Error(`${location}: the matching rows of ${table} already have these values`)
+  }
+
+  return { action, table, primaryKey, rows }
+}
+
+/**
+ * proposeChanges tool: validate a change set and store it for confirmation
+ * Nothing is written; the result lists every row with its values before and after.
+ */
+export async function proposeChanges(args: Record<string, any>, options: { signal?: AbortSignal } = {}) {
+  const context = getRequestContext()
+  if (!context) {
+    return { changeSet: null, error: 'Write operations require a signed-in user' }
+  }
+
+  try {
+    const changes = args.changes
+    if (!Array.isArray(changes) || changes.length === 0) {
+      throw new Error('changes must be a non-empty array')
+    }
+    if (changes.length > MAX_CHANGES) {
+      throw new Error(`A change set may contain at most ${MAX_CHANGES} changes`)
+    }
+
+    const { catalog, error: catalogError } = await getSchemaCatalog()
+    if (!catalog) {
+      throw new Error(`Could not load schema information: ${catalogError}`)
+    }
+
+    const resolved: TableChange[] = []
+    for (const [index, change] of changes.entries()) {
+      resolved.push(await resolveChange(catalog, change, `changes[${index}]`, options.signal))
+    }
+
+    // A timed-out or cancelled call was already reported as failed to the model
+    throwIfAborted(options.signal)
+    const ttlMs = readPositiveInt(process.env.WRITE_CONFIRMATION_TTL_MS, DEFAULT_CONFIRMATION_TTL_MS)
+    const { data, error } = await createChangeSet({
+      userId: context.user.id,
+      userEmail: context.user.email,
+      role: context.role,
+      summary: typeof args.summary === 'string' && args.summary.trim() ? args.summary.trim() : 'Datenänderung',
+      changes: resolved,
+      expiresAt: new Date(Date.now() + ttlMs).toISOString(),
+    })
+    if (!data) {
+      throw new Error(error || 'Failed to store change set')
+    }
+    if (options.signal?.aborted) {
+      // Stored while the call was aborted: the user never sees it, so it must not stay pending
+      await updateChangeSet(data.id, 'pending', { status: 'failed', error: 'The proposal was aborted before it was shown to the user' })
+      throwIfAborted(options.signal)
+    }
+
+    return { changeSet: toChangeSetView(data), note: CONFIRMATION_NOTE, error: null }
+  } catch (err) {
+    return { changeSet: null, error: err instanceof Error ? err.message : 'Failed to propose changes' }
+  }
+}
+
+/**
+ * Run one row write under the user's JWT; returns the written row, or null when no row
+ * matched (changed in the meantime, or not writable for the user)
+ */
+async function runRowWrite(write: RowWrite): Promise<Record<string, any> | null> {
+  const db = getDbClient([write.table])
+  if (!db) {
+    throw new Error('Service role key not configured. Please set SUPABASE_SERVICE_ROLE_KEY in your environment variables.')
+  }
+
+  if (write.kind === 'insert') {
+    const { data, error } = await db.from(write.table).insert(write.values).select('*')
+    if (error) {
+      throw new Error(`${write.table}: ${error.message}`)
+    }
+    return data?.[0] || null
+  }
+
+  let query: any = write.kind === 'update'
+    ? db.from(write.table).update(write.values)
+    : db.from(write.table).delete()
+  for (const [column, value] of Object.entries(write.match)) {
+    query = value === null ? query.is(column, null) : query.eq(column, value)
+  }
+  const { data, error } = await query.select('*')
+  if (error) {
+    throw new Error(`${write.table}: ${error.message}`)
+  }
+  return data?.[0] || null
+}
+
+/**
+ * Run writes in order; when one fails, revert the ones that succeeded (newest first)
+ * Returns the written rows, or an error naming the row that could not be written.
+ */
+async function runWrites(planned: PlannedWrite[], conflict: string) {
+  const done: { step: PlannedWrite; row: Record<string, any> }[] = []
+
+  for (const step of planned) {
+    let error: string | null = null
+    let row: Record<string, any> | null = null
+    try {
+      row = await runRowWrite(step.write)
+      if (!row) {
+        error = `Row ${describeKey(step.write.key)} of ${step.write.table} ${conflict}`
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : 'Write failed'
+    }
+
+    if (error || !row) {
+      for (const previous of done.reverse()) {
+        try {
+          await runRowWrite(previous.step.revert(previous.row))
+        } catch (revertError) {
+          console.error('Failed to revert row write:', revertError)
+        }
+      }
+      return { rows: null, error }
+    }
+    done.push({ step, row })
+  }
+
+  return { rows: done.map((entry) => entry.row), error: null }
+}
+
+/**
+ * Load a change set the current user may act on
+ * Other users' change sets are reported as missing; admins may act on any for `anyUser`.
+ */
+async function loadChangeSet(id: string, options: { anyUser?: boolean } = {}): Promise<ChangeOutcome> {
+  const context = getRequestContext()
+  if (!context) {
+    return { data: null, error: 'Write operations require a signed-in user', status: 401 }
+  }
+
+  const { data, error } = await getChangeSet(id)
+  if (error) {
+    return { data: null, error, status: 500 }
+  }
+  const mayAccess = data && (data.userId === context.user.id || (options.anyUser && context.role === 'admin'))
+  if (!data || !mayAccess) {
+    return { data: null, error: 'Change set not found', status: 404 }
+  }
+  return { data, error: null, status: 200 }
+}
+
+/**
+ * Apply a pending change set after the user confirmed it
+ * The policy is checked again, since the role or policy may have changed in between.
+ */
+export async function confirmChangeSet(id: string): Promise<ChangeOutcome> {
+  const loaded = await loadChangeSet(id)
+  const changeSet = loaded.data
+  if (!changeSet) {
+    return loaded
+  }
+  if (changeSet.status !== 'pending') {
+    return { data: changeSet, error: `Change set is already ${changeSet.status}`, status: 409 }
+  }
+  if (Date.parse(changeSet.expiresAt) < Date.now()) {
+    const { data } = await updateChangeSet(id, 'pending', { status: 'expired' })
+    return { data: data || changeSet, error: 'Change set has expired; ask for the change again', status: 410 }
+  }
+
+  for (const change of changeSet.changes) {
+    const columns = Object.keys(change.rows[0]?.after || {})
+    const accessError = checkWriteAccess(change.table, change.action, columns)
+    if (accessError) {
+      const { data } = await updateChangeSet(id, 'pending', { status: 'failed', error: accessError })
+      return { data: data || changeSet, error: accessError, status: 403 }
+    }
+  }
+
+  // Claim the change set first, so a second confirmation cannot apply it again
+  const { data: claimed, error: claimError } = await updateChangeSet(id, 'pending', {
+    status: 'applied',
+    appliedAt: new Date().toISOString(),
+  })
+  if (claimError) {
+    return { data: null, error: claimError, status: 500 }
+  }
+  if (!claimed) {
+    return { data: changeSet, error: 'Change set is already being processed', status: 409 }
+  }
+
+  const planned: PlannedWrite[] = changeSet.changes.flatMap((change) => change.rows.map((row): PlannedWrite => {
+    if (change.action === 'insert') {
+      return {
+        write: { kind: 'insert', table: change.table, key: null, match: {}, values: row.after },
+        revert: (written) => {
+          const key = pick(written, change.primaryKey)
+          return { kind: 'delete', table: change.table, key, match: key, values: {} }
+        },
+      }
+    }
+    return {
+      write: { kind: 'update', table: change.table, key: row.key, match: { ...row.key, ...row.before }, values: row.after },
+      revert: () => ({ kind: 'update', table: change.table, key: row.key, match: { ...row.key, ...row.after }, values: row.before || {} }),
+    }
+  }))
+
+  const { rows, error } = await runWrites(planned, 'was changed or removed since the change was proposed, or you may not change it')
+  if (!rows) {
+    const { data } = await updateChangeSet(id, 'applied', { status: 'failed', appliedAt: null, error })
+    return { data: data || claimed, error, status: 409 }
+  }
+
+  // Keep the keys of inserted rows, so they can be undone
+  let index = 0
+  const changes = changeSet.changes.map((change) => ({
+    ...change,
+    rows: change.rows.map((row) => {
+      const written = rows[index++]
+      return row.key ? row : { ...row, key: pick(written, change.primaryKey) }
+    }),
+  }))
+  const { data: applied } = await updateChangeSet(id, 'applied', { changes })
+
+  return { data: applied || { ...claimed, changes }, error: null, status: 200 }
+}
+
+/**
+ * Discard a pending change set
+ */
+export async function rejectChangeSet(id: string): Promise<ChangeOutcome> {
+  const loaded = await loadChangeSet(id)
+  const changeSet = loaded.data
+  if (!changeSet) {
+    return loaded
+  }
+  if (changeSet.status !== 'pending') {
+    return { data: changeSet, error: `Change set is already ${changeSet.status}`, status: 409 }
+  }
+
+  const { data, error } = await updateChangeSet(id, 'pending', { status: 'rejected' })
+  if (error) {
+    return { data: null, error, status: 500 }
+  }
+  if (!data) {
+    return { data: changeSet, error: 'Change set is already being processed', status: 409 }
+  }
+  return { data, error: null, status: 200 }
+}
+
+/**
+ * Revert an applied change set: updated rows get their previous values, inserted rows
+ * are deleted. Rows that were changed again after the write are not overwritten; the
+ * undo fails as a whole instead.
+ * The policy is checked for the current user's role, like on confirmation; reverting
+ * an insert needs `delete`.
+ */
+export async function undoChangeSet(id: string): Promise<ChangeOutcome> {
+  const context = getRequestContext()
+  const loaded = await loadChangeSet(id, { anyUser: true })
+  const changeSet = loaded.data
+  if (!changeSet || !context) {
+    return loaded
+  }
+  if (changeSet.status !== 'applied') {
+    return { data: changeSet, error: `Only applied change sets can be undone; this one is ${changeSet.status}`, status: 409 }
+  }
+
+  for (const change of changeSet.changes) {
+    const accessError = change.action === 'insert'
+      ? checkWriteAccess(change.table, 'delete', [])
+      : checkWriteAccess(change.table, change.action, Object.keys(change.rows[0]?.before || {}))
+    if (accessError) {
+      return { data: changeSet, error: accessError, status: 403 }
+    }
+  }
+
+  const { data: claimed, error: claimError } = await updateChangeSet(id, 'applied', {
+    status: 'undone',
+    undoneAt: new Date().toISOString(),
+    undoneBy: context.user.id,
+  })
+  if (claimError) {
+    return { data: null, error: claimError, status: 500 }
+  }
+  if (!claimed) {
+    return { data: changeSet, error: 'Change set is already being processed', status: 409 }
+  }
+
+  const planned: PlannedWrite[] = [...changeSet.changes].reverse().flatMap((change) => change.rows.map((row): PlannedWrite => {
+    const match = { ...row.key, ...row.after }
+    if (change.action === 'insert') {
+      return {
+        write: { kind: 'delete', table: change.table, key: row.key, match, values: {} },
+        revert: (deleted) => ({ kind: 'insert', table: change.table, key: row.key, match: {}, values: deleted }),
+      }
+    }
+    return {
+      write: { kind: 'update', table: change.table, key: row.key, match, values: row.before || {} },
+      revert: () => ({ kind: 'update', table: change.table, key: row.key, match: { ...row.key, ...row.before }, values: row.after }),
+    }
+  }))
+
+  const { rows, error } = await runWrites(planned, 'was changed again after the change was applied; undo would overwrite newer values')
+  if (!rows) {
+    const { data } = await updateChangeSet(id, 'undone', { undoneAt: null, undoneBy: null, status: 'applied' })
+    return { data: data || changeSet, error, status: 409 }
+  }
+
+  return { data: claimed, error: null, status: 200 }
+}
+
+/**
+ * Chat reply for the outcome of a confirmation (spoken in voice mode, so kept short)
+ */
+export function describeOutcome(decision: 'confirm' | 'reject', outcome: ChangeOutcome) {
+  if (outcome.error) {
+    return decision === 'confirm'
+      ? `Die Änderungen wurden nicht übernommen: ${outcome.error}`
+      : `Die Änderungen konnten nicht verworfen werden: ${outcome.error}`
+  }
+  if (decision === 'reject') {
+    return 'Die Änderungen wurden verworfen, es wurde nichts geändert.'
+  }
+
+  const changes = outcome.data?.changes || []
+  const parts = changes.map((change) => {
+    const count = change.rows.length
+    const rows = count === 1 ? '1 Zeile' : `${count} Zeilen`
+    return `${rows} in ${change.table} ${change.action === 'insert' ? 'angelegt' : 'geändert'}`
+  })
+  return `Erledigt: ${parts.join(', ')}. Die Änderung kann rückgängig gemacht werden.`
+}
@@ -0,0 +1,26 @@
+-- Read-only SQL execution for the chatbot's runSql tool.
+-- The query is validated by the application (lib/sql-guard.ts) before it gets here;
+-- this function adds the database-side limits. It is STABLE, so Postgres rejects any
+-- data-modifying statement, it is called via GET (PostgREST runs those in a read-only
+-- transaction), and the statement timeout is capped at 30 seconds.
+
+create or replace function public.exec_readonly_sql(query text, timeout_ms integer default 5000)
+returns json
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  result json;
+begin
+  perform set_config('statement_timeout', greatest(least(timeout_ms, 30000), 100)::text, true);
+
+  execute format('select coalesce(json_agg(t), ''[]''::json) from (%s) t', query)
+    into result;
+
+  return result;
+end;
+$$;
+
+revoke all on function public.exec_readonly_sql(text, integer) from public, anon, authenticated;
+grant execute on function public.exec_readonly_sql(text, integer) to service_role;
@@ -0,0 +1,28 @@
+-- Server-side chat history.
+-- Only the API routes (service role) access these tables; they are not part of the
+-- chatbot's data policy and cannot be queried by the model.
+
+create table if not exists public.conversations (
+  id uuid primary key default gen_random_uuid(),
+  title text not null default 'Neue Unterhaltung',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.conversation_messages (
+  id bigint generated always as identity primary key,
+  conversation_id uuid not null references public.conversations (id) on delete cascade,
+  role text not null check (role in ('user', 'assistant')),
+  content text not null,
+  metadata jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists conversation_messages_conversation_id_idx
+  on public.conversation_messages (conversation_id, id);
+
+create index if not exists conversations_updated_at_idx
+  on public.conversations (updated_at desc);
+
+alter table public.conversations enable row level security;
+alter table public.conversation_messages enable row level security;
@@ -0,0 +1,35 @@
+-- Per-user data scoping with Supabase Auth.
+-- API routes now query as the signed-in user (role "authenticated"), so RLS applies.
+
+-- Conversations belong to the user who created them
+alter table public.conversations
+  add column if not exists user_id uuid references auth.users (id) on delete cascade default auth.uid();
+
+create index if not exists conversations_user_id_updated_at_idx
+  on public.conversations (user_id, updated_at desc);
+
+drop policy if exists "Users manage their own conversations" on public.conversations;
+create policy "Users manage their own conversations"
+  on public.conversations
+  for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+drop policy if exists "Users manage messages of their own conversations" on public.conversation_messages;
+create policy "Users manage messages of their own conversations"
+  on public.conversation_messages
+  for all
+  to authenticated
+  using (exists (
+    select 1 from public.conversations c
+    where c.id = conversation_id and c.user_id = auth.uid()
+  ))
+  with check (exists (
+    select 1 from public.conversations c
+    where c.id = conversation_id and c.user_id = auth.uid()
+  ));
+
+-- exec_readonly_sql stays reserved for the service role: runSql validates each query in
+-- the app before calling it, so users must not be able to call it with their own JWT
+revoke execute on function public.exec_readonly_sql(text, integer) from authenticated;
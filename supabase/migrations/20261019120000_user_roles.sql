@@ -0,0 +1,19 @@
+-- Role assignments for the chatbot (viewer, purchaser, admin).
+-- Capabilities of each role are configured in config/roles.json.
+-- Users without a row get the default role from that file.
+
+create table if not exists public.user_roles (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  role text not null check (role in ('viewer', 'purchaser', 'admin')),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.user_roles enable row level security;
+
+-- Users can read their own role; assignments are managed with the service role (dashboard/SQL)
+drop policy if exists "Users read their own role" on public.user_roles;
+create policy "Users read their own role"
+  on public.user_roles
+  for select
+  to authenticated
+  using (user_id = auth.uid());
@@ -0,0 +1,29 @@
+-- Audit log of chat requests (question, tool calls, model, token usage, answer).
+-- Written and read only with the service role; RLS without policies blocks other roles.
+
+create table if not exists public.chat_audit_log (
+  id bigint generated always as identity primary key,
+  created_at timestamptz not null default now(),
+  user_id uuid,
+  user_email text,
+  role text,
+  conversation_id uuid,
+  user_message text not null,
+  tool_calls jsonb not null default '[]'::jsonb,
+  tables text[] not null default '{}',
+  has_error boolean not null default false,
+  error text,
+  model text,
+  prompt_tokens integer,
+  completion_tokens integer,
+  total_tokens integer,
+  answer text,
+  stop_reason text,
+  duration_ms integer
+);
+
+create index if not exists chat_audit_log_created_at_idx on public.chat_audit_log (created_at desc);
+create index if not exists chat_audit_log_user_id_idx on public.chat_audit_log (user_id, created_at desc);
+create index if not exists chat_audit_log_tables_idx on public.chat_audit_log using gin (tables);
+
+alter table public.chat_audit_log enable row level security;
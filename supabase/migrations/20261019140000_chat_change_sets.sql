@@ -0,0 +1,26 @@
+-- Change sets of the chatbot's write tools: the rows a confirmed write touched, with
+-- their values before and after, so every write is auditable and can be undone.
+-- Written and read only with the service role; RLS without policies blocks other roles.
+
+create table if not exists public.chat_change_sets (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  user_id uuid not null,
+  user_email text,
+  role text,
+  summary text not null,
+  status text not null default 'pending'
+    check (status in ('pending', 'applied', 'rejected', 'expired', 'failed', 'undone')),
+  changes jsonb not null default '[]'::jsonb,
+  tables text[] not null default '{}',
+  applied_at timestamptz,
+  undone_at timestamptz,
+  undone_by uuid,
+  error text
+);
+
+create index if not exists chat_change_sets_user_id_idx on public.chat_change_sets (user_id, created_at desc);
+create index if not exists chat_change_sets_tables_idx on public.chat_change_sets using gin (tables);
+
+alter table public.chat_change_sets enable row level security;
@@ -0,0 +1,42 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { startHarness, apiRequest, Harness, TOKENS } from '../harness'
+
+let harness: Harness
+let audit: typeof import('@/app/api/admin/audit/route')
+
+beforeAll(async () => {
+  harness = await startHarness()
+  audit = await import('@/app/api/admin/audit/route')
+})
+
+afterAll(async () => {
+  await harness?.stop()
+})
+
+async function searchAudit(token: string, query: string) {
+  return audit.GET(apiRequest(`/api/admin/audit?${query}`, { token, method: 'GET' }), {})
+}
+
+function auditRow(createdAt: string, userMessage: string) {
+  return { id: createdAt, created_at: createdAt, user_message: userMessage, tool_calls: [], tables: [], has_error: false }
+}
+
+describe('/api/admin/audit', () => {
+  it('is only available to admins', async () => {
+    expect((await searchAudit(TOKENS.purchaser, 'limit=1')).status).toBe(403)
+  })
+
+  it('includes the whole day of a date-only "to"', async () => {
+    harness.supabase.rows('chat_audit_log').push(
+      auditRow('2024-04-30T23:59:00.000Z', 'Vortag'),
+      auditRow('2024-05-01T15:30:00.000Z', 'Nachmittag'),
+      auditRow('2024-05-02T00:00:00.000Z', 'Folgetag'),
+    )
+
+    const response = await searchAudit(TOKENS.admin, 'from=2024-05-01&to=2024-05-01')
+    expect(response.status).toBe(200)
+    const body = await response.json()
+
+    expect(body.records.map((record: any) => record.userMessage)).toEqual(['Nachmittag'])
+  })
+})
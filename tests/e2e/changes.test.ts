@@ -0,0 +1,226 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest'
+import { mkdtempSync, readFileSync, writeFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { startHarness, loadLlmScript, apiRequest, readEvents, Harness, TOKENS } from '../harness'
+
+let harness: Harness
+let chat: typeof import('@/app/api/chat/route')
+let conversations: typeof import('@/app/api/conversations/route')
+let changeSet: typeof import('@/app/api/changes/[id]/route')
+let undo: typeof import('@/app/api/changes/[id]/undo/route')
+
+beforeAll(async () => {
+  harness = await startHarness()
+  chat = await import('@/app/api/chat/route')
+  conversations = await import('@/app/api/conversations/route')
+  changeSet = await import('@/app/api/changes/[id]/route')
+  undo = await import('@/app/api/changes/[id]/undo/route')
+})
+
+afterAll(async () => {
+  await harness?.stop()
+})
+
+beforeEach(() => {
+  vi.spyOn(console, 'info').mockImplementation(() => {})
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+async function postChat(token: string, body: Record<string, unknown>) {
+  return chat.POST(apiRequest('/api/chat', { token, json: body }), {})
+}
+
+async function propose(script: string, content: string, token = TOKENS.purchaser) {
+  harness.llm.load(loadLlmScript(script))
+  return (await postChat(token, { messages: [{ role: 'user', content }] })).json()
+}
+
+async function decide(token: string, id: string, decision: 'confirm' | 'reject') {
+  return postChat(token, { changeSet: { id, decision } })
+}
+
+async function undoChangeSet(token: string, id: string) {
+  return undo.POST(apiRequest(`/api/changes/${id}/undo`, { token }), { params: { id } })
+}
+
+const copperPrice = () => harness.supabase.rows('t_material_prices').find((row) => row.id === 10)!
+
+describe('write operations', () => {
+  it('proposes a change with before and after values without writing it', async () => {
+    const body = await propose('propose-price-change', 'Setze den Verkaufspreis von Kupferrohr auf 13,20 €')
+
+    expect(harness.llm.requests[0].tools.map((tool: any) => tool.function.name)).toContain('proposeChanges')
+    expect(body.message.content).toContain('Bitte bestätige')
+    expect(body.metadata.changeSet).toMatchObject({
+      summary: 'Verkaufspreis von Kupferrohr auf 13,20 € setzen',
+      status: 'pending',
+      changes: [{
+        action: 'update',
+        table: 't_material_prices',
+        rows: [{ key: { id: 10 }, before: { price_per_unit: 12.5 }, after: { price_per_unit: 13.2 } }],
+      }],
+    })
+    expect(copperPrice().price_per_unit).toBe(12.5)
+
+    const stored = harness.supabase.rows('chat_change_sets').find((row) => row.id === body.metadata.changeSet.id)
+    expect(stored).toMatchObject({ status: 'pending', user_email: 'einkauf@example.com', tables: ['t_material_prices'] })
+  })
+
+  it('does not leave a pending change set behind when proposeChanges times out', async () => {
+    const countBefore = harness.supabase.rows('chat_change_sets').length
+    harness.supabase.setResponseDelay('chat_change_sets', 300)
+    vi.stubEnv('CHAT_TOOL_TIMEOUT_MS', '100')
+
+    try {
+      const body = await propose('propose-price-change', 'Setze den Verkaufspreis von Kupferrohr auf 13,20 €')
+
+      expect(body.trace[0]).toMatchObject({ name: 'proposeChanges', timedOut: true })
+      expect(body.metadata.changeSet).toBeUndefined()
+      // Nothing of the aborted call is still running once the answer is sent
+      await new Promise((resolve) => setTimeout(resolve, 400))
+      const stored = harness.supabase.rows('chat_change_sets').slice(countBefore)
+      expect(stored.filter((row) => row.status === 'pending')).toEqual([])
+    } finally {
+      harness.supabase.setResponseDelay('chat_change_sets', 0)
+      vi.unstubAllEnvs()
+    }
+  })
+
+  it('applies a confirmed change set, audits it and undoes it', async () => {
+    const created = await conversations.POST(apiRequest('/api/conversations', { token: TOKENS.purchaser, json: {} }), {})
+    const { conversation } = await created.json()
+    const { metadata } = await propose('propose-price-change', 'Setze den Verkaufspreis von Kupferrohr auf 13,20 €')
+    const { id } = metadata.changeSet
+
+    const response = await postChat(TOKENS.purchaser, {
+      conversationId: conversation.id,
+      message: 'Ja, bestätigen',
+      changeSet: { id, decision: 'confirm' },
+    })
+    expect(response.status).toBe(200)
+    const body = await response.json()
+
+    expect(body.message.content).toBe('Erledigt: 1 Zeile in t_material_prices geändert. Die Änderung kann rückgängig gemacht werden.')
+    expect(body.metadata.changeSet).toMatchObject({ id, status: 'applied' })
+    expect(copperPrice().price_per_unit).toBe(13.2)
+    const write = harness.supabase.requests.find((request) => request.method === 'PATCH' && request.path === '/rest/v1/t_material_prices')
+    expect(write?.authorization).toBe(`Bearer ${TOKENS.purchaser}`)
+
+    const audit = harness.supabase.rows('chat_audit_log').at(-1)
+    expect(audit).toMatchObject({ user_message: 'Ja, bestätigen', tables: ['t_material_prices'], has_error: false })
+    expect(audit?.tool_calls[0]).toMatchObject({
+      name: 'applyChanges',
+      arguments: { changeSetId: id, changes: [{ rows: [{ before: { price_per_unit: 12.5 }, after: { price_per_unit: 13.2 } }] }] },
+    })
+    const stored = harness.supabase.rows('conversation_messages').filter((row) => row.conversation_id === conversation.id)
+    expect(stored.map((row) => row.content)).toEqual(['Ja, bestätigen', body.message.content])
+
+    // A second confirmation does not apply it again
+    const again = await (await decide(TOKENS.purchaser, id, 'confirm')).json()
+    expect(again.message.content).toBe('Die Änderungen wurden nicht übernommen: Change set is already applied')
+
+    const undone = await undoChangeSet(TOKENS.purchaser, id)
+    expect(undone.status).toBe(200)
+    expect((await undone.json()).changeSet).toMatchObject({ id, status: 'undone' })
+    expect(copperPrice().price_per_unit).toBe(12.5)
+    expect((await undoChangeSet(TOKENS.purchaser, id)).status).toBe(409)
+
+    const current = await changeSet.GET(apiRequest(`/api/changes/${id}`, { token: TOKENS.purchaser, method: 'GET' }), { params: { id } })
+    expect((await current.json()).changeSet.status).toBe('undone')
+  })
+
+  it('inserts a confirmed row and deletes it again on undo', async () => {
+    const { metadata } = await propose('propose-new-price', 'Lege für PVC-Rohr ab November einen Preis von 4,20 € an')
+    const countBefore = harness.supabase.rows('t_material_prices').length
+
+    const events = await readEvents(await postChat(TOKENS.purchaser, {
+      stream: true,
+      changeSet: { id: metadata.changeSet.id, decision: 'confirm' },
+    }))
+    const done = events.find((event) => event.type === 'done') as any
+
+    const inserted = done.metadata.changeSet.changes[0].rows[0]
+    expect(inserted.key.id).toEqual(expect.any(Number))
+    expect(harness.supabase.rows('t_material_prices')).toHaveLength(countBefore + 1)
+
+    await undoChangeSet(TOKENS.purchaser, metadata.changeSet.id)
+    expect(harness.supabase.rows('t_material_prices')).toHaveLength(countBefore)
+  })
+
+  it('does not undo an insert when the policy no longer allows deleting the row', async () => {
+    const { metadata } = await propose('propose-new-price', 'Lege für PVC-Rohr ab November einen Preis von 4,20 € an')
+    const id = metadata.changeSet.id
+    await decide(TOKENS.purchaser, id, 'confirm')
+    const countAfterInsert = harness.supabase.rows('t_material_prices').length
+
+    const policyDir = mkdtempSync(path.join(tmpdir(), 'undo-'))
+    const policyPath = path.join(policyDir, 'data-policy.json')
+    const policy = JSON.parse(readFileSync('config/data-policy.json', 'utf8'))
+    const { delete: _delete, ...write } = policy.tables.t_material_prices.write
+    writeFileSync(policyPath, JSON.stringify({ ...policy, tables: { ...policy.tables, t_material_prices: { write } } }))
+    vi.stubEnv('DATA_POLICY_PATH', policyPath)
+
+    try {
+      const response = await undoChangeSet(TOKENS.purchaser, id)
+
+      expect(response.status).toBe(403)
+      expect(await response.json()).toMatchObject({
+        error: 'Access denied: removing rows from table "t_material_prices" is not allowed.',
+        changeSet: { id, status: 'applied' },
+      })
+      expect(harness.supabase.rows('t_material_prices')).toHaveLength(countAfterInsert)
+    } finally {
+      vi.unstubAllEnvs()
+      rmSync(policyDir, { recursive: true, force: true })
+    }
+
+    expect((await undoChangeSet(TOKENS.purchaser, id)).status).toBe(200)
+    expect(harness.supabase.rows('t_material_prices')).toHaveLength(countAfterInsert - 1)
+  })
+
+  it('discards a rejected change set', async () => {
+    const { metadata } = await propose('propose-price-change', 'Setze den Verkaufspreis von Kupferrohr auf 13,20 €')
+
+    const body = await (await decide(TOKENS.purchaser, metadata.changeSet.id, 'reject')).json()
+
+    expect(body.message.content).toBe('Die Änderungen wurden verworfen, es wurde nichts geändert.')
+    expect(body.metadata.changeSet.status).toBe('rejected')
+    expect(copperPrice().price_per_unit).toBe(12.5)
+  })
+
+  it('does not overwrite a row that changed after the proposal', async () => {
+    const { metadata } = await propose('propose-price-change', 'Setze den Verkaufspreis von Kupferrohr auf 13,20 €')
+    copperPrice().price_per_unit = 12.9
+
+    try {
+      const body = await (await decide(TOKENS.purchaser, metadata.changeSet.id, 'confirm')).json()
+
+      expect(body.metadata.changeSet.status).toBe('failed')
+      expect(body.message.content).toMatch(/^Die Änderungen wurden nicht übernommen: Row id=10 of t_material_prices was changed or removed/)
+      expect(copperPrice().price_per_unit).toBe(12.9)
+    } finally {
+      copperPrice().price_per_unit = 12.5
+    }
+  })
+
+  it('only lets the proposing user decide', async () => {
+    const { metadata } = await propose('propose-price-change', 'Setze den Verkaufspreis von Kupferrohr auf 13,20 €')
+
+    const response = await decide(TOKENS.admin, metadata.changeSet.id, 'confirm')
+
+    expect(response.status).toBe(404)
+    expect(copperPrice().price_per_unit).toBe(12.5)
+  })
+
+  it('rejects writes the policy does not allow and does not offer the tool to viewers', async () => {
+    const body = await propose('propose-denied-change', 'Benenne Kupferrohr in Kupferrohr 15 mm um')
+
+    expect(body.trace[0].error).toBe('changes[0]: Access denied: changing rows of table "t_materials" is not allowed.')
+    expect(body.metadata.changeSet).toBeUndefined()
+
+    harness.llm.load(loadLlmScript('propose-price-change'))
+    await postChat(TOKENS.viewer, { messages: [{ role: 'user', content: 'Setze den Verkaufspreis von Kupferrohr auf 13,20 €' }] })
+    expect(harness.llm.requests[0].tools.map((tool: any) => tool.function.name)).not.toContain('proposeChanges')
+  })
+})
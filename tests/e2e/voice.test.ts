@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+import { startHarness, apiRequest, Harness, TOKENS, ELEVENLABS_KEY } from '../harness'
+import { FAKE_AUDIO } from '../harness/fake-voice'
+
+let harness: Harness
+let stt: typeof import('@/app/api/stt/route')
+let tts: typeof import('@/app/api/tts/route')
+
+beforeAll(async () => {
+  harness = await startHarness()
+  stt = await import('@/app/api/stt/route')
+  tts = await import('@/app/api/tts/route')
+})
+
+afterAll(async () => {
+  await harness?.stop()
+})
+
+function audioForm(content: string, type = 'audio/webm') {
+  const form = new FormData()
+  form.append('audio', new Blob([content], { type }), 'recording.webm')
+  return form
+}
+
+describe('/api/stt', () => {
+  it('transcribes audio through Deepgram', async () => {
+    harness.voice.setTranscript('Was kostet Stahlblech?')
+
+    const response = await stt.POST(apiRequest('/api/stt', { token: TOKENS.purchaser, body: audioForm('fake-audio') }), {})
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ transcript: 'Was kostet Stahlblech?' })
+    const request = harness.voice.requests.at(-1)
+    expect(request?.path).toBe('/v1/listen')
+    expect(request?.headers['content-type']).toBe('audio/webm')
+  })
+
+  it('reports missing speech', async () => {
+    harness.voice.setTranscript('')
+
+    const response = await stt.POST(apiRequest('/api/stt', { token: TOKENS.purchaser, body: audioForm('silence') }), {})
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({ error: 'No speech detected' })
+  })
+
+  it('checks the API key at request time', async () => {
+    const key = process.env.DEEPGRAM_API_KEY
+    delete process.env.DEEPGRAM_API_KEY
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    try {
+      const response = await stt.POST(apiRequest('/api/stt', { token: TOKENS.purchaser, body: audioForm('fake-audio') }), {})
+      expect(response.status).toBe(500)
+      expect(await response.json()).toEqual({ error: 'DEEPGRAM_API_KEY is not set' })
+    } finally {
+      process.env.DEEPGRAM_API_KEY = key
+    }
+  })
+})
+
+describe('/api/tts', () => {
+  it('returns the synthesized audio', async () => {
+    const response = await tts.POST(apiRequest('/api/tts', { token: TOKENS.purchaser, json: { text: 'Kupferrohr kostet 12,50 €.' } }), {})
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('content-type')).toBe('audio/mpeg')
+    expect(Buffer.from(await response.arrayBuffer())).toEqual(FAKE_AUDIO)
+    const request = harness.voice.requests.at(-1)
+    expect(request?.headers['xi-api-key']).toBe(ELEVENLABS_KEY)
+    expect(request?.json.text).toBe('Kupferrohr kostet 12,50 €.')
+  })
+
+  it('requires text', async () => {
+    const response = await tts.POST(apiRequest('/api/tts', { token: TOKENS.purchaser, json: {} }), {})
+    expect(response.status).toBe(400)
+  })
+
+  it('rejects requests without a session', async () => {
+    const response = await tts.POST(apiRequest('/api/tts', { json: { text: 'Hallo' } }), {})
+    expect(response.status).toBe(401)
+  })
+})
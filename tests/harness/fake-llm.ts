@@ -0,0 +1,140 @@
+import type http from 'http'
+import { startServer, sendJson, parseJsonBody, FakeServer } from './http'
+
+/**
+ * Scripted OpenAI-compatible chat completions server
+ *
+ * Each request consumes the next turn of the loaded script: either tool calls or a
+ * final text answer. Streaming and non-streaming requests are both answered, with a
+ * fixed token usage. Requests are recorded so tests can inspect the messages the
+ * route sent, e.g. the tool results.
+ */
+
+export interface ScriptedToolCall {
+  name: string
+  arguments: Record<string, any> | string
+}
+
+export interface ScriptedTurn {
+  content?: string
+  toolCalls?: ScriptedToolCall[]
+  // Wait before answering, e.g. to exercise the time budget
+  delayMs?: number
+}
+
+export interface LlmScript {
+  description?: string
+  turns: ScriptedTurn[]
+}
+
+export interface FakeLlm extends FakeServer {
+  // Base URL including /v1, as used for LLM_BASE_URL
+  baseUrl: string
+  requests: any[]
+  load: (script: LlmScript) => void
+  remainingTurns: () => number
+}
+
+const USAGE = { prompt_tokens: 100, completion_tokens: 20, total_tokens: 120 }
+
+function toToolCalls(turn: ScriptedTurn, requestIndex: number) {
+  return (turn.toolCalls || []).map((call, index) => ({
+    id: `call_${requestIndex}_${index}`,
+    type: 'function' as const,
+    function: {
+      name: call.name,
+      arguments: typeof call.arguments === 'string' ? call.arguments : JSON.stringify(call.arguments),
+    },
+  }))
+}
+
+function writeStream(res: http.ServerResponse, turn: ScriptedTurn, requestIndex: number, model: string, includeUsage: boolean) {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' })
+  const base = { id: `chatcmpl-fake-${requestIndex}`, object: 'chat.completion.chunk', created: 0, model }
+  const send = (payload: unknown) => res.write(`data: ${JSON.stringify(payload)}\n\n`)
+  const toolCalls = toToolCalls(turn, requestIndex)
+
+  send({ ...base, choices: [{ index: 0, delta: { role: 'assistant', content: '' }, finish_reason: null }] })
+
+  // Content in word-sized pieces, like a real stream
+  for (const piece of (turn.content || '').match(/\S+\s*/g) || []) {
+    send({ ...base, choices: [{ index: 0, delta: { content: piece }, finish_reason: null }] })
+  }
+
+  toolCalls.forEach((toolCall, index) => {
+    send({ ...base, choices: [{ index: 0, delta: { tool_calls: [{ index, ...toolCall }] }, finish_reason: null }] })
+  })
+
+  send({ ...base, choices: [{ index: 0, delta: {}, finish_reason: toolCalls.length > 0 ? 'tool_calls' : 'stop' }] })
+  if (includeUsage) {
+    send({ ...base, choices: [], usage: USAGE })
+  }
+  res.write('data: [DONE]\n\n')
+  res.end()
+}
+
+/**
+ * Start the fake LLM server; load a script before each conversation
+ */
+export async function startFakeLlm(): Promise<FakeLlm> {
+  const requests: any[] = []
+  let turns: ScriptedTurn[] = []
+
+  const server = await startServer(async (req, res, body) => {
+    const url = new URL(req.url || '/', 'http://localhost')
+    if (req.method !== 'POST' || !url.pathname.endsWith('/chat/completions')) {
+      sendJson(res, 404, { error: { message: `No fake route for ${req.method} ${url.pathname}` } })
+      return
+    }
+
+    const payload = parseJsonBody(body)
+    requests.push(payload)
+    const requestIndex = requests.length
+
+    const turn = turns.shift()
+    if (!turn) {
+      sendJson(res, 500, { error: { message: 'Fake LLM script exhausted', type: 'server_error' } })
+      return
+    }
+    if (turn.delayMs) {
+      await new Promise((resolve) => setTimeout(resolve, turn.delayMs))
+      if (res.destroyed) {
+        return
+      }
+    }
+
+    if (payload.stream) {
+      writeStream(res, turn, requestIndex, payload.model, !!payload.stream_options?.include_usage)
+      return
+    }
+
+    const toolCalls = toToolCalls(turn, requestIndex)
+    sendJson(res, 200, {
+      id: `chatcmpl-fake-${requestIndex}`,
+      object: 'chat.completion',
+      created: 0,
+      model: payload.model,
+      choices: [{
+        index: 0,
+        message: {
+          role: 'assistant',
+          content: turn.content ?? null,
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+        },
+        finish_reason: toolCalls.length > 0 ? 'tool_calls' : 'stop',
+      }],
+      usage: USAGE,
+    })
+  })
+
+  return {
+    ...server,
+    baseUrl: `${server.url}/v1`,
+    requests,
+    load: (script) => {
+      turns = script.turns.map((turn) => ({ ...turn }))
+      requests.length = 0
+    },
+    remainingTurns: () => turns.length,
+  }
+}
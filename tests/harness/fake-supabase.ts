@@ -0,0 +1,633 @@
+import { randomUUID } from 'crypto'
+import type http from 'http'
+import { startServer, sendJson, parseJsonBody, FakeServer } from './http'
+
+/**
+ * In-memory stand-in for Supabase: the PostgREST subset used by the app and GET /auth/v1/user
+ *
+ * Supported: select with projections and embedded resources (foreign keys in both
+ * directions, !hint and !inner), eq/neq/gt/gte/lt/lte/like/ilike/in/is/cs filters with
+ * not., or/and logic trees (also on embedded tables), order, limit/offset, count=exact,
+ * single objects, insert/update/delete with return=representation, RPCs and the OpenAPI
+ * document the schema catalog is built from. Row level security is not emulated; every
+ * request is recorded with its Authorization header instead.
+ */
+
+export interface SeedForeignKey {
+  column: string
+  // "table.column"
+  references: string
+}
+
+export interface SeedTable {
+  // Column name -> Postgres type; an empty object accepts any column
+  columns: Record<string, string>
+  primaryKey?: string[]
+  foreignKeys?: SeedForeignKey[]
+  idType?: 'serial' | 'uuid'
+  rows?: Record<string, any>[]
+}
+
+export interface SeedUser {
+  token: string
+  id: string
+  email: string
+}
+
+export interface SupabaseSeed {
+  users: SeedUser[]
+  tables: Record<string, SeedTable>
+}
+
+export interface RecordedDbRequest {
+  method: string
+  path: string
+  search: string
+  authorization: string | null
+}
+
+export interface FakeSupabase extends FakeServer {
+  requests: RecordedDbRequest[]
+  rows: (table: string) => Record<string, any>[]
+  rpcs: Record<string, (args: Record<string, any>) => any>
+  // Disable the OpenAPI document to exercise code paths without the schema catalog
+  setOpenApiAvailable: (available: boolean) => void
+  // Delay the responses for a table (0 removes the delay), e.g. to exercise tool timeouts
+  setResponseDelay: (table: string, ms: number) => void
+  // Table requests being served and the highest number served at the same time
+  concurrency: { active: number; peak: number }
+}
+
+// Filters, order and limit of embedded tables, keyed by embed path
+interface EmbedParams {
+  filters: Map<string, LogicNode[]>
+  modifiers: Map<string, { order?: string; limit?: number }>
+}
+
+class PostgrestError extends Error {
+  constructor(public status: number, public code: string, message: string) {
+    super(message)
+  }
+}
+
+interface Relationship {
+  // many-to-one: the parent row holds the foreign key
+  kind: 'many-to-one' | 'one-to-many'
+  parentColumn: string
+  childColumn: string
+}
+
+type SelectItem =
+  | { type: 'column'; name: string; alias: string }
+  | { type: 'embed'; table: string; alias: string; hint: string | null; inner: boolean; items: SelectItem[] }
+
+type Condition = { column: string; operator: string; negate: boolean; value: string }
+type LogicNode =
+  | { type: 'condition'; condition: Condition }
+  | { type: 'group'; operator: 'and' | 'or'; negate: boolean; children: LogicNode[] }
+
+const RESERVED_PARAMS = ['select', 'order', 'limit', 'offset', 'columns', 'on_conflict']
+
+/**
+ * Split on commas that are not inside parentheses, braces or double quotes
+ */
+function splitTopLevel(text: string) {
+  const parts: string[] = []
+  let depth = 0
+  let quoted = false
+  let current = ''
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (char === '\\' && quoted) {
+      current += char + (text[i + 1] || '')
+      i++
+      continue
+    }
+    if (char === '"') quoted = !quoted
+    if (!quoted && (char === '(' || char === '{')) depth++
+    if (!quoted && (char === ')' || char === '}')) depth--
+    if (char === ',' && depth === 0 && !quoted) {
+      parts.push(current)
+      current = ''
+      continue
+    }
+    current += char
+  }
+  if (current) {
+    parts.push(current)
+  }
+  return parts.map((part) => part.trim()).filter(Boolean)
+}
+
+function unquote(value: string) {
+  if (value.startsWith('"') && value.endsWith('"')) {
+    return value.slice(1, -1).replace(/\\(.)/g, '$1')
+  }
+  return value
+}
+
+function parseSelect(select: string): SelectItem[] {
+  return splitTopLevel(select || '*').map((part) => {
+    const open = part.indexOf('(')
+    if (open === -1) {
+      const [alias, name] = part.includes(':') && !part.includes('::') ? part.split(':') : [null, part.split('::')[0]]
+      return { type: 'column', name, alias: alias || name }
+    }
+
+    const head = part.slice(0, open)
+    const inner = part.slice(open + 1, part.lastIndexOf(')'))
+    const [alias, target] = head.includes(':') ? head.split(':') : [null, head]
+    const [table, ...modifiers] = target.split('!')
+    const hint = modifiers.find((modifier) => modifier !== 'inner' && modifier !== 'left') || null
+
+    return {
+      type: 'embed',
+      table,
+      alias: alias || table,
+      hint,
+      inner: modifiers.includes('inner'),
+      items: parseSelect(inner),
+    }
+  })
+}
+
+function parseCondition(column: string, expression: string): Condition {
+  const negate = expression.startsWith('not.')
+  const rest = negate ? expression.slice(4) : expression
+  const dot = rest.indexOf('.')
+  return { column, operator: rest.slice(0, dot), negate, value: rest.slice(dot + 1) }
+}
+
+function parseLogicTree(operator: 'and' | 'or', negate: boolean, body: string): LogicNode {
+  const inner = body.replace(/^\(/, '').replace(/\)$/, '')
+  const children = splitTopLevel(inner).map((part): LogicNode => {
+    const group = part.match(/^(not\.)?(and|or)\((.*)\)$/)
+    if (group) {
+      return parseLogicTree(group[2] as 'and' | 'or', !!group[1], `(${group[3]})`)
+    }
+    const dot = part.indexOf('.')
+    return { type: 'condition', condition: parseCondition(part.slice(0, dot), part.slice(dot + 1)) }
+  })
+  return { type: 'group', operator, negate, children }
+}
+
+function toComparable(left: any, right: string): [any, any] {
+  if (typeof left === 'number' || (typeof left === 'string' && left.trim() !== '' && !isNaN(Number(left)) && !isNaN(Number(right)))) {
+    return [Number(left), Number(right)]
+  }
+  if (typeof left === 'boolean') {
+    return [left, right === 'true']
+  }
+  return [String(left), right]
+}
+
+function likeToRegExp(pattern: string, flags: string) {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/[*%]/g, '.*').replace(/_/g, '.')
+  return new RegExp(`^${escaped}$`, flags)
+}
+
+function parseList(value: string) {
+  return splitTopLevel(value.replace(/^[({]/, '').replace(/[)}]$/, '')).map(unquote)
+}
+
+function matchesCondition(row: Record<string, any>, condition: Condition): boolean {
+  const actual = row[condition.column]
+  const value = unquote(condition.value)
+  let result: boolean
+
+  switch (condition.operator) {
+    case 'is':
+      result = value === 'null' ? actual === null || actual === undefined : actual === (value === 'true')
+      break
+    case 'in':
+      result = actual !== null && actual !== undefined && parseList(condition.value).some((item) => {
+        const [left, right] = toComparable(actual, item)
+        return left === right
+      })
+      break
+    case 'cs':
+      result = Array.isArray(actual) && parseList(condition.value).every((item) => actual.map(String).includes(item))
+      break
+    case 'like':
+    case 'ilike':
+      result = actual !== null && actual !== undefined && likeToRegExp(value, condition.operator === 'ilike' ? 'i' : '').test(String(actual))
+      break
+    default: {
+      if (actual === null || actual === undefined) {
+        result = false
+        break
+      }
+      const [left, right] = toComparable(actual, value)
+      const comparisons: Record<string, boolean> = {
+        eq: left === right,
+        neq: left !== right,
+        gt: left > right,
+        gte: left >= right,
+        lt: left < right,
+        lte: left <= right,
+      }
+      if (!(condition.operator in comparisons)) {
+        throw new PostgrestError(400, 'PGRST100', `"failed to parse filter (${condition.operator}.${condition.value})"`)
+      }
+      result = comparisons[condition.operator]
+    }
+  }
+
+  return condition.negate ? !result : result
+}
+
+function matchesLogic(row: Record<string, any>, node: LogicNode): boolean {
+  if (node.type === 'condition') {
+    return matchesCondition(row, node.condition)
+  }
+  const result = node.operator === 'and'
+    ? node.children.every((child) => matchesLogic(row, child))
+    : node.children.some((child) => matchesLogic(row, child))
+  return node.negate ? !result : result
+}
+
+/**
+ * Start the fake Supabase server with a copy of the seed data
+ */
+export async function startFakeSupabase(seed: SupabaseSeed): Promise<FakeSupabase> {
+  const tables = new Map<string, { spec: SeedTable; rows: Record<string, any>[]; nextId: number }>()
+  for (const [name, spec] of Object.entries(seed.tables)) {
+    const rows = (spec.rows || []).map((row) => ({ ...row }))
+    const maxId = rows.reduce((max, row) => (typeof row.id === 'number' && row.id > max ? row.id : max), 0)
+    tables.set(name, { spec, rows, nextId: maxId + 1 })
+  }
+
+  const requests: RecordedDbRequest[] = []
+  const rpcs: Record<string, (args: Record<string, any>) => any> = {}
+  let openApiAvailable = true
+  const responseDelays = new Map<string, number>()
+  const concurrency = { active: 0, peak: 0 }
+
+  const getTable = (name: string) => {
+    const table = tables.get(name)
+    if (!table) {
+      throw new PostgrestError(404, '42P01', `relation "public.${name}" does not exist`)
+    }
+    return table
+  }
+
+  const foreignKeys = () => Array.from(tables.entries()).flatMap(([table, { spec }]) =>
+    (spec.foreignKeys || []).map((fk) => {
+      const [referencedTable, referencedColumn] = fk.references.split('.')
+      return { table, column: fk.column, referencedTable, referencedColumn }
+    })
+  )
+
+  const findRelationship = (parent: string, child: string, hint: string | null): Relationship => {
+    const candidates = foreignKeys()
+      .filter((fk) => (fk.table === parent && fk.referencedTable === child) || (fk.table === child && fk.referencedTable === parent))
+      .filter((fk) => !hint || fk.column === hint)
+
+    if (candidates.length === 0) {
+      throw new PostgrestError(
+        400,
+        'PGRST200',
+        `Could not find a relationship between '${parent}' and '${child}' in the schema cache`
+      )
+    }
+    if (candidates.length > 1) {
+      throw new PostgrestError(300, 'PGRST201', `Could not embed because more than one relationship was found for '${parent}' and '${child}'`)
+    }
+
+    const [fk] = candidates
+    return fk.table === parent && fk.referencedTable === child
+      ? { kind: 'many-to-one', parentColumn: fk.column, childColumn: fk.referencedColumn }
+      : { kind: 'one-to-many', parentColumn: fk.referencedColumn, childColumn: fk.column }
+  }
+
+  const checkColumn = (tableName: string, column: string) => {
+    const { spec } = getTable(tableName)
+    if (Object.keys(spec.columns).length > 0 && !(column in spec.columns)) {
+      throw new PostgrestError(400, '42703', `column ${tableName}.${column} does not exist`)
+    }
+  }
+
+  /**
+   * Project rows of a table through select items, applying embedded filters, order and limit
+   * Embedded parameters are keyed by their embed path ("prices" or "prices.suppliers").
+   * Returns null for a parent row that an !inner embed excludes.
+   */
+  const project = (
+    tableName: string,
+    row: Record<string, any>,
+    items: SelectItem[],
+    embeds: EmbedParams,
+    path = ''
+  ): Record<string, any> | null => {
+    const output: Record<string, any> = {}
+
+    for (const item of items) {
+      if (item.type === 'column') {
+        if (item.name === '*') {
+          Object.assign(output, row)
+        } else {
+          checkColumn(tableName, item.name)
+          output[item.alias] = row[item.name] ?? null
+        }
+        continue
+      }
+
+      const relationship = findRelationship(tableName, item.table, item.hint)
+      const embedPath = path ? `${path}.${item.alias}` : item.alias
+      const filters = [
+        ...(embeds.filters.get(embedPath) || []),
+        ...(!path && item.table !== item.alias ? embeds.filters.get(item.table) || [] : []),
+      ]
+      const modifiers = embeds.modifiers.get(embedPath) || {}
+      const matching = applyOrder(getTable(item.table).rows
+        .filter((candidate) => candidate[relationship.childColumn] === row[relationship.parentColumn])
+        .filter((candidate) => filters.every((filter) => matchesLogic(candidate, filter))), modifiers.order || null)
+      const related = matching
+        .map((candidate) => project(item.table, candidate, item.items, embeds, embedPath))
+        .filter((candidate): candidate is Record<string, any> => candidate !== null)
+        .slice(0, modifiers.limit ?? matching.length)
+
+      if (relationship.kind === 'many-to-one') {
+        output[item.alias] = related[0] || null
+      } else {
+        output[item.alias] = related
+      }
+
+      if (item.inner && related.length === 0) {
+        return null
+      }
+    }
+
+    return output
+  }
+
+  const parseFilters = (params: URLSearchParams) => {
+    const rootFilters: LogicNode[] = []
+    const embeds: EmbedParams = { filters: new Map(), modifiers: new Map() }
+    const embedFilters = embeds.filters
+    const add = (target: string | null, node: LogicNode) => {
+      if (!target) {
+        rootFilters.push(node)
+        return
+      }
+      embedFilters.set(target, [...(embedFilters.get(target) || []), node])
+    }
+
+    for (const [key, value] of Array.from(params.entries())) {
+      if (RESERVED_PARAMS.includes(key)) {
+        continue
+      }
+      const parts = key.split('.')
+      const last = parts[parts.length - 1]
+      const target = parts.length > 1 && !['or', 'and'].includes(parts[0]) ? parts.slice(0, -1).join('.') : null
+
+      // Order and limit of embedded rows: prices.order=valid_from.desc, prices.limit=3
+      if (target && (last === 'order' || last === 'limit')) {
+        const modifiers = embeds.modifiers.get(target) || {}
+        if (last === 'order') modifiers.order = value
+        else modifiers.limit = parseInt(value, 10)
+        embeds.modifiers.set(target, modifiers)
+        continue
+      }
+
+      if (last === 'or' || last === 'and') {
+        add(target, parseLogicTree(last, false, value))
+      } else {
+        add(target, { type: 'condition', condition: parseCondition(last, value) })
+      }
+    }
+
+    return { rootFilters, embeds }
+  }
+
+  const applyOrder = (rows: Record<string, any>[], order: string | null) => {
+    if (!order) {
+      return rows
+    }
+    const specs = order.split(',').map((part) => {
+      const [column, ...modifiers] = part.split('.')
+      return {
+        column,
+        descending: modifiers.includes('desc'),
+        nullsFirst: modifiers.includes('nullsfirst') || (modifiers.includes('desc') && !modifiers.includes('nullslast')),
+      }
+    })
+
+    return [...rows].sort((a, b) => {
+      for (const spec of specs) {
+        const left = a[spec.column]
+        const right = b[spec.column]
+        if (left === right) continue
+        if (left === null || left === undefined) return spec.nullsFirst ? -1 : 1
+        if (right === null || right === undefined) return spec.nullsFirst ? 1 : -1
+        const comparison = left < right ? -1 : 1
+        return spec.descending ? -comparison : comparison
+      }
+      return 0
+    })
+  }
+
+  const respondRows = (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    rows: Record<string, any>[],
+    status: number,
+    contentRange: string
+  ) => {
+    const wantsObject = (req.headers.accept || '').includes('application/vnd.pgrst.object+json')
+    if (wantsObject) {
+      if (rows.length !== 1) {
+        throw new PostgrestError(406, 'PGRST116', 'JSON object requested, multiple (or no) rows returned')
+      }
+      sendJson(res, status, rows[0], { 'Content-Range': contentRange })
+      return
+    }
+    sendJson(res, status, rows, { 'Content-Range': contentRange })
+  }
+
+  const handleTable = (req: http.IncomingMessage, res: http.ServerResponse, tableName: string, params: URLSearchParams, body: Buffer) => {
+    const table = getTable(tableName)
+    const prefer = String(req.headers.prefer || '')
+    const returnRepresentation = prefer.includes('return=representation')
+    const items = parseSelect(params.get('select') || '*')
+    const { rootFilters, embeds } = parseFilters(params)
+    const matches = (row: Record<string, any>) => rootFilters.every((filter) => matchesLogic(row, filter))
+    const projectAll = (rows: Record<string, any>[]) => rows
+      .map((row) => project(tableName, row, items, embeds))
+      .filter((row): row is Record<string, any> => row !== null)
+
+    if (req.method === 'GET' || req.method === 'HEAD') {
+      const rows = projectAll(applyOrder(table.rows.filter(matches), params.get('order')))
+      const offset = parseInt(params.get('offset') || '0', 10)
+      const limit = params.has('limit') ? parseInt(params.get('limit')!, 10) : rows.length
+      const page = rows.slice(offset, offset + limit)
+      const total = prefer.includes('count=exact') ? String(rows.length) : '*'
+      const range = page.length > 0 ? `${offset}-${offset + page.length - 1}/${total}` : `*/${total}`
+      respondRows(req, res, page, 200, range)
+      return
+    }
+
+    if (req.method === 'POST') {
+      const payload = parseJsonBody(body)
+      const inserted = (Array.isArray(payload) ? payload : [payload]).map((values: Record<string, any>) => {
+        Object.keys(values).forEach((column) => checkColumn(tableName, column))
+        const now = new Date().toISOString()
+        const row: Record<string, any> = { ...values }
+        if (row.id === undefined && (table.spec.idType || table.spec.columns.id)) {
+          row.id = table.spec.idType === 'uuid' ? randomUUID() : table.nextId++
+        }
+        for (const column of ['created_at', 'updated_at']) {
+          if (row[column] === undefined && (column in table.spec.columns || Object.keys(table.spec.columns).length === 0)) {
+            row[column] = now
+          }
+        }
+        table.rows.push(row)
+        return row
+      })
+      if (!returnRepresentation) {
+        sendJson(res, 201, undefined)
+        return
+      }
+      respondRows(req, res, projectAll(inserted), 201, `*/*`)
+      return
+    }
+
+    if (req.method === 'PATCH') {
+      const values = parseJsonBody(body) || {}
+      Object.keys(values).forEach((column) => checkColumn(tableName, column))
+      const updated = table.rows.filter(matches)
+      updated.forEach((row) => Object.assign(row, values))
+      if (!returnRepresentation) {
+        sendJson(res, 204, undefined)
+        return
+      }
+      respondRows(req, res, projectAll(updated), 200, `*/*`)
+      return
+    }
+
+    if (req.method === 'DELETE') {
+      const deleted = table.rows.filter(matches)
+      table.rows = table.rows.filter((row) => !matches(row))
+      if (!returnRepresentation) {
+        sendJson(res, 204, undefined)
+        return
+      }
+      respondRows(req, res, projectAll(deleted), 200, `*/*`)
+      return
+    }
+
+    throw new PostgrestError(405, 'PGRST117', `Unsupported HTTP method: ${req.method}`)
+  }
+
+  const buildOpenApi = () => {
+    const definitions: Record<string, any> = {}
+    const paths: Record<string, any> = {}
+
+    for (const [name, { spec }] of Array.from(tables.entries())) {
+      const properties: Record<string, any> = {}
+      for (const [column, type] of Object.entries(spec.columns)) {
+        const fk = (spec.foreignKeys || []).find((foreignKey) => foreignKey.column === column)
+        const notes = [
+          spec.primaryKey?.includes(column) ? 'Note:\nThis is a Primary Key.<pk/>' : null,
+          fk ? `Note:\nThis is a Foreign Key to \`${fk.references}\`.<fk table='${fk.references.split('.')[0]}' column='${fk.references.split('.')[1]}'/>` : null,
+        ].filter(Boolean)
+        properties[column] = {
+          type: /int|numeric|double|real/.test(type) ? (type.includes('int') ? 'integer' : 'number') : type === 'boolean' ? 'boolean' : type.endsWith('[]') ? 'array' : 'string',
+          format: type,
+          ...(notes.length > 0 ? { description: notes.join('\n') } : {}),
+        }
+      }
+      definitions[name] = { type: 'object', required: spec.primaryKey || [], properties }
+      paths[`/${name}`] = {}
+    }
+    for (const name of Object.keys(rpcs)) {
+      paths[`/rpc/${name}`] = {}
+    }
+
+    return { swagger: '2.0', info: { title: 'Fake PostgREST' }, paths, definitions }
+  }
+
+  const server = await startServer(async (req, res, body) => {
+    const url = new URL(req.url || '/', 'http://localhost')
+    requests.push({
+      method: req.method || 'GET',
+      path: url.pathname,
+      search: url.search,
+      authorization: (req.headers.authorization as string) || null,
+    })
+
+    try {
+      if (url.pathname === '/auth/v1/user') {
+        const token = String(req.headers.authorization || '').replace(/^Bearer\s+/i, '')
+        const user = seed.users.find((candidate) => candidate.token === token)
+        if (!user) {
+          sendJson(res, 401, { code: 401, error_code: 'bad_jwt', msg: 'invalid JWT: unable to parse or verify signature' })
+          return
+        }
+        sendJson(res, 200, { id: user.id, email: user.email, aud: 'authenticated', role: 'authenticated', app_metadata: {}, user_metadata: {}, created_at: '2026-01-01T00:00:00Z' })
+        return
+      }
+
+      if (url.pathname === '/rest/v1/' || url.pathname === '/rest/v1') {
+        if (!openApiAvailable) {
+          sendJson(res, 503, { message: 'OpenAPI document disabled' })
+          return
+        }
+        sendJson(res, 200, buildOpenApi())
+        return
+      }
+
+      const rpcMatch = url.pathname.match(/^\/rest\/v1\/rpc\/([\w]+)$/)
+      if (rpcMatch) {
+        const rpc = rpcs[rpcMatch[1]]
+        if (!rpc) {
+          throw new PostgrestError(404, 'PGRST202', `Could not find the function public.${rpcMatch[1]} in the schema cache`)
+        }
+        const args = req.method === 'GET'
+          ? Object.fromEntries(Array.from(url.searchParams.entries()))
+          : parseJsonBody(body) || {}
+        sendJson(res, 200, rpc(args))
+        return
+      }
+
+      const tableMatch = url.pathname.match(/^\/rest\/v1\/([\w]+)$/)
+      if (tableMatch) {
+        concurrency.active++
+        concurrency.peak = Math.max(concurrency.peak, concurrency.active)
+        try {
+          const delay = responseDelays.get(tableMatch[1])
+          if (delay) {
+            await new Promise((resolve) => setTimeout(resolve, delay))
+          }
+          handleTable(req, res, tableMatch[1], url.searchParams, body)
+        } finally {
+          concurrency.active--
+        }
+        return
+      }
+
+      sendJson(res, 404, { message: `No fake route for ${req.method} ${url.pathname}` })
+    } catch (err) {
+      if (err instanceof PostgrestError) {
+        sendJson(res, err.status, { code: err.code, message: err.message, details: null, hint: null })
+        return
+      }
+      throw err
+    }
+  })
+
+  return {
+    ...server,
+    requests,
+    rpcs,
+    rows: (table) => getTable(table).rows,
+    setOpenApiAvailable: (available) => {
+      openApiAvailable = available
+    },
+    setResponseDelay: (table, ms) => {
+      responseDelays.set(table, ms)
+    },
+    concurrency,
+  }
+}
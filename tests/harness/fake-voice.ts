@@ -0,0 +1,66 @@
+import { startServer, sendJson, parseJsonBody, FakeServer } from './http'
+
+/**
+ * Fake Deepgram (speech-to-text) and ElevenLabs (text-to-speech) endpoints
+ */
+
+export const FAKE_AUDIO = Buffer.from('ID3-fake-mpeg-audio')
+
+export interface RecordedVoiceRequest {
+  path: string
+  headers: Record<string, string | string[] | undefined>
+  bodyLength: number
+  json: any
+}
+
+export interface FakeVoice extends FakeServer {
+  requests: RecordedVoiceRequest[]
+  setTranscript: (transcript: string) => void
+}
+
+export async function startFakeVoice(options: { deepgramKey: string; elevenLabsKey: string }): Promise<FakeVoice> {
+  const requests: RecordedVoiceRequest[] = []
+  let transcript = 'Was kostet Kupferrohr?'
+
+  const server = await startServer((req, res, body) => {
+    const url = new URL(req.url || '/', 'http://localhost')
+    const isJson = String(req.headers['content-type'] || '').includes('application/json')
+    requests.push({ path: url.pathname, headers: req.headers, bodyLength: body.length, json: isJson ? parseJsonBody(body) : null })
+
+    if (req.method === 'POST' && url.pathname === '/v1/listen') {
+      if (req.headers.authorization !== `Token ${options.deepgramKey}`) {
+        sendJson(res, 401, { err_code: 'INVALID_AUTH', err_msg: 'Invalid credentials.' })
+        return
+      }
+      if (body.length === 0) {
+        sendJson(res, 400, { err_code: 'Bad Request', err_msg: 'Bad Request: failed to process audio: corrupt or unsupported data' })
+        return
+      }
+      sendJson(res, 200, {
+        metadata: { request_id: 'fake' },
+        results: { channels: [{ alternatives: [{ transcript, confidence: 0.99 }] }] },
+      })
+      return
+    }
+
+    if (req.method === 'POST' && url.pathname.startsWith('/v1/text-to-speech/')) {
+      if (req.headers['xi-api-key'] !== options.elevenLabsKey) {
+        sendJson(res, 401, { detail: { status: 'invalid_api_key', message: 'Invalid API key' } })
+        return
+      }
+      res.writeHead(200, { 'Content-Type': 'audio/mpeg', 'Content-Length': String(FAKE_AUDIO.length) })
+      res.end(FAKE_AUDIO)
+      return
+    }
+
+    sendJson(res, 404, { message: `No fake route for ${req.method} ${url.pathname}` })
+  })
+
+  return {
+    ...server,
+    requests,
+    setTranscript: (value) => {
+      transcript = value
+    },
+  }
+}
@@ -0,0 +1,53 @@
+import http from 'http'
+import type { AddressInfo } from 'net'
+
+/**
+ * Minimal HTTP helpers shared by the fake servers
+ */
+
+export interface FakeServer {
+  url: string
+  stop: () => Promise<void>
+}
+
+export type RequestHandler = (req: http.IncomingMessage, res: http.ServerResponse, body: Buffer) => void | Promise<void>
+
+/**
+ * Start a server on a random local port
+ */
+export async function startServer(handler: RequestHandler): Promise<FakeServer> {
+  const server = http.createServer(async (req, res) => {
+    const chunks: Buffer[] = []
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer)
+    }
+    try {
+      await handler(req, res, Buffer.concat(chunks))
+    } catch (err) {
+      sendJson(res, 500, { message: err instanceof Error ? err.message : 'Fake server error' })
+    }
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    stop: () => new Promise<void>((resolve, reject) => {
+      server.closeAllConnections()
+      server.close((err) => (err ? reject(err) : resolve()))
+    }),
+  }
+}
+
+export function sendJson(res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers })
+  res.end(body === undefined ? '' : JSON.stringify(body))
+}
+
+export function parseJsonBody(body: Buffer): any {
+  if (body.length === 0) {
+    return null
+  }
+  return JSON.parse(body.toString('utf8'))
+}
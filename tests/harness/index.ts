@@ -0,0 +1,114 @@
+import { readFileSync } from 'fs'
+import path from 'path'
+import { NextRequest } from 'next/server'
+import { startFakeSupabase, FakeSupabase, SupabaseSeed } from './fake-supabase'
+import { startFakeLlm, FakeLlm, LlmScript } from './fake-llm'
+import { startFakeVoice, FakeVoice } from './fake-voice'
+import { readEventStream, StreamEvent } from '@/lib/sse'
+
+/**
+ * Offline test harness: fake LLM, fake Supabase and fake STT/TTS servers
+ *
+ * startHarness() starts all fakes on local ports and points the environment at them.
+ * Route modules read parts of the environment at import time, so import them after
+ * startHarness() (e.g. `await import('@/app/api/chat/route')` in beforeAll).
+ */
+
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures')
+
+export const TOKENS = {
+  purchaser: 'purchaser-token',
+  viewer: 'viewer-token',
+  admin: 'admin-token',
+}
+
+export const DEEPGRAM_KEY = 'fake-deepgram-key'
+export const ELEVENLABS_KEY = 'fake-elevenlabs-key'
+
+export interface Harness {
+  supabase: FakeSupabase
+  llm: FakeLlm
+  voice: FakeVoice
+  stop: () => Promise<void>
+}
+
+export function readFixture<T = any>(name: string): T {
+  return JSON.parse(readFileSync(path.join(FIXTURES_DIR, name), 'utf8'))
+}
+
+/**
+ * Scripted LLM conversation from tests/fixtures/llm/<name>.json
+ */
+export function loadLlmScript(name: string): LlmScript {
+  return readFixture<LlmScript>(path.join('llm', `${name}.json`))
+}
+
+export async function startHarness(): Promise<Harness> {
+  const supabase = await startFakeSupabase(readFixture<SupabaseSeed>('supabase-seed.json'))
+  const llm = await startFakeLlm()
+  const voice = await startFakeVoice({ deepgramKey: DEEPGRAM_KEY, elevenLabsKey: ELEVENLABS_KEY })
+
+  Object.assign(process.env, {
+    NEXT_PUBLIC_SUPABASE_URL: supabase.url,
+    NEXT_PUBLIC_SUPABASE_ANON_KEY: 'fake-anon-key',
+    SUPABASE_SERVICE_ROLE_KEY: 'fake-service-role-key',
+    LLM_PROVIDER: 'openai-compatible',
+    LLM_BASE_URL: llm.baseUrl,
+    LLM_MODEL: 'fake-model',
+    LLM_API_KEY: '',
+    DEEPGRAM_API_KEY: DEEPGRAM_KEY,
+    DEEPGRAM_API_URL: voice.url,
+    ELEVENLABS_API_KEY: ELEVENLABS_KEY,
+    ELEVENLABS_API_URL: voice.url,
+    GROUNDING_MODE: 'flag',
+  })
+
+  return {
+    supabase,
+    llm,
+    voice,
+    stop: async () => {
+      await Promise.all([supabase.stop(), llm.stop(), voice.stop()])
+    },
+  }
+}
+
+/**
+ * Build a request for a route handler
+ */
+export function apiRequest(
+  routePath: string,
+  options: {
+    method?: string
+    token?: string
+    json?: unknown
+    body?: BodyInit
+    headers?: Record<string, string>
+    // Aborting it simulates a client that disconnects
+    signal?: AbortSignal
+  } = {}
+) {
+  const headers = new Headers(options.headers)
+  if (options.token) {
+    headers.set('Authorization', `Bearer ${options.token}`)
+  }
+  if (options.json !== undefined) {
+    headers.set('Content-Type', 'application/json')
+  }
+
+  return new NextRequest(`http://localhost${routePath}`, {
+    method: options.method || 'POST',
+    headers,
+    body: options.json !== undefined ? JSON.stringify(options.json) : options.body,
+    signal: options.signal,
+  })
+}
+
+/**
+ * Collect all Server-Sent Events of a streaming response
+ */
+export async function readEvents(response: Response) {
+  const events: StreamEvent[] = []
+  await readEventStream(response, (event) => events.push(event))
+  return events
+}